@@ -1,6 +1,30 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // OCR and PDF rendering load WebAssembly, language data and native canvas bindings at runtime
+    serverComponentsExternalPackages: [
+      "tesseract.js",
+      "@tesseract.js-data/eng",
+      "pdfjs-dist",
+      "@napi-rs/canvas",
+    ],
+    // The extraction worker's chunk is loaded by a computed path the file tracer
+    // cannot follow, so ship the server chunks with every API route: besides the
+    // worker route, upload and reprocess routes run ingestion in-process when
+    // the local runner is in use
+    outputFileTracingIncludes: {
+      "/api/**/*": ["./.next/server/chunks/*.js"],
+    },
+  },
+  webpack: (config, { isServer }) => {
+    if (isServer) {
+      // Worker threads (the extraction sandbox) load their chunk from disk next
+      // to the server chunks, not from the client asset path /_next/
+      config.output.workerPublicPath = "./";
+    }
+    return config;
+  },
   // remove reactCompiler
 }
 
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabase";
+import { getEmbeddingProviders } from "@/lib/embeddings";
+import { PIPELINE_VERSION } from "@/lib/ingestion-pipeline";
+import {
+  reprocessDocument,
+  startLocalIngestionRunner,
+  usesLocalIngestionRunner,
+} from "@/lib/ingestion-queue";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+// The most the Vercel Hobby plan allows
+export const maxDuration = 60;
+
+// Each document takes several round trips to clear and queue, so batches are
+// kept small enough to finish within maxDuration. Queued documents are not
+// selected again, so repeat the request until nothing is queued.
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+/**
+ * Bulk re-index for operators, authorized with "Authorization: Bearer $ADMIN_API_KEY".
+ * Body: { documentIds?: string[], userId?: string, limit?: number }. Without
+ * documentIds, documents produced by an older pipeline version or embedded
+ * with a model that is no longer configured are selected.
+ */
+export async function POST(req: NextRequest) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    console.error("ADMIN_API_KEY is not configured");
+    return NextResponse.json(
+      { error: "Server configuration error. Please contact support." },
+      { status: 500 }
+    );
+  }
+
+  if (req.headers.get("authorization") !== `Bearer ${adminKey}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { documentIds, userId } = body as { documentIds?: string[]; userId?: string };
+    const limit = Math.min(Number(body.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+
+    let query = supabaseAdmin
+      .from("documents")
+      .select("id, user_id, filename, file_type, storage_path, parent_document_id")
+      .neq("status", "processing")
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (Array.isArray(documentIds) && documentIds.length > 0) {
+      query = query.in("id", documentIds);
+    } else {
+      const models = getEmbeddingProviders().map((provider) => provider.modelId);
+      query = query.or(
+        `pipeline_version.is.null,pipeline_version.neq.${PIPELINE_VERSION},` +
+          `embedding_model.is.null,embedding_model.not.in.(${models.join(",")})`
+      );
+    }
+    if (userId) {
+      query = query.eq("user_id", userId);
+    }
+
+    const { data: documents, error } = await query;
+    if (error) {
+      console.error("Supabase error selecting documents to reprocess:", error);
+      return NextResponse.json({ error: "Failed to select documents" }, { status: 500 });
+    }
+
+    const results: Array<{ documentId: string; queued: boolean; jobId?: string; error?: string }> = [];
+    for (const document of documents || []) {
+      try {
+        const result = await reprocessDocument(document);
+        results.push({ documentId: document.id, ...result });
+      } catch (reprocessError) {
+        console.error(`[${document.id}] Failed to queue reprocessing:`, reprocessError);
+        results.push({
+          documentId: document.id,
+          queued: false,
+          error: reprocessError instanceof Error ? reprocessError.message : "Failed to queue reprocessing",
+        });
+      }
+    }
+
+    if (usesLocalIngestionRunner()) {
+      startLocalIngestionRunner();
+    }
+
+    return NextResponse.json({
+      pipelineVersion: PIPELINE_VERSION,
+      queued: results.filter((result) => result.queued).length,
+      results,
+    });
+  } catch (error) {
+    console.error("Error running bulk reprocess:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to reprocess documents";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
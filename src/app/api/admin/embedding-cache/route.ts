@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEmbeddingCacheStats } from "@/lib/embedding-cache";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * Embedding cache size and daily hit rates for operators, authorized with
+ * "Authorization: Bearer $ADMIN_API_KEY". Query: ?days=30
+ */
+export async function GET(req: NextRequest) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    console.error("ADMIN_API_KEY is not configured");
+    return NextResponse.json(
+      { error: "Server configuration error. Please contact support." },
+      { status: 500 }
+    );
+  }
+
+  if (req.headers.get("authorization") !== `Bearer ${adminKey}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const days = Math.min(Number(req.nextUrl.searchParams.get("days")) || DEFAULT_DAYS, MAX_DAYS);
+    const { entries, stats } = await getEmbeddingCacheStats(days);
+
+    const hits = stats.reduce((sum, row) => sum + row.hits, 0);
+    const misses = stats.reduce((sum, row) => sum + row.misses, 0);
+
+    return NextResponse.json({
+      entries,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      daily: stats,
+    });
+  } catch (error) {
+    console.error("Error fetching embedding cache stats:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to fetch embedding cache stats";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -2,12 +2,20 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { supabaseAdmin } from "@/lib/supabase";
-import { generateQueryEmbedding } from "@/lib/embeddings";
-import { queryVectors } from "@/lib/vector-store";
+import { detectClauseTypes } from "@/lib/clause-taxonomy";
+import { parseContractFilter, type ContractFilter } from "@/lib/contract-metadata";
+import { attachCitations, listAuthorities, formatAuthority } from "@/lib/citations";
+import { followCrossReferences } from "@/lib/cross-references";
+import { getSupersededDocumentIds } from "@/lib/document-versions";
+import { attachDefinitions } from "@/lib/glossary";
+import { generateQueryEmbeddings, getDocumentEmbeddingModels } from "@/lib/embeddings";
+import { queryVectorsAcrossModels } from "@/lib/vector-store";
+import { formatTableMarkdown } from "@/lib/tables";
 import {
   generateResponse,
   generateStreamingResponse,
   analyzeQuery,
+  formatPageRange,
   type ChatMessage,
   type Source,
 } from "@/lib/groq";
@@ -18,6 +26,10 @@ interface ChatRequest {
   message: string;
   conversationId?: string;
   stream?: boolean;
+  documentIds?: string[]; // Restrict retrieval to these documents (any version)
+  includeOlderVersions?: boolean;
+  filters?: ContractFilter; // e.g. { governingLaw: "New York", effectiveFrom: "2023-01-01" }
+  clauseTypes?: string[]; // Defaults to the clause types the message asks for every clause of
 }
 
 export async function POST(req: NextRequest) {
@@ -30,7 +42,14 @@ export async function POST(req: NextRequest) {
 
     const userId = session.user.id;
     const body: ChatRequest = await req.json();
-    const { message, conversationId, stream = false } = body;
+    const {
+      message,
+      conversationId,
+      stream = false,
+      documentIds,
+      includeOlderVersions = false,
+      filters,
+    } = body;
 
     if (!message || message.trim().length === 0) {
       return NextResponse.json(
@@ -39,6 +58,17 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (
+      body.clauseTypes !== undefined &&
+      !(Array.isArray(body.clauseTypes) && body.clauseTypes.every((type) => typeof type === "string"))
+    ) {
+      return NextResponse.json(
+        { error: "clauseTypes must be an array of strings" },
+        { status: 400 }
+      );
+    }
+    const clauseTypes = body.clauseTypes ?? detectClauseTypes(message);
+
     // Get or create conversation
     let convId = conversationId;
     if (!convId) {
@@ -68,22 +98,66 @@ export async function POST(req: NextRequest) {
       content: message,
     });
 
-    // Generate query embedding
-    const queryEmbedding = await generateQueryEmbedding(message);
+    // Embed the query with each model the user's documents were indexed with,
+    // e.g. the multilingual model for documents in other languages
+    const queryEmbeddings = await generateQueryEmbeddings(
+      message,
+      await getDocumentEmbeddingModels(userId)
+    );
+
+    // Superseded versions are left out unless asked for or selected explicitly
+    const excludeDocumentIds =
+      includeOlderVersions || documentIds?.length
+        ? undefined
+        : await getSupersededDocumentIds(userId);
 
     // Retrieve relevant documents from vector store
-    const retrievedVectors = await queryVectors(queryEmbedding, userId, {
-      topK: 5,
-      minScore: 0.7,
-    });
+    const retrievalOptions = {
+      documentIds,
+      excludeDocumentIds,
+      contractFilter: parseContractFilter(filters as Record<string, unknown> | undefined),
+    };
+
+    // Questions about a kind of clause ("every limitation of liability clause")
+    // are answered from chunks labelled with it, so retrieve more of them and
+    // rely on the label rather than a high similarity score
+    let retrievedVectors =
+      clauseTypes.length > 0
+        ? await queryVectorsAcrossModels(queryEmbeddings, userId, {
+            ...retrievalOptions,
+            clauseTypes,
+            topK: 15,
+            minScore: 0.3,
+          })
+        : [];
+
+    // Documents indexed before classification have no labels to match
+    if (retrievedVectors.length === 0) {
+      retrievedVectors = await queryVectorsAcrossModels(queryEmbeddings, userId, {
+        ...retrievalOptions,
+        topK: 5,
+        minScore: 0.7,
+      });
+    }
 
     // Format sources
-    const sources: Source[] = retrievedVectors.map((vector) => ({
+    let sources: Source[] = retrievedVectors.map((vector) => ({
       documentId: vector.metadata.documentId,
       filename: vector.metadata.filename,
       content: vector.metadata.content,
       score: vector.score,
       chunkIndex: vector.metadata.chunkIndex,
+      startChar: vector.metadata.startChar,
+      endChar: vector.metadata.endChar,
+      pageStart: vector.metadata.pageStart,
+      pageEnd: vector.metadata.pageEnd,
+      sectionPath: vector.metadata.sectionPath,
+      heading: vector.metadata.heading,
+      table: vector.metadata.table,
+      clauseTypes: vector.metadata.clauseTypes,
+      references: vector.metadata.references,
+      language: vector.metadata.language,
+      origin: vector.metadata.origin,
     }));
 
     // Analyze if query can be answered
@@ -115,6 +189,28 @@ Please ensure you've uploaded relevant legal documents that contain information
       });
     }
 
+    // Pull in the sections retrieved passages refer to ("subject to Section 9.3")
+    try {
+      sources = await followCrossReferences(sources);
+    } catch (error) {
+      console.warn("Answering without referenced sections:", error);
+    }
+
+    // Passages use defined terms ("Confidential Information") whose definitions are elsewhere
+    try {
+      sources = await attachDefinitions(sources);
+    } catch (error) {
+      console.warn("Answering without defined terms:", error);
+    }
+
+    // Case law and statutes the passages rely on
+    sources = attachCitations(sources);
+    const authorities = listAuthorities(sources).map(({ sources: citedBy, ...authority }) => ({
+      ...authority,
+      formatted: formatAuthority(authority),
+      documents: Array.from(new Set(citedBy.map((index) => sources[index - 1].filename))),
+    }));
+
     // Get conversation history
     const { data: history } = await supabaseAdmin
       .from("messages")
@@ -158,13 +254,23 @@ Please ensure you've uploaded relevant legal documents that contain information
                 filename: s.filename,
                 score: s.score,
                 chunkIndex: s.chunkIndex,
+                startChar: s.startChar,
+                endChar: s.endChar,
+                pageStart: s.pageStart,
+                pageEnd: s.pageEnd,
+                sectionPath: s.sectionPath,
+                heading: s.heading,
+                table: s.table,
+                clauseTypes: s.clauseTypes,
+                origin: s.origin,
+                referencedFrom: s.referencedFrom,
               })),
-              metadata: { analysis },
+              metadata: { analysis, authorities },
             });
 
             controller.enqueue(
               encoder.encode(
-                `data: ${JSON.stringify({ done: true, conversationId: convId })}\n\n`
+                `data: ${JSON.stringify({ done: true, conversationId: convId, authorities })}\n\n`
               )
             );
             controller.close();
@@ -201,17 +307,40 @@ Please ensure you've uploaded relevant legal documents that contain information
         filename: s.filename,
         score: s.score,
         chunkIndex: s.chunkIndex,
+        startChar: s.startChar,
+        endChar: s.endChar,
+        pageStart: s.pageStart,
+        pageEnd: s.pageEnd,
+        sectionPath: s.sectionPath,
+        heading: s.heading,
+        table: s.table,
+        clauseTypes: s.clauseTypes,
+        origin: s.origin,
+        referencedFrom: s.referencedFrom,
       })),
-      metadata: { analysis },
+      metadata: { analysis, authorities },
     });
 
     return NextResponse.json({
       response,
       sources: sources.map((s) => ({
+        documentId: s.documentId,
         filename: s.filename,
         score: s.score,
-        preview: s.content.slice(0, 200) + "...",
+        chunkIndex: s.chunkIndex,
+        startChar: s.startChar,
+        endChar: s.endChar,
+        pages: formatPageRange(s),
+        sectionPath: s.sectionPath,
+        heading: s.heading,
+        table: s.table,
+        clauseTypes: s.clauseTypes,
+        origin: s.origin,
+        referencedFrom: s.referencedFrom,
+        // Tables are shown whole, as Markdown
+        preview: s.table ? formatTableMarkdown(s.table) : s.content.slice(0, 200) + "...",
       })),
+      authorities,
       conversationId: convId,
       metadata: { analysis },
     });
@@ -0,0 +1,50 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  findCitingDocuments,
+  listCitedAuthorities,
+  type CitationKind,
+} from "@/lib/citations";
+
+const CITATION_KINDS: CitationKind[] = ["case", "statute", "regulation", "treaty"];
+
+/**
+ * Search the citations index.
+ * ?q=123 F.3d 456 (or a case name) returns the documents citing it, with the
+ * passages that do; without q, every cited authority with its document count.
+ * ?kind=case|statute|regulation|treaty narrows either.
+ */
+export async function GET(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const query = searchParams.get("q")?.trim();
+  const kind = searchParams.get("kind") || undefined;
+
+  if (kind && !CITATION_KINDS.includes(kind as CitationKind)) {
+    return NextResponse.json(
+      { error: `kind must be one of: ${CITATION_KINDS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!query) {
+      const authorities = await listCitedAuthorities(session.user.id, kind as CitationKind);
+      return NextResponse.json({ authorities });
+    }
+
+    const documents = await findCitingDocuments(session.user.id, query, kind as CitationKind);
+    return NextResponse.json({ query, documents });
+  } catch (error) {
+    console.error("Error searching citations:", error);
+    return NextResponse.json(
+      { error: "Failed to search citations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { getDocumentGlossaries } from "@/lib/glossary";
+
+/**
+ * Return the defined terms of a document, in the order they are defined
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { data: document, error } = await supabaseAdmin
+      .from("documents")
+      .select("id, filename, status")
+      .eq("id", params.id)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (error || !document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const glossaries = await getDocumentGlossaries([document.id]);
+
+    return NextResponse.json({
+      id: document.id,
+      filename: document.filename,
+      status: document.status,
+      terms: glossaries.get(document.id) || [],
+    });
+  } catch (error) {
+    console.error("Internal server error fetching glossary:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
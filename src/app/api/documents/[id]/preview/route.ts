@@ -0,0 +1,53 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { openOriginalFile, originalFileHeaders } from "@/lib/document-storage";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Stream a document's original file inline for the in-app viewer
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { data: document, error } = await supabaseAdmin
+      .from("documents")
+      .select("id, filename, file_type, storage_path")
+      .eq("id", params.id)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (error || !document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    if (!document.storage_path) {
+      return NextResponse.json(
+        { error: "The original file was not kept for this document" },
+        { status: 404 }
+      );
+    }
+
+    const file = await openOriginalFile(document.storage_path);
+
+    return new NextResponse(file.stream, {
+      headers: originalFileHeaders(document.filename, document.file_type, "inline", file.size),
+    });
+  } catch (error) {
+    console.error("Error serving original file:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import {
+  reprocessDocument,
+  startLocalIngestionRunner,
+  usesLocalIngestionRunner,
+} from "@/lib/ingestion-queue";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Rebuild a document's chunks and vectors from its original file
+ * with the current pipeline settings
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { data: document, error } = await supabaseAdmin
+      .from("documents")
+      .select("id, user_id, filename, file_type, storage_path, parent_document_id")
+      .eq("id", params.id)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (error || !document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const result = await reprocessDocument(document);
+    if (!result.queued) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    if (usesLocalIngestionRunner()) {
+      startLocalIngestionRunner();
+    }
+
+    return NextResponse.json(
+      { message: "Document queued for reprocessing", jobId: result.jobId },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error reprocessing document:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to reprocess document";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
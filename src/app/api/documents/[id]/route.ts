@@ -1,43 +1,93 @@
 import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
-import { supabaseClient } from "@/lib/supabase";
+import { authOptions } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { deleteDocument } from "@/lib/documents";
 
-// NOTE: This file is a placeholder. You will need to implement the actual logic
-// to delete a document from your database.
-
-export async function DELETE(
+/**
+ * Return a document's extracted text with the source range of every chunk,
+ * so the viewer can jump to and highlight a cited passage
+ */
+export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
-  const session = await getServerSession();
-
-  if (!session || !session.user) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const documentId = params.id;
-  const userId = (session.user as any).id;
-
   try {
-    // 1. Delete the document from the database, ensuring it belongs to the user
-    const { error: dbError } = await supabaseClient
+    const { data: document, error } = await supabaseAdmin
       .from("documents")
-      .delete()
-      .eq("id", documentId)
-      .eq("user_id", userId);
+      .select("id, filename, status, extracted_text, metadata")
+      .eq("id", params.id)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (error || !document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const { data: chunks, error: chunksError } = await supabaseAdmin
+      .from("document_chunks")
+      .select("chunk_index, metadata")
+      .eq("document_id", document.id)
+      .order("chunk_index", { ascending: true });
 
-    if (dbError) {
-      console.error("Supabase error deleting document:", dbError);
+    if (chunksError) {
+      console.error("Supabase error fetching chunks:", chunksError);
       return NextResponse.json(
-        { error: "Failed to delete document" },
+        { error: "Failed to fetch document chunks" },
         { status: 500 }
       );
     }
 
-    // 2. (Optional but recommended) Delete the associated vectors from your vector store
-    // This step depends on your vector database implementation (e.g., Pinecone, Chroma, Supabase pgvector)
-    // Since we don't know your vector store, this is left as a comment.
-    // Example: await vectorStore.delete({ filter: { documentId: documentId } });
+    return NextResponse.json({
+      id: document.id,
+      filename: document.filename,
+      status: document.status,
+      text: document.extracted_text,
+      pages: document.metadata?.pages || null,
+      chunks: (chunks || []).map((chunk: any) => ({
+        chunkIndex: chunk.chunk_index,
+        startChar: chunk.metadata?.startChar,
+        endChar: chunk.metadata?.endChar,
+        pageStart: chunk.metadata?.pageStart,
+        pageEnd: chunk.metadata?.pageEnd,
+        startCharInPage: chunk.metadata?.startCharInPage,
+        endCharInPage: chunk.metadata?.endCharInPage,
+        sectionPath: chunk.metadata?.sectionPath,
+        heading: chunk.metadata?.heading,
+      })),
+    });
+  } catch (error) {
+    console.error("Internal server error fetching document:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a document with its attachments, chunks, vectors, stored original
+ * files and ingestion checkpoints
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteDocument(params.id, session.user.id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
 
     return NextResponse.json({ message: "Document deleted successfully" });
   } catch (error) {
@@ -48,4 +98,3 @@ export async function DELETE(
     );
   }
 }
-
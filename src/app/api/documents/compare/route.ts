@@ -0,0 +1,127 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { summarizeRedline } from "@/lib/groq";
+import type { PageSpan } from "@/lib/document-processor";
+import { compareDocuments } from "@/lib/redline";
+
+// Columns selected for each compared document
+interface ComparedDocument {
+  id: string;
+  filename: string;
+  status: string;
+  extracted_text: string | null;
+  metadata: { pages?: PageSpan[] } | null;
+  version_number: number;
+}
+
+interface CompareRequest {
+  baseDocumentId: string;
+  revisedDocumentId: string;
+  summarize?: boolean; // Defaults to true
+}
+
+/**
+ * Compare two documents clause by clause and return a redline with an
+ * LLM summary of the material changes
+ */
+export async function POST(request: Request) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body: CompareRequest = await request.json();
+    const { baseDocumentId, revisedDocumentId, summarize = true } = body;
+
+    if (!baseDocumentId || !revisedDocumentId) {
+      return NextResponse.json(
+        { error: "baseDocumentId and revisedDocumentId are required" },
+        { status: 400 }
+      );
+    }
+
+    if (baseDocumentId === revisedDocumentId) {
+      return NextResponse.json(
+        { error: "Choose two different documents to compare" },
+        { status: 400 }
+      );
+    }
+
+    const { data: documents, error } = await supabaseAdmin
+      .from("documents")
+      .select("id, filename, status, extracted_text, metadata, version_number")
+      .in("id", [baseDocumentId, revisedDocumentId])
+      .eq("user_id", session.user.id);
+
+    if (error) {
+      console.error("Supabase error fetching documents to compare:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch documents" },
+        { status: 500 }
+      );
+    }
+
+    const compared = (documents || []) as ComparedDocument[];
+    const base = compared.find((doc) => doc.id === baseDocumentId);
+    const revised = compared.find((doc) => doc.id === revisedDocumentId);
+
+    if (!base || !revised) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    if (!base.extracted_text || !revised.extracted_text) {
+      const unprocessed = base.extracted_text ? revised : base;
+      return NextResponse.json(
+        { error: `${unprocessed.filename} has not finished processing` },
+        { status: 409 }
+      );
+    }
+
+    const redline = compareDocuments(
+      { text: base.extracted_text, pages: base.metadata?.pages },
+      { text: revised.extracted_text, pages: revised.metadata?.pages }
+    );
+
+    // The redline is still useful without the summary, so report LLM failures alongside it
+    let summary: string | undefined;
+    let summaryError: string | undefined;
+    const hasChanges = redline.changes.some((change) => change.status !== "unchanged");
+    if (summarize && hasChanges) {
+      if (!process.env.GROQ_API_KEY) {
+        summaryError = "Groq API key not configured";
+      } else {
+        try {
+          summary = (await summarizeRedline(base.filename, revised.filename, redline.changes))
+            .content;
+        } catch (summaryFailure) {
+          console.error("Error summarizing redline:", summaryFailure);
+          summaryError = "Failed to generate summary of changes";
+        }
+      }
+    }
+
+    const describe = (doc: ComparedDocument) => ({
+      id: doc.id,
+      filename: doc.filename,
+      versionNumber: doc.version_number,
+    });
+
+    return NextResponse.json({
+      base: describe(base),
+      revised: describe(revised),
+      stats: redline.stats,
+      changes: redline.changes,
+      ...(summary !== undefined && { summary }),
+      ...(summaryError && { summaryError }),
+    });
+  } catch (error) {
+    console.error("Internal server error comparing documents:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { supabaseClient } from "@/lib/supabase";
+import { normalizePartyName, parseContractFilter } from "@/lib/contract-metadata";
+import { startLocalIngestionRunner, usesLocalIngestionRunner } from "@/lib/ingestion-queue";
 
 // NOTE: This file is a placeholder. You will need to implement the actual logic
 // to fetch documents from your database.
@@ -17,11 +19,26 @@ export async function GET(request: Request) {
 
   try {
     // Fetch documents belonging to the current user
-    const { data: documents, error } = await supabaseClient
+    let query = supabaseClient
       .from("documents")
-      .select("id, filename, status, metadata, created_at")
+      .select(
+        "id, parent_document_id, filename, status, metadata, created_at, version_group_id, version_number, previous_version_id, is_latest, parties, effective_date, term_description, term_months, governing_law, jurisdiction, renewal_terms, auto_renews, contract_value, contract_currency"
+      )
       .eq("user_id", userId);
 
+    // Optional filters on extracted contract terms, e.g. ?governingLaw=New%20York&minValue=10000
+    const filter = parseContractFilter(new URL(request.url).searchParams);
+    if (filter.party) query = query.contains("party_names", [normalizePartyName(filter.party)]);
+    if (filter.governingLaw) query = query.eq("governing_law", filter.governingLaw);
+    if (filter.jurisdiction) query = query.eq("jurisdiction", filter.jurisdiction);
+    if (filter.effectiveFrom) query = query.gte("effective_date", filter.effectiveFrom);
+    if (filter.effectiveTo) query = query.lte("effective_date", filter.effectiveTo);
+    if (filter.minValue !== undefined) query = query.gte("contract_value", filter.minValue);
+    if (filter.maxValue !== undefined) query = query.lte("contract_value", filter.maxValue);
+    if (filter.autoRenews !== undefined) query = query.eq("auto_renews", filter.autoRenews);
+
+    const { data: documents, error } = await query;
+
     if (error) {
       console.error("Supabase error fetching documents:", error);
       return NextResponse.json(
@@ -30,13 +47,36 @@ export async function GET(request: Request) {
       );
     }
 
+    // The documents page polls while anything is processing; use that to resume
+    // jobs left behind by a restarted development server
+    if (usesLocalIngestionRunner() && documents?.some((doc: any) => doc.status === "processing")) {
+      startLocalIngestionRunner();
+    }
+
     // Transform documents to include word_count from metadata
     const transformedDocuments = (documents || []).map((doc: any) => ({
       id: doc.id,
+      parent_document_id: doc.parent_document_id,
       filename: doc.filename,
       status: doc.status,
       word_count: doc.metadata?.wordCount || 0,
       created_at: doc.created_at,
+      version_group_id: doc.version_group_id,
+      version_number: doc.version_number,
+      previous_version_id: doc.previous_version_id,
+      is_latest: doc.is_latest,
+      contract: {
+        parties: doc.parties || [],
+        effective_date: doc.effective_date,
+        term: doc.term_description,
+        term_months: doc.term_months,
+        governing_law: doc.governing_law,
+        jurisdiction: doc.jurisdiction,
+        renewal_terms: doc.renewal_terms,
+        auto_renews: doc.auto_renews,
+        value: doc.contract_value,
+        currency: doc.contract_currency,
+      },
     }));
 
     return NextResponse.json(transformedDocuments);
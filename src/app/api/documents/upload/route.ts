@@ -1,22 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { supabaseAdmin } from "@/lib/supabase";
 import {
-  processDocument,
-  chunkDocument,
-  cleanLegalText,
+  getSupportedFileTypes,
+  resolveFileType,
+  validateFile,
+  validateFileContent,
+  MAX_FILE_SIZE,
 } from "@/lib/document-processor";
-import { generateEmbeddingsBatch } from "@/lib/embeddings";
-import { upsertVectors } from "@/lib/vector-store";
+import { DUPLICATE_ACTIONS, hashContent, type DuplicateAction } from "@/lib/document-versions";
+import { createUploadedDocument, type UploadResult } from "@/lib/documents";
+import { missingEmbeddingConfiguration } from "@/lib/embeddings";
+import type { IngestionContext } from "@/lib/ingestion-pipeline";
+import {
+  enqueueIngestionJob,
+  startLocalIngestionRunner,
+  usesLocalIngestionRunner,
+} from "@/lib/ingestion-queue";
+import { extractZipBundle, isZipBundle, MAX_BUNDLE_SIZE } from "@/lib/zip-bundle";
 
 // Next.js 14+ route exports
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
-// Increase timeout for document processing (Vercel Pro: up to 300s, Hobby: 10s)
-// Note: Processing happens async, so this mainly affects the initial upload response
+// Processing runs in the ingestion queue, so this only covers storing the upload
+// (including unpacking ZIP bundles)
 export const maxDuration = 60; // 60 seconds
 
+/**
+ * Upload settings for the file picker: the extensions the extractor registry
+ * accepts plus ZIP bundles of them, and the size limits of this endpoint
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    extensions: ["zip", ...getSupportedFileTypes().extensions],
+    maxFileSize: MAX_FILE_SIZE,
+    maxBundleSize: MAX_BUNDLE_SIZE,
+  });
+}
+
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -26,105 +52,144 @@ export async function POST(req: NextRequest) {
     const userId = session.user.id;
 
     const formData = await req.formData();
-    const file = formData.get("file") as File;
+    const files = formData
+      .getAll("file")
+      .filter((entry): entry is File => entry instanceof File);
 
-    if (!file) {
+    if (files.length === 0) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
+    const duplicateAction = (formData.get("duplicateAction") || "skip") as DuplicateAction;
+    if (!DUPLICATE_ACTIONS.includes(duplicateAction)) {
       return NextResponse.json(
-        { error: "File size exceeds 10MB limit" },
+        { error: `duplicateAction must be one of: ${DUPLICATE_ACTIONS.join(", ")}` },
         { status: 400 }
       );
     }
 
-    const allowedTypes = [
-      "application/pdf",
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      "text/plain",
-    ];
-
-    if (!allowedTypes.includes(file.type)) {
+    // Validate API keys before creating any records
+    const missingKey =
+      missingEmbeddingConfiguration() || (!process.env.PINECONE_API_KEY && "PINECONE_API_KEY");
+    if (missingKey) {
+      console.error(`${missingKey} is not configured`);
       return NextResponse.json(
-        { error: "Invalid file type. Only PDF, DOCX, and TXT are supported" },
-        { status: 400 }
+        { error: "Server configuration error. Please contact support." },
+        { status: 500 }
       );
     }
 
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    const results: UploadResult[] = [];
+
+    const createDocument = async (
+      filename: string,
+      buffer: Buffer,
+      fileType: string,
+      context: IngestionContext
+    ) => {
+      results.push(
+        await createUploadedDocument(
+          userId,
+          {
+            filename,
+            fileType,
+            fileSize: buffer.length,
+            contentHash: hashContent(buffer),
+            duplicateAction,
+            context,
+          },
+          (input) => enqueueIngestionJob(input, buffer)
+        )
+      );
+    };
 
-    const { data: document, error: dbError } = await supabaseAdmin
-      .from("documents")
-      .insert({
-        user_id: userId,
-        title: file.name.replace(/\.[^/.]+$/, ""),
-        filename: file.name,
-        file_type: file.type,
-        file_size: file.size,
-        status: "processing",
-      })
-      .select()
-      .single();
+    for (const file of files) {
+      if (isZipBundle(file.type, file.name)) {
+        if (file.size > MAX_BUNDLE_SIZE) {
+          results.push({
+            filename: file.name,
+            status: "rejected",
+            error: `Archive exceeds ${MAX_BUNDLE_SIZE / 1024 / 1024}MB limit`,
+          });
+          continue;
+        }
+
+        let bundle;
+        try {
+          bundle = await extractZipBundle(Buffer.from(await file.arrayBuffer()), MAX_FILE_SIZE);
+        } catch (error) {
+          console.error(`Error reading ZIP bundle ${file.name}:`, error);
+          results.push({ filename: file.name, status: "rejected", error: "Invalid or corrupt ZIP archive" });
+          continue;
+        }
+
+        for (const rejected of bundle.rejected) {
+          results.push({ filename: rejected.path, status: "rejected", error: rejected.reason });
+        }
+
+        // Entries keep their folder path as the filename, e.g. "Leases/2023/Lease A.pdf"
+        for (const entry of bundle.entries) {
+          const fileType = resolveFileType("", entry.filename);
+          if (!fileType) {
+            results.push({ filename: entry.path, status: "rejected", error: "File type not supported" });
+            continue;
+          }
+          if (entry.content.length === 0) {
+            results.push({ filename: entry.path, status: "rejected", error: "File is empty" });
+            continue;
+          }
+          const contentError = validateFileContent(entry.content, fileType, entry.filename);
+          if (contentError) {
+            results.push({ filename: entry.path, status: "rejected", error: contentError });
+            continue;
+          }
+          await createDocument(entry.path, entry.content, fileType, { depth: 0, bundle: file.name });
+        }
+        continue;
+      }
 
-    if (dbError || !document) {
-      console.error("Error creating document record:", dbError);
-      return NextResponse.json(
-        { error: "Failed to create document record" },
-        { status: 500 }
-      );
-    }
+      const validation = validateFile(file);
+      if (!validation.valid) {
+        results.push({ filename: file.name, status: "rejected", error: validation.error });
+        continue;
+      }
 
-    // Validate API keys before starting background processing
-    if (!process.env.COHERE_API_KEY) {
-      await supabaseAdmin
-        .from("documents")
-        .update({
-          status: "failed",
-          metadata: { error: "COHERE_API_KEY is not configured" },
-        })
-        .eq("id", document.id);
-      return NextResponse.json(
-        { error: "Server configuration error. Please contact support." },
-        { status: 500 }
-      );
+      // The browser's type comes from the file name, so check the content matches it
+      const fileType = resolveFileType(file.type, file.name)!;
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const contentError = validateFileContent(buffer, fileType, file.name);
+      if (contentError) {
+        results.push({ filename: file.name, status: "rejected", error: contentError });
+        continue;
+      }
+      await createDocument(file.name, buffer, fileType, { depth: 0 });
     }
 
-    if (!process.env.PINECONE_API_KEY) {
-      await supabaseAdmin
-        .from("documents")
-        .update({
-          status: "failed",
-          metadata: { error: "PINECONE_API_KEY is not configured" },
-        })
-        .eq("id", document.id);
+    const accepted = results.filter((result) => result.status === "accepted").length;
+    const skipped = results.filter((result) => result.status === "skipped").length;
+    if (accepted === 0 && skipped === 0) {
       return NextResponse.json(
-        { error: "Server configuration error. Please contact support." },
-        { status: 500 }
+        {
+          error: results.length === 1 ? results[0].error : "No supported files were found in the upload",
+          results,
+        },
+        { status: 400 }
       );
     }
 
-    // Start async processing (don't await - let it run in background)
-    processDocumentAsync(document.id, userId, buffer, file.name, file.type).catch(
-      (error) => {
-        console.error(`Background processing error for document ${document.id}:`, error);
-        // Error is already handled in processDocumentAsync
-      }
-    );
+    // Queued jobs are picked up by the worker route, or drained here in development
+    if (usesLocalIngestionRunner()) {
+      startLocalIngestionRunner();
+    }
 
     return NextResponse.json(
       {
-        message: "Document uploaded successfully and processing",
-        document: {
-          id: document.id,
-          title: document.title,
-          filename: document.filename,
-          status: document.status,
-        },
+        message: `${accepted} of ${results.length} file(s) uploaded successfully${
+          skipped > 0 ? `, ${skipped} already uploaded` : ""
+        }`,
+        results,
       },
-      { status: 201 }
+      { status: accepted > 0 ? 201 : 200 }
     );
   } catch (error) {
     console.error("Error uploading document:", error);
@@ -136,170 +201,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-// --------------------
-// Async document processing
-// --------------------
-async function processDocumentAsync(
-  documentId: string,
-  userId: string,
-  buffer: Buffer,
-  filename: string,
-  fileType: string
-) {
-  const startTime = Date.now();
-  
-  try {
-    console.log(`[${documentId}] Starting processing for ${filename}`);
-    
-    // Update status with progress
-    const updateProgress = async (step: string, progress?: number) => {
-      try {
-        await supabaseAdmin
-          .from("documents")
-          .update({
-            metadata: {
-              processingStep: step,
-              progress: progress,
-              lastUpdate: new Date().toISOString(),
-            },
-          })
-          .eq("id", documentId);
-      } catch (e) {
-        // Don't fail processing if progress update fails
-        console.warn(`[${documentId}] Failed to update progress:`, e);
-      }
-    };
-
-    // Step 1: Extract text from document
-    await updateProgress("Extracting text from document...");
-    console.log(`[${documentId}] Extracting text...`);
-    
-    const processed = await Promise.race([
-      processDocument(buffer, filename, fileType),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error("Text extraction timeout (60s)")), 60000)
-      ),
-    ]);
-    
-    const cleanedText = cleanLegalText(processed.text);
-    
-    if (!cleanedText || cleanedText.trim().length === 0) {
-      throw new Error("Document appears to be empty or could not extract text");
-    }
-    
-    // Step 2: Chunk the document
-    await updateProgress("Chunking document...");
-    console.log(`[${documentId}] Chunking document (${cleanedText.length} chars)...`);
-    
-    const chunks = await chunkDocument(cleanedText, filename, {
-      chunkSize: 1000,
-      chunkOverlap: 200,
-    });
-    
-    if (chunks.length === 0) {
-      throw new Error("No chunks created from document");
-    }
-    
-    console.log(`[${documentId}] Created ${chunks.length} chunks`);
-
-    // Step 3: Generate embeddings with progress tracking
-    await updateProgress("Generating embeddings...", 0);
-    console.log(`[${documentId}] Generating embeddings for ${chunks.length} chunks...`);
-    
-    const texts = chunks.map((chunk) => chunk.content);
-    const embeddings = await generateEmbeddingsBatch(
-      texts,
-      96, // batch size
-      (current, total) => {
-        const progress = Math.round((current / total) * 100);
-        updateProgress(`Generating embeddings... ${current}/${total}`, progress);
-      }
-    );
-    
-    if (embeddings.length !== chunks.length) {
-      throw new Error(`Embedding count mismatch: expected ${chunks.length}, got ${embeddings.length}`);
-    }
-    
-    console.log(`[${documentId}] Generated ${embeddings.length} embeddings`);
-
-    // Step 4: Upsert to vector store
-    await updateProgress("Saving to vector database...");
-    console.log(`[${documentId}] Upserting vectors to Pinecone...`);
-    
-    const vectorIds = await Promise.race([
-      upsertVectors(embeddings, chunks, documentId, userId, fileType),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error("Vector upsert timeout (120s)")), 120000)
-      ),
-    ]);
-    
-    console.log(`[${documentId}] Upserted ${vectorIds.length} vectors`);
-
-    // Step 5: Save chunks to database
-    await updateProgress("Saving document chunks...");
-    console.log(`[${documentId}] Saving chunks to database...`);
-    
-    const chunkRecords = chunks.map((chunk, index) => ({
-      document_id: documentId,
-      chunk_index: index,
-      content: chunk.content,
-      metadata: chunk.metadata,
-      vector_id: vectorIds[index],
-    }));
-
-    const batchSize = 100;
-    for (let i = 0; i < chunkRecords.length; i += batchSize) {
-      const batch = chunkRecords.slice(i, i + batchSize);
-      const { error } = await supabaseAdmin.from("document_chunks").insert(batch);
-      if (error) {
-        throw new Error(`Failed to insert chunks batch: ${error.message}`);
-      }
-    }
-
-    // Step 6: Update document status to completed
-    await updateProgress("Finalizing...");
-    const processingTime = Math.round((Date.now() - startTime) / 1000);
-    
-    const { error: updateError } = await supabaseAdmin
-      .from("documents")
-      .update({
-        status: "completed",
-        total_chunks: chunks.length,
-        metadata: {
-          ...processed.metadata,
-          totalChunks: chunks.length,
-          wordCount: processed.metadata.wordCount,
-          processingTimeSeconds: processingTime,
-        },
-      })
-      .eq("id", documentId);
-
-    if (updateError) {
-      throw new Error(`Failed to update document status: ${updateError.message}`);
-    }
-
-    console.log(`[${documentId}] Document processed successfully in ${processingTime}s`);
-  } catch (error) {
-    const processingTime = Math.round((Date.now() - startTime) / 1000);
-    console.error(`[${documentId}] Error processing document after ${processingTime}s:`, error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    
-    // Try to update status to failed with detailed error
-    try {
-      await supabaseAdmin
-        .from("documents")
-        .update({
-          status: "failed",
-          metadata: {
-            error: errorMessage,
-            failedAt: new Date().toISOString(),
-            processingTimeSeconds: processingTime,
-          },
-        })
-        .eq("id", documentId);
-    } catch (updateError) {
-      console.error(`[${documentId}] Failed to update error status:`, updateError);
-    }
-  }
-}
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { validateFileContent } from "@/lib/document-processor";
+import { moveToOriginalParts } from "@/lib/document-storage";
+import { createUploadedDocument } from "@/lib/documents";
+import {
+  enqueueStoredIngestionJob,
+  startLocalIngestionRunner,
+  usesLocalIngestionRunner,
+} from "@/lib/ingestion-queue";
+import {
+  deleteUploadFiles,
+  getUploadSession,
+  hashUploadParts,
+  isUploadExpired,
+  listMissingParts,
+  readUploadHead,
+  updateUploadSessionStatus,
+  uploadPartPaths,
+} from "@/lib/resumable-uploads";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+// Hashing reads every part once; the parts are then moved rather than copied
+export const maxDuration = 60;
+
+/**
+ * Complete a resumable upload once all parts are stored, keeping the parts as
+ * the document's original file and queueing it for ingestion. Responds with
+ * the missing parts if any are still needed.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const userId = session.user.id;
+
+  try {
+    const upload = await getUploadSession(params.id, userId);
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+    // Completing again after a dropped response returns the same document
+    if (upload.status === "completed") {
+      return NextResponse.json({
+        filename: upload.filename,
+        documentId: upload.documentId,
+        status: "accepted",
+      });
+    }
+    if (upload.status === "uploading" && isUploadExpired(upload)) {
+      return NextResponse.json({ error: "Upload has expired" }, { status: 410 });
+    }
+    if (!(await updateUploadSessionStatus(upload, "uploading", "completing"))) {
+      return NextResponse.json({ error: `Upload is already ${upload.status}` }, { status: 409 });
+    }
+
+    // Unless completing ends in a document or a rejection, the session goes
+    // back to "uploading" so the client can send missing parts or retry
+    let outcome: { status: "completed" | "aborted"; documentId?: string } | undefined;
+    try {
+      const missingParts = await listMissingParts(upload);
+      if (missingParts.length > 0) {
+        return NextResponse.json(
+          { error: "Upload is missing parts", missingParts },
+          { status: 400 }
+        );
+      }
+
+      // The declared type comes from the file name, so check the content matches
+      // it before reading every part
+      const contentError = validateFileContent(
+        await readUploadHead(upload),
+        upload.fileType,
+        upload.filename
+      );
+      if (contentError) {
+        outcome = { status: "aborted" };
+        await deleteUploadFiles(upload);
+        return NextResponse.json(
+          {
+            error: contentError,
+            results: [{ filename: upload.filename, status: "rejected", error: contentError }],
+          },
+          { status: 400 }
+        );
+      }
+
+      const contentHash = await hashUploadParts(upload);
+      const result = await createUploadedDocument(
+        userId,
+        {
+          filename: upload.filename,
+          fileType: upload.fileType,
+          fileSize: upload.fileSize,
+          contentHash,
+          duplicateAction: upload.duplicateAction,
+          context: { depth: 0 },
+        },
+        async (input) =>
+          enqueueStoredIngestionJob(
+            input,
+            await moveToOriginalParts(uploadPartPaths(upload), userId, input.documentId, input.filename)
+          )
+      );
+      outcome = {
+        status: result.status === "rejected" ? "aborted" : "completed",
+        documentId: result.documentId,
+      };
+
+      await deleteUploadFiles(upload);
+
+      if (result.status === "rejected") {
+        return NextResponse.json({ error: result.error, results: [result] }, { status: 400 });
+      }
+
+      // Queued jobs are picked up by the worker route, or drained here in development
+      if (result.status === "accepted" && usesLocalIngestionRunner()) {
+        startLocalIngestionRunner();
+      }
+
+      return NextResponse.json(result, { status: result.status === "accepted" ? 201 : 200 });
+    } finally {
+      await updateUploadSessionStatus(
+        upload,
+        "completing",
+        outcome?.status ?? "uploading",
+        outcome?.documentId
+      );
+    }
+  } catch (error) {
+    console.error("Error completing upload:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to complete upload" },
+      { status: 500 }
+    );
+  }
+}
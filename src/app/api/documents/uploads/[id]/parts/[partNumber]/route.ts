@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  expectedPartSize,
+  getUploadSession,
+  isUploadExpired,
+  storeUploadPart,
+} from "@/lib/resumable-uploads";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Store one part of a resumable upload. The body is the part's raw bytes and
+ * is streamed to storage; sending a part again replaces it.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string; partNumber: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const upload = await getUploadSession(params.id, session.user.id);
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+    if (upload.status !== "uploading") {
+      return NextResponse.json({ error: `Upload is already ${upload.status}` }, { status: 409 });
+    }
+    if (isUploadExpired(upload)) {
+      return NextResponse.json({ error: "Upload has expired" }, { status: 410 });
+    }
+
+    const partNumber = Number(params.partNumber);
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > upload.totalParts) {
+      return NextResponse.json(
+        { error: `partNumber must be between 1 and ${upload.totalParts}` },
+        { status: 400 }
+      );
+    }
+
+    // The length is checked up front so the body can be streamed without buffering
+    const expectedSize = expectedPartSize(upload, partNumber);
+    const contentLength = req.headers.get("content-length");
+    if (contentLength === null) {
+      return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+    }
+    if (Number(contentLength) !== expectedSize) {
+      return NextResponse.json(
+        { error: `Part ${partNumber} must be ${expectedSize} bytes` },
+        { status: 400 }
+      );
+    }
+    if (!req.body) {
+      return NextResponse.json({ error: "Part body is required" }, { status: 400 });
+    }
+
+    await storeUploadPart(upload, partNumber, req.body);
+
+    return NextResponse.json({ partNumber, size: expectedSize });
+  } catch (error) {
+    console.error("Error storing upload part:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to store upload part" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  deleteUploadFiles,
+  getUploadSession,
+  isUploadExpired,
+  listReceivedParts,
+  updateUploadSessionStatus,
+} from "@/lib/resumable-uploads";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Return an upload's status and the parts received so far, so an interrupted
+ * upload can resume with the parts still missing
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const upload = await getUploadSession(params.id, session.user.id);
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    const expired = upload.status === "uploading" && isUploadExpired(upload);
+
+    return NextResponse.json({
+      uploadId: upload.id,
+      filename: upload.filename,
+      status: expired ? "expired" : upload.status,
+      partSize: upload.partSize,
+      totalParts: upload.totalParts,
+      receivedParts: upload.status === "uploading" ? await listReceivedParts(upload) : [],
+      documentId: upload.documentId,
+      expiresAt: upload.expiresAt,
+    });
+  } catch (error) {
+    console.error("Internal server error fetching upload:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Abort an upload and delete the parts received
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const upload = await getUploadSession(params.id, session.user.id);
+    if (!upload) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    if (!(await updateUploadSessionStatus(upload, "uploading", "aborted"))) {
+      return NextResponse.json(
+        { error: `Upload is already ${upload.status}` },
+        { status: 409 }
+      );
+    }
+    await deleteUploadFiles(upload);
+
+    return NextResponse.json({ message: "Upload aborted" });
+  } catch (error) {
+    console.error("Internal server error aborting upload:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
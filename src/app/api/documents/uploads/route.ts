@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { resolveFileType } from "@/lib/document-processor";
+import { DUPLICATE_ACTIONS, type DuplicateAction } from "@/lib/document-versions";
+import { missingEmbeddingConfiguration } from "@/lib/embeddings";
+import {
+  cleanupExpiredUploads,
+  createUploadSession,
+  getUploadSizeLimit,
+} from "@/lib/resumable-uploads";
+import { isZipBundle } from "@/lib/zip-bundle";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+interface InitUploadRequest {
+  filename: string;
+  fileSize: number;
+  contentType?: string;
+  duplicateAction?: DuplicateAction;
+}
+
+/**
+ * Start a resumable upload. The response gives the part size and number of
+ * parts to PUT to /api/documents/uploads/[id]/parts/[partNumber].
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body: InitUploadRequest = await req.json();
+    const { filename, fileSize, contentType = "", duplicateAction = "skip" } = body;
+
+    if (!filename || typeof filename !== "string") {
+      return NextResponse.json({ error: "filename is required" }, { status: 400 });
+    }
+    if (!Number.isInteger(fileSize) || fileSize <= 0) {
+      return NextResponse.json({ error: "fileSize must be a positive number of bytes" }, { status: 400 });
+    }
+    if (!DUPLICATE_ACTIONS.includes(duplicateAction)) {
+      return NextResponse.json(
+        { error: `duplicateAction must be one of: ${DUPLICATE_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (isZipBundle(contentType, filename)) {
+      return NextResponse.json(
+        { error: "ZIP bundles must be uploaded with /api/documents/upload" },
+        { status: 400 }
+      );
+    }
+
+    const fileType = resolveFileType(contentType, filename);
+    if (!fileType) {
+      return NextResponse.json({ error: "File type not supported" }, { status: 400 });
+    }
+
+    // Validate API keys before accepting any parts
+    const missingKey =
+      missingEmbeddingConfiguration() || (!process.env.PINECONE_API_KEY && "PINECONE_API_KEY");
+    if (missingKey) {
+      console.error(`${missingKey} is not configured`);
+      return NextResponse.json(
+        { error: "Server configuration error. Please contact support." },
+        { status: 500 }
+      );
+    }
+
+    const sizeLimit = await getUploadSizeLimit(userId);
+    if (fileSize > sizeLimit) {
+      return NextResponse.json(
+        { error: `File size exceeds your plan's ${sizeLimit / 1024 / 1024}MB limit` },
+        { status: 413 }
+      );
+    }
+
+    await cleanupExpiredUploads(userId);
+
+    const upload = await createUploadSession(userId, { filename, fileType, fileSize, duplicateAction });
+
+    return NextResponse.json(
+      {
+        uploadId: upload.id,
+        partSize: upload.partSize,
+        totalParts: upload.totalParts,
+        expiresAt: upload.expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error starting upload:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to start upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { evictEmbeddingCache } from "@/lib/embedding-cache";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Embedding cache eviction, triggered daily by Vercel Cron (see vercel.json)
+ * or any scheduler sending "Authorization: Bearer $CRON_SECRET"
+ */
+async function handler(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json(
+      { error: "Server configuration error. Please contact support." },
+      { status: 500 }
+    );
+  }
+
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const evicted = await evictEmbeddingCache();
+    console.log(`[embedding-cache] Evicted ${evicted} entries`);
+    return NextResponse.json({ evicted });
+  } catch (error) {
+    console.error("Error evicting embedding cache:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to evict embedding cache";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runIngestionWorker } from "@/lib/ingestion-queue";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+// The most the Vercel Hobby plan allows. On Pro this can be raised to 300,
+// which lets each invocation get through more (and longer) documents.
+export const maxDuration = 60;
+
+// No step starts after the budget, so leave time for the one in progress to
+// finish and checkpoint before the function is stopped
+const TIME_BUDGET_MS = (maxDuration - 20) * 1000;
+
+/**
+ * Ingestion worker, triggered by Vercel Cron (see vercel.json) or any scheduler
+ * sending "Authorization: Bearer $CRON_SECRET". Hobby cron jobs run at most once
+ * a day, so on that plan schedule this route from an external scheduler every
+ * minute; on Pro the vercel.json schedule can be set to "* * * * *" instead.
+ */
+async function handler(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not configured");
+    return NextResponse.json(
+      { error: "Server configuration error. Please contact support." },
+      { status: 500 }
+    );
+  }
+
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runIngestionWorker({ timeBudgetMs: TIME_BUDGET_MS });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error running ingestion worker:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to run ingestion worker";
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -14,12 +14,24 @@ import {
   Sparkles,
 } from "lucide-react";
 import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
 
 // --- Types ---
+interface ChatSource {
+  documentId: string;
+  filename: string;
+  pages?: string | null;
+  sectionPath?: string;
+  referencedFrom?: { label: string; chunkIndex: number };
+  preview: string; // Markdown
+}
+
 interface Message {
   id: number;
   content: string;
   role: "user" | "assistant";
+  sources?: ChatSource[];
 }
 
 interface Document {
@@ -59,7 +71,35 @@ const MessageBubble = ({ message }: { message: Message }) => {
             <Zap className="w-5 h-5 text-primary" />
           )}
         </div>
-        <p className="whitespace-pre-wrap">{message.content}</p>
+        <div>
+          <p className="whitespace-pre-wrap">{message.content}</p>
+          {message.sources && message.sources.length > 0 && (
+            <details className="mt-3 text-sm">
+              <summary className="cursor-pointer text-muted-foreground">
+                Sources ({message.sources.length})
+              </summary>
+              <div className="mt-2 space-y-3">
+                {message.sources.map((source, index) => (
+                  <div key={index} className="p-3 rounded-md bg-secondary border border-border">
+                    <p className="text-xs font-medium text-foreground mb-1">
+                      {[source.filename, source.pages, source.sectionPath && `Section ${source.sectionPath}`]
+                        .filter(Boolean)
+                        .join(", ")}
+                      {source.referencedFrom && (
+                        <span className="ml-2 text-muted-foreground font-normal">
+                          (referenced context: {source.referencedFrom.label})
+                        </span>
+                      )}
+                    </p>
+                    <div className="text-xs text-muted-foreground overflow-x-auto [&_table]:border-collapse [&_td]:border [&_td]:border-border [&_td]:px-2 [&_td]:py-1 [&_th]:border [&_th]:border-border [&_th]:px-2 [&_th]:py-1 [&_th]:text-left">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{source.preview}</ReactMarkdown>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -159,6 +199,7 @@ export default function ChatPage() {
           id: Date.now() + 1,
           content: data.response,
           role: "assistant",
+          sources: data.sources,
         };
         setMessages((prev) => [...prev, aiMessage]);
       } else {
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useSession } from "next-auth/react";
+import { BookOpen, Loader2, AlertTriangle, Search } from "lucide-react";
+import Link from "next/link";
+
+// --- Types ---
+interface DefinedTerm {
+  term: string;
+  definition: string;
+  startChar: number;
+  endChar: number;
+  pageStart?: number;
+}
+
+interface Glossary {
+  id: string;
+  filename: string;
+  terms: DefinedTerm[];
+}
+
+// --- Main Glossary Component ---
+export default function GlossaryPage({ params }: { params: { id: string } }) {
+  const { status } = useSession();
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [filter, setFilter] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchGlossary = async () => {
+      if (status !== "authenticated") return;
+      try {
+        const response = await fetch(`/api/documents/${params.id}/glossary`);
+        const data = await response.json();
+        if (response.ok) {
+          setGlossary(data);
+        } else {
+          setError(data.error || "Failed to load defined terms.");
+        }
+      } catch (err) {
+        setError("Network error loading defined terms.");
+      }
+    };
+    fetchGlossary();
+  }, [status, params.id]);
+
+  const terms = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const sorted = [...(glossary?.terms || [])].sort((a, b) => a.term.localeCompare(b.term));
+    return query
+      ? sorted.filter(
+          (entry) =>
+            entry.term.toLowerCase().includes(query) ||
+            entry.definition.toLowerCase().includes(query)
+        )
+      : sorted;
+  }, [glossary, filter]);
+
+  if (status === "loading" || (status === "authenticated" && !glossary && !error)) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (status === "unauthenticated") {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-foreground">Access Denied</h2>
+        <p className="mt-2 text-muted-foreground">Please log in to view defined terms.</p>
+        <Link href="/login" className="mt-4 inline-block text-primary hover:text-primary/80">
+          Go to Login
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="flex items-center text-3xl font-bold text-foreground">
+          <BookOpen className="w-7 h-7 mr-3 text-primary" />
+          Defined Terms
+        </h1>
+        <Link href="/documents" className="text-sm text-primary hover:text-primary/80">
+          Back to documents
+        </Link>
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      {glossary && (
+        <>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {glossary.terms.length} terms defined in {glossary.filename}
+            </p>
+            <label className="flex items-center rounded-md bg-background border border-border px-2">
+              <Search className="w-4 h-4 text-muted-foreground" />
+              <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter terms"
+                className="bg-transparent p-2 text-sm text-foreground outline-none"
+              />
+            </label>
+          </div>
+
+          {glossary.terms.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No defined terms were found in this document.
+            </p>
+          ) : (
+            <dl className="space-y-4">
+              {terms.map((entry) => (
+                <div key={entry.term} className="p-4 bg-card rounded-lg border border-border">
+                  <dt className="flex items-center justify-between mb-1">
+                    <span className="font-semibold text-foreground">{entry.term}</span>
+                    {entry.pageStart !== undefined && (
+                      <span className="text-xs text-muted-foreground">p. {entry.pageStart}</span>
+                    )}
+                  </dt>
+                  <dd className="text-sm text-muted-foreground whitespace-pre-wrap">
+                    {entry.definition}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
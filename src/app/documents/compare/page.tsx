@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { GitCompare, Loader2, AlertTriangle, Sparkles } from "lucide-react";
+import Link from "next/link";
+
+// --- Types ---
+interface Document {
+  id: string;
+  filename: string;
+  status: "processing" | "completed" | "failed";
+  version_number?: number;
+}
+
+interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+interface ClauseRef {
+  sectionPath?: string;
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+interface ClauseChange {
+  status: "unchanged" | "modified" | "inserted" | "deleted";
+  base?: ClauseRef;
+  revised?: ClauseRef;
+  ops: DiffOp[];
+}
+
+interface Comparison {
+  base: { id: string; filename: string };
+  revised: { id: string; filename: string };
+  stats: Record<ClauseChange["status"], number>;
+  changes: ClauseChange[];
+  summary?: string;
+  summaryError?: string;
+}
+
+const STATUS_STYLES: Record<ClauseChange["status"], string> = {
+  unchanged: "text-muted-foreground",
+  modified: "text-yellow-400",
+  inserted: "text-green-400",
+  deleted: "text-red-400",
+};
+
+const describeClause = (ref?: ClauseRef) => {
+  if (!ref) return null;
+  const pages =
+    ref.pageStart === undefined
+      ? null
+      : ref.pageEnd !== undefined && ref.pageEnd !== ref.pageStart
+      ? `pp. ${ref.pageStart}-${ref.pageEnd}`
+      : `p. ${ref.pageStart}`;
+  return [ref.sectionPath && `Section ${ref.sectionPath}`, pages].filter(Boolean).join(", ");
+};
+
+// --- Clause Change Component ---
+const ChangeCard = ({ change }: { change: ClauseChange }) => {
+  const base = describeClause(change.base);
+  const revised = describeClause(change.revised);
+
+  return (
+    <div className="p-4 bg-card rounded-lg border border-border">
+      <div className="flex items-center justify-between mb-2 text-xs">
+        <span className={`font-semibold uppercase ${STATUS_STYLES[change.status]}`}>
+          {change.status}
+        </span>
+        <span className="text-muted-foreground">
+          {base && `Base: ${base}`}
+          {base && revised && " → "}
+          {revised && `Revised: ${revised}`}
+        </span>
+      </div>
+      <p className="text-sm text-foreground whitespace-pre-wrap leading-relaxed">
+        {change.ops.map((op, index) =>
+          op.type === "delete" ? (
+            <del key={index} className="bg-red-500/20 text-red-300">
+              {op.text}
+            </del>
+          ) : op.type === "insert" ? (
+            <ins key={index} className="bg-green-500/20 text-green-300 no-underline">
+              {op.text}
+            </ins>
+          ) : (
+            <span key={index}>{op.text}</span>
+          )
+        )}
+      </p>
+    </div>
+  );
+};
+
+// --- Main Compare Component ---
+export default function ComparePage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [baseId, setBaseId] = useState(searchParams.get("base") || "");
+  const [revisedId, setRevisedId] = useState(searchParams.get("revised") || "");
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch documents on load
+  useEffect(() => {
+    const fetchDocuments = async () => {
+      if (status !== "authenticated") return;
+      try {
+        const response = await fetch("/api/documents");
+        if (response.ok) {
+          const data: Document[] = await response.json();
+          setDocuments(data.filter((d) => d.status === "completed"));
+        }
+      } catch (error) {
+        console.error("Error fetching documents:", error);
+      }
+    };
+    fetchDocuments();
+  }, [status]);
+
+  const runComparison = async (base: string, revised: string) => {
+    setIsComparing(true);
+    setError(null);
+    setComparison(null);
+
+    try {
+      const response = await fetch("/api/documents/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ baseDocumentId: base, revisedDocumentId: revised }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setComparison(data);
+      } else {
+        setError(data.error || "Failed to compare documents.");
+      }
+    } catch (err) {
+      setError("Network error during comparison.");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  // Compare straight away when opened from a document's "compare" link
+  useEffect(() => {
+    const base = searchParams.get("base");
+    const revised = searchParams.get("revised");
+    if (status === "authenticated" && base && revised) {
+      runComparison(base, revised);
+    }
+  }, [status, searchParams]);
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!baseId || !revisedId) return;
+    router.replace(`/documents/compare?base=${baseId}&revised=${revisedId}`);
+  };
+
+  if (status === "loading") {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (status === "unauthenticated") {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-foreground">Access Denied</h2>
+        <p className="mt-2 text-muted-foreground">Please log in to compare documents.</p>
+        <Link href="/login" className="mt-4 inline-block text-primary hover:text-primary/80">
+          Go to Login
+        </Link>
+      </div>
+    );
+  }
+
+  const label = (doc: Document) =>
+    doc.version_number && doc.version_number > 1
+      ? `${doc.filename} (v${doc.version_number})`
+      : doc.filename;
+  const changed = comparison?.changes.filter((change) => change.status !== "unchanged") || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-foreground">Compare Documents</h1>
+        <Link href="/documents" className="text-sm text-primary hover:text-primary/80">
+          Back to documents
+        </Link>
+      </div>
+
+      <form
+        onSubmit={handleCompare}
+        className="p-6 bg-card rounded-lg border border-border grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end"
+      >
+        <label className="text-sm text-muted-foreground">
+          Base version
+          <select
+            value={baseId}
+            onChange={(e) => setBaseId(e.target.value)}
+            className="mt-1 block w-full rounded-md bg-background border border-border p-2 text-foreground"
+          >
+            <option value="">Select a document</option>
+            {documents.map((doc) => (
+              <option key={doc.id} value={doc.id}>
+                {label(doc)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-muted-foreground">
+          Revised version
+          <select
+            value={revisedId}
+            onChange={(e) => setRevisedId(e.target.value)}
+            className="mt-1 block w-full rounded-md bg-background border border-border p-2 text-foreground"
+          >
+            <option value="">Select a document</option>
+            {documents.map((doc) => (
+              <option key={doc.id} value={doc.id}>
+                {label(doc)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={!baseId || !revisedId || baseId === revisedId || isComparing}
+          className="flex items-center justify-center px-4 py-2 rounded-md text-primary-foreground bg-primary hover:bg-primary/90 disabled:opacity-50 transition-colors"
+        >
+          {isComparing ? (
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          ) : (
+            <GitCompare className="w-5 h-5 mr-2" />
+          )}
+          Compare
+        </button>
+      </form>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      {comparison && (
+        <>
+          <div className="p-6 bg-card rounded-lg border border-border">
+            <h2 className="flex items-center text-lg font-semibold text-foreground mb-2">
+              <Sparkles className="w-5 h-5 mr-2 text-primary" />
+              Material changes
+            </h2>
+            {comparison.summary ? (
+              <p className="text-sm text-foreground whitespace-pre-wrap">{comparison.summary}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {comparison.summaryError || "No differences found between these documents."}
+              </p>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {comparison.base.filename} → {comparison.revised.filename}:{" "}
+            {comparison.stats.modified} modified, {comparison.stats.inserted} inserted,{" "}
+            {comparison.stats.deleted} deleted, {comparison.stats.unchanged} unchanged clauses
+          </p>
+
+          <div className="space-y-4">
+            {changed.map((change, index) => (
+              <ChangeCard key={index} change={change} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,18 +10,83 @@ import {
   CheckCircle,
   AlertTriangle,
   MessageSquare,
+  Download,
+  Eye,
+  GitCompare,
+  BookOpen,
 } from "lucide-react";
 import Link from "next/link";
 
 // --- Types ---
 interface Document {
   id: string;
+  parent_document_id?: string | null;
   filename: string;
   status: "processing" | "completed" | "failed";
   word_count: number;
   created_at: string;
+  version_group_id?: string | null;
+  version_number?: number;
+  previous_version_id?: string | null;
+  is_latest?: boolean;
+  contract?: ContractTerms;
 }
 
+interface ContractTerms {
+  parties: string[];
+  effective_date: string | null;
+  term: string | null;
+  governing_law: string | null;
+  jurisdiction: string | null;
+  renewal_terms: string | null;
+  auto_renews: boolean | null;
+  value: number | null;
+  currency: string | null;
+}
+
+// --- Contract Terms Component ---
+// Stored lower-cased so filters can match them exactly
+const PLACE_TERMS = ["Governing law", "Jurisdiction"];
+
+const ContractTermsSummary = ({ contract }: { contract: ContractTerms }) => {
+  const terms = [
+    contract.parties.length > 0 && ["Parties", contract.parties.join(" · ")],
+    contract.effective_date && [
+      "Effective",
+      new Date(`${contract.effective_date}T00:00:00`).toLocaleDateString(),
+    ],
+    contract.term && ["Term", contract.term],
+    contract.auto_renews !== null && ["Renewal", contract.auto_renews ? "Automatic" : "Optional"],
+    contract.governing_law && ["Governing law", contract.governing_law],
+    contract.jurisdiction && ["Jurisdiction", contract.jurisdiction],
+    contract.value !== null && [
+      "Value",
+      contract.currency
+        ? contract.value.toLocaleString(undefined, { style: "currency", currency: contract.currency })
+        : contract.value.toLocaleString(),
+    ],
+  ].filter((term): term is [string, string] => Boolean(term));
+
+  if (terms.length === 0) return null;
+
+  return (
+    <dl className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+      {terms.map(([label, value]) => (
+        <div
+          key={label}
+          className="flex space-x-1"
+          title={label === "Renewal" ? contract.renewal_terms || undefined : undefined}
+        >
+          <dt className="font-medium">{label}:</dt>
+          <dd className={`text-foreground/80 ${PLACE_TERMS.includes(label) ? "capitalize" : ""}`}>
+            {value}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
 // --- Document List Component ---
 const DocumentList = ({
   documents,
@@ -54,11 +119,25 @@ const DocumentList = ({
             <div>
               <p className="font-medium text-foreground truncate max-w-xs">
                 {doc.filename}
+                {doc.version_group_id && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    v{doc.version_number}
+                    {doc.is_latest === false && " (older version)"}
+                  </span>
+                )}
               </p>
               <p className="text-sm text-muted-foreground">
                 {doc.word_count.toLocaleString()} words |{" "}
                 {new Date(doc.created_at).toLocaleDateString()}
               </p>
+              {doc.parent_document_id && (
+                <p className="text-xs text-muted-foreground">
+                  Attached to{" "}
+                  {documents.find((d) => d.id === doc.parent_document_id)?.filename ||
+                    "another document"}
+                </p>
+              )}
+              {doc.contract && <ContractTermsSummary contract={doc.contract} />}
             </div>
           </div>
 
@@ -82,6 +161,22 @@ const DocumentList = ({
                 >
                   <MessageSquare className="w-5 h-5" />
                 </Link>
+                <Link
+                  href={`/documents/${doc.id}/glossary`}
+                  className="p-2 rounded-full text-muted-foreground hover:bg-secondary transition-colors"
+                  title="Defined Terms"
+                >
+                  <BookOpen className="w-5 h-5" />
+                </Link>
+                {doc.previous_version_id && (
+                  <Link
+                    href={`/documents/compare?base=${doc.previous_version_id}&revised=${doc.id}`}
+                    className="p-2 rounded-full text-muted-foreground hover:bg-secondary transition-colors"
+                    title="Compare with Previous Version"
+                  >
+                    <GitCompare className="w-5 h-5" />
+                  </Link>
+                )}
               </>
             )}
             {doc.status === "failed" && (
@@ -91,6 +186,23 @@ const DocumentList = ({
               </span>
             )}
 
+            <a
+              href={`/api/documents/${doc.id}/preview`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="p-2 rounded-full text-muted-foreground hover:bg-secondary transition-colors"
+              title="Preview Original"
+            >
+              <Eye className="w-5 h-5" />
+            </a>
+            <a
+              href={`/api/documents/${doc.id}/original`}
+              className="p-2 rounded-full text-muted-foreground hover:bg-secondary transition-colors"
+              title="Download Original"
+            >
+              <Download className="w-5 h-5" />
+            </a>
+
             <button
               onClick={() => onDelete(doc.id)}
               className="p-2 rounded-full text-red-400 hover:bg-secondary transition-colors"
@@ -106,69 +218,257 @@ const DocumentList = ({
 };
 
 // --- Upload Form Component ---
+interface UploadResult {
+  filename: string;
+  documentId?: string;
+  status: "accepted" | "rejected" | "skipped";
+  error?: string;
+}
+
+type DuplicateAction = "skip" | "replace" | "version";
+
+// Supported formats and size limits, from GET /api/documents/upload
+interface UploadSettings {
+  extensions: string[];
+  maxFileSize: number; // Larger files upload in parts
+  maxBundleSize: number;
+}
+
+const PART_RETRIES = 5;
+
+const isZipFile = (file: File) => file.name.toLowerCase().endsWith(".zip");
+
+// Files over the single-request limit use the resumable upload protocol
+const needsResumableUpload = (file: File, settings: UploadSettings) =>
+  !isZipFile(file) && file.size > settings.maxFileSize;
+
+const readError = async (response: Response) => {
+  const data = await response.json().catch(() => ({}));
+  return data.error || response.statusText || "Upload failed";
+};
+
+/**
+ * Upload a large file in parts, retrying parts that fail and resuming an
+ * unfinished upload of the same file (e.g. after a dropped connection or a
+ * page reload) from the parts the server already has
+ */
+const uploadResumable = async (
+  file: File,
+  duplicateAction: DuplicateAction,
+  onProgress: (percent: number) => void
+): Promise<UploadResult> => {
+  const resumeKey = `resumable-upload:${file.name}:${file.size}:${file.lastModified}`;
+  let uploadId = localStorage.getItem(resumeKey);
+  let partSize = 0;
+  let totalParts = 0;
+  let received: number[] = [];
+
+  if (uploadId) {
+    const response = await fetch(`/api/documents/uploads/${uploadId}`);
+    const data = response.ok ? await response.json() : null;
+    if (data?.status === "uploading") {
+      ({ partSize, totalParts } = data);
+      received = data.receivedParts;
+    } else {
+      uploadId = null;
+    }
+  }
+
+  if (!uploadId) {
+    const response = await fetch("/api/documents/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        filename: file.name,
+        fileSize: file.size,
+        contentType: file.type,
+        duplicateAction,
+      }),
+    });
+    if (!response.ok) {
+      return { filename: file.name, status: "rejected", error: await readError(response) };
+    }
+    const data = await response.json();
+    ({ uploadId, partSize, totalParts } = data);
+    localStorage.setItem(resumeKey, data.uploadId);
+  }
+
+  const uploadPart = async (partNumber: number) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(`/api/documents/uploads/${uploadId}/parts/${partNumber}`, {
+          method: "PUT",
+          body: file.slice((partNumber - 1) * partSize, partNumber * partSize),
+        });
+        if (response.ok) return;
+        // Client errors will not go away on retry
+        if (response.status < 500 || attempt === PART_RETRIES) {
+          throw new Error(await readError(response));
+        }
+      } catch (err) {
+        if (!(err instanceof TypeError) || attempt === PART_RETRIES) throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(1000 * 2 ** attempt, 30000)));
+    }
+  };
+
+  const uploadParts = async (partNumbers: number[]) => {
+    for (const partNumber of partNumbers) {
+      await uploadPart(partNumber);
+      received.push(partNumber);
+      onProgress(Math.round((received.length / totalParts) * 100));
+    }
+  };
+
+  await uploadParts(
+    Array.from({ length: totalParts }, (_, i) => i + 1).filter((part) => !received.includes(part))
+  );
+
+  let response = await fetch(`/api/documents/uploads/${uploadId}/complete`, { method: "POST" });
+  const data = await response.json().catch(() => ({}));
+  // Parts lost in storage are sent again once
+  if (response.status === 400 && data.missingParts) {
+    received = received.filter((part) => !data.missingParts.includes(part));
+    await uploadParts(data.missingParts);
+    response = await fetch(`/api/documents/uploads/${uploadId}/complete`, { method: "POST" });
+    Object.assign(data, await response.json().catch(() => ({})));
+  }
+
+  if (!response.ok) {
+    return { filename: file.name, status: "rejected", error: data.error || "Upload failed" };
+  }
+  localStorage.removeItem(resumeKey);
+  return data;
+};
+
 const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [results, setResults] = useState<UploadResult[]>([]);
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>("skip");
+  const [uploadProgress, setUploadProgress] = useState<string | null>(null);
+  const [uploadSettings, setUploadSettings] = useState<UploadSettings | null>(null);
+
+  // Supported formats and limits come from the server
+  useEffect(() => {
+    fetch("/api/documents/upload")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((settings: UploadSettings | null) => settings && setUploadSettings(settings))
+      .catch((err) => console.error("Failed to load upload settings:", err));
+  }, []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
     setSuccess(null);
+    setResults([]);
     if (e.target.files && e.target.files.length > 0) {
-      const selectedFile = e.target.files[0];
-      const maxSize = 10 * 1024 * 1024; // 10MB
-      const allowedTypes = [
-        "application/pdf",
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-        "text/plain",
-      ];
-
-      // Validate file size
-      if (selectedFile.size > maxSize) {
-        setError(`File size (${(selectedFile.size / 1024 / 1024).toFixed(2)}MB) exceeds 10MB limit.`);
-        setFile(null);
-        e.target.value = ""; // Clear input
-        return;
-      }
+      const selectedFiles = Array.from(e.target.files);
+
+      for (const selectedFile of selectedFiles) {
+        // Validate bundle size; other files are checked against the plan's limit by the server
+        const maxBundleSize = uploadSettings?.maxBundleSize ?? Infinity;
+        if (isZipFile(selectedFile) && selectedFile.size > maxBundleSize) {
+          setError(
+            `${selectedFile.name} (${(selectedFile.size / 1024 / 1024).toFixed(2)}MB) exceeds ${maxBundleSize / 1024 / 1024}MB limit.`
+          );
+          setFiles([]);
+          e.target.value = ""; // Clear input
+          return;
+        }
 
-      // Validate file type
-      if (!allowedTypes.includes(selectedFile.type)) {
-        setError(`Unsupported file type: ${selectedFile.type || "unknown"}. Please use PDF, DOCX, or TXT.`);
-        setFile(null);
-        e.target.value = ""; // Clear input
-        return;
-      }
+        // File type is checked by the server against the supported formats
 
-      // Check if file is empty
-      if (selectedFile.size === 0) {
-        setError("File appears to be empty. Please select a valid file.");
-        setFile(null);
-        e.target.value = ""; // Clear input
-        return;
+        // Check if file is empty
+        if (selectedFile.size === 0) {
+          setError(`${selectedFile.name} appears to be empty. Please select a valid file.`);
+          setFiles([]);
+          e.target.value = ""; // Clear input
+          return;
+        }
       }
 
-      setFile(selectedFile);
+      setFiles(selectedFiles);
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!file) {
+    if (files.length === 0) {
       setError("Please select a file to upload.");
       return;
     }
+    const settings = uploadSettings;
+    if (!settings) {
+      setError("Upload settings are still loading. Please try again.");
+      return;
+    }
 
     setIsUploading(true);
     setError(null);
     setSuccess(null);
+    setResults([]);
+    setUploadProgress(null);
+
+    const resetFileInput = () => {
+      setFiles([]);
+      const fileInput = document.getElementById("dropzone-file") as HTMLInputElement;
+      if (fileInput) fileInput.value = "";
+    };
+
+    // Large files are uploaded in parts first, one at a time
+    const resumableResults: UploadResult[] = [];
+    try {
+      for (const file of files.filter((file) => needsResumableUpload(file, settings))) {
+        resumableResults.push(
+          await uploadResumable(file, duplicateAction, (percent) =>
+            setUploadProgress(`${file.name}: ${percent}%`)
+          )
+        );
+      }
+    } catch (err) {
+      setIsUploading(false);
+      setUploadProgress(null);
+      setResults(resumableResults);
+      setError(
+        `Upload interrupted: ${err instanceof Error ? err.message : "network error"}. Upload the file again to resume where it stopped.`
+      );
+      return;
+    }
+    setUploadProgress(null);
+
+    const formFiles = files.filter((file) => !needsResumableUpload(file, settings));
+    if (formFiles.length === 0) {
+      const accepted = resumableResults.filter((result) => result.status === "accepted").length;
+      setResults(resumableResults);
+      if (accepted > 0) {
+        setSuccess(
+          `${accepted} of ${resumableResults.length} file(s) uploaded successfully. Processing in background...`
+        );
+        resetFileInput();
+        setTimeout(() => {
+          onUploadSuccess();
+        }, 500);
+      } else if (resumableResults.every((result) => result.status === "skipped")) {
+        setSuccess("File(s) already uploaded.");
+        resetFileInput();
+      } else {
+        setError(
+          resumableResults.length === 1 ? resumableResults[0].error || "Upload failed" : "Upload failed"
+        );
+      }
+      setIsUploading(false);
+      return;
+    }
 
     const formData = new FormData();
-    formData.append("file", file);
+    formFiles.forEach((file) => formData.append("file", file));
+    formData.append("duplicateAction", duplicateAction);
 
     // Create AbortController for timeout
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout for upload only
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout for upload and unpacking
 
     try {
       const response = await fetch("/api/documents/upload", {
@@ -181,12 +481,14 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
 
       if (response.ok) {
         const data = await response.json().catch(() => ({}));
-        setSuccess("Document uploaded successfully! Processing in background...");
-        setFile(null);
-        // Reset file input
-        const fileInput = document.getElementById("dropzone-file") as HTMLInputElement;
-        if (fileInput) fileInput.value = "";
-        
+        setSuccess(
+          data.message
+            ? `${data.message}. Processing in background...`
+            : "Document uploaded successfully! Processing in background..."
+        );
+        setResults([...resumableResults, ...(data.results || [])]);
+        resetFileInput();
+
         // Refresh document list after a short delay
         setTimeout(() => {
           onUploadSuccess();
@@ -197,6 +499,7 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
         try {
           const data = await response.json();
           errorMessage = data.error || errorMessage;
+          setResults([...resumableResults, ...(data.results || [])]);
         } catch {
           // If JSON parsing fails, use status text
           errorMessage = response.statusText || errorMessage;
@@ -219,6 +522,8 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
     }
   };
 
+  const rejectedResults = results.filter((result) => result.status !== "accepted");
+
   return (
     <form
       onSubmit={handleSubmit}
@@ -232,7 +537,7 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
         <label
           htmlFor="dropzone-file"
           className={`flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
-            file
+            files.length > 0
               ? "border-primary bg-secondary"
               : "border-border hover:border-muted-foreground bg-secondary/50 hover:bg-secondary"
           }`}
@@ -243,11 +548,13 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
               <span className="font-semibold text-foreground">Click to upload</span> or drag and drop
             </p>
             <p className="text-xs text-muted-foreground">
-              PDF, DOCX, or TXT (Max 10MB)
+              PDF, Word, RTF, ODT, HTML, Markdown, TXT, emails, or scanned images (large files
+              upload in resumable parts), or ZIP bundles of them
+              {uploadSettings && ` (Max ${uploadSettings.maxBundleSize / 1024 / 1024}MB)`}
             </p>
-            {file && (
+            {files.length > 0 && (
               <p className="mt-2 text-sm font-medium text-primary">
-                Selected: {file.name}
+                Selected: {files.length === 1 ? files[0].name : `${files.length} files`}
               </p>
             )}
           </div>
@@ -256,11 +563,28 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
             type="file"
             className="hidden"
             onChange={handleFileChange}
-            accept=".pdf,.docx,.txt"
+            multiple
+            accept={uploadSettings?.extensions.map((extension) => `.${extension}`).join(",")}
           />
         </label>
       </div>
 
+      <div className="mt-4 flex items-center justify-between text-sm">
+        <label htmlFor="duplicate-action" className="text-muted-foreground">
+          If a file matches an existing document by content or title
+        </label>
+        <select
+          id="duplicate-action"
+          value={duplicateAction}
+          onChange={(e) => setDuplicateAction(e.target.value as DuplicateAction)}
+          className="ml-3 px-2 py-1 rounded-md bg-secondary border border-border text-foreground"
+        >
+          <option value="skip">Skip it</option>
+          <option value="replace">Replace the existing document</option>
+          <option value="version">Add as a new version</option>
+        </select>
+      </div>
+
       {error && (
         <div className="mt-4 p-3 text-sm text-red-400 bg-red-900/50 rounded-lg border border-red-900">
           {error}
@@ -271,16 +595,37 @@ const UploadForm = ({ onUploadSuccess }: { onUploadSuccess: () => void }) => {
           {success}
         </div>
       )}
+      {rejectedResults.length > 0 && (
+        <div className="mt-4 p-3 text-sm bg-secondary/50 rounded-lg border border-border">
+          <p className="font-medium text-foreground mb-2">
+            {rejectedResults.length} file(s) not uploaded:
+          </p>
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {rejectedResults.map((result, index) => (
+              <li key={`${result.filename}-${index}`} className="flex items-start text-muted-foreground">
+                <AlertTriangle
+                  className={`w-4 h-4 mr-2 mt-0.5 flex-shrink-0 ${
+                    result.status === "skipped" ? "text-yellow-400" : "text-red-400"
+                  }`}
+                />
+                <span>
+                  <span className="text-foreground">{result.filename}</span>: {result.error}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
 
       <button
         type="submit"
-        disabled={!file || isUploading}
+        disabled={files.length === 0 || isUploading || !uploadSettings}
         className="w-full mt-4 flex justify-center items-center py-3 px-4 border border-transparent rounded-lg text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors disabled:opacity-50"
       >
         {isUploading ? (
           <>
             <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-            Uploading...
+            {uploadProgress ? `Uploading ${uploadProgress}` : "Uploading..."}
           </>
         ) : (
           <>
@@ -398,9 +743,16 @@ export default function DocumentsPage() {
 
       <UploadForm onUploadSuccess={fetchDocuments} />
 
-      <h2 className="text-2xl font-semibold text-foreground pt-4 border-t border-border">
-        Uploaded Files
-      </h2>
+      <div className="flex items-center justify-between pt-4 border-t border-border">
+        <h2 className="text-2xl font-semibold text-foreground">Uploaded Files</h2>
+        <Link
+          href="/documents/compare"
+          className="flex items-center text-sm text-primary hover:text-primary/80"
+        >
+          <GitCompare className="w-4 h-4 mr-1" />
+          Compare documents
+        </Link>
+      </div>
       <DocumentList documents={documents} onDelete={handleDelete} />
     </div>
   );
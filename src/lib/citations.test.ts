@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  extractCitations,
+  formatAuthority,
+  listAuthorities,
+  normalizeCitation,
+} from "@/lib/citations";
+import type { Source } from "@/lib/groq";
+
+// Only the parsing is tested, so no database client is needed
+vi.mock("@/lib/supabase", () => ({ supabaseAdmin: {} }));
+
+function source(content: string, chunkIndex = 0): Source {
+  return { documentId: "doc", filename: "brief.pdf", content, score: 1, chunkIndex };
+}
+
+describe("extractCitations", () => {
+  it("parses US case citations with their case name, court and year", () => {
+    const text = "See also Smith v. Jones, 123 F.3d 456, 460 (9th Cir. 1997), and Roe v. Wade, 410 U.S. 113 (1973).";
+
+    expect(extractCitations(text)).toEqual([
+      {
+        kind: "case",
+        citation: "123 F.3d 456",
+        text: "123 F.3d 456, 460 (9th Cir. 1997)",
+        caseName: "Smith v. Jones",
+        court: "9th Cir.",
+        year: 1997,
+        startChar: text.indexOf("123"),
+        endChar: text.indexOf("1997)") + 5,
+      },
+      {
+        kind: "case",
+        citation: "410 U.S. 113",
+        text: "410 U.S. 113 (1973)",
+        caseName: "Roe v. Wade",
+        year: 1973,
+        startChar: text.indexOf("410"),
+        endChar: text.indexOf("(1973)") + 6,
+      },
+    ]);
+  });
+
+  it("normalises reporters however they are spaced", () => {
+    expect(normalizeCitation("12 F.Supp.2d 34")).toBe("12 F. Supp. 2d 34");
+    expect(normalizeCitation("550 U. S. 544")).toBe("550 U.S. 544");
+    expect(normalizeCitation("98 S.Ct. 2733")).toBe("98 S. Ct. 2733");
+  });
+
+  it("parses UK neutral and report citations", () => {
+    const [citation] = extractCitations("Donoghue v Stevenson [1932] AC 562");
+
+    expect(citation).toMatchObject({
+      kind: "case",
+      citation: "[1932] AC 562",
+      caseName: "Donoghue v Stevenson",
+      year: 1932,
+    });
+    expect(normalizeCitation("[2003] EWCA  Civ 1234")).toBe("[2003] EWCA Civ 1234");
+  });
+
+  it("parses statutes, regulations and treaties", () => {
+    const citations = extractCitations(
+      "Claims under 42 U.S.C. § 1983 and 17 C.F.R. § 240.10b-5, Cal. Civ. Code § 1542, Article 6(1) of the ECHR and Art. 17 GDPR."
+    );
+
+    expect(citations.map(({ kind, citation }) => ({ kind, citation }))).toEqual([
+      { kind: "statute", citation: "42 U.S.C. § 1983" },
+      { kind: "regulation", citation: "17 C.F.R. § 240.10b-5" },
+      { kind: "statute", citation: "Cal. Civ. Code § 1542" },
+      { kind: "treaty", citation: "Art. 6(1) ECHR" },
+      { kind: "regulation", citation: "Art. 17 GDPR" },
+    ]);
+  });
+
+  it("does not read case names or plain numbers as citations", () => {
+    expect(normalizeCitation("Smith v. Jones")).toBeNull();
+    expect(extractCitations("Payment of 500 units within 30 days.")).toEqual([]);
+  });
+});
+
+describe("listAuthorities", () => {
+  it("groups citations across sources, most cited first", () => {
+    const authorities = listAuthorities([
+      source("Under 42 U.S.C. § 1983 the claim fails."),
+      source("Smith v. Jones, 123 F.3d 456 (9th Cir. 1997); see also 42 USC 1983.", 1),
+    ]);
+
+    expect(authorities).toEqual([
+      { kind: "statute", citation: "42 U.S.C. § 1983", sources: [1, 2] },
+      {
+        kind: "case",
+        citation: "123 F.3d 456",
+        caseName: "Smith v. Jones",
+        court: "9th Cir.",
+        year: 1997,
+        sources: [2],
+      },
+    ]);
+    expect(formatAuthority(authorities[1])).toBe("Smith v. Jones, 123 F.3d 456 (9th Cir. 1997)");
+  });
+});
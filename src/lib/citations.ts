@@ -0,0 +1,387 @@
+/**
+ * Legal citations
+ * Case-law, statute, regulation and treaty citations ("123 F.3d 456 (9th Cir.
+ * 1997)", "42 U.S.C. § 1983", "Art. 6 ECHR") are parsed from every chunk at
+ * ingestion and stored in normalised form, so documents can be searched by the
+ * authorities they cite.
+ */
+
+import { supabaseAdmin, type Database } from "@/lib/supabase";
+import type { Source } from "@/lib/groq";
+
+export type CitationKind = "case" | "statute" | "regulation" | "treaty";
+
+export interface Citation {
+  kind: CitationKind;
+  citation: string; // Normalised, e.g. "123 F.3d 456"
+  text: string; // As written
+  caseName?: string;
+  court?: string;
+  year?: number;
+  // Range of the citation in the parsed text
+  startChar: number;
+  endChar: number;
+}
+
+// Reporter abbreviations as written (with optional spaces) and their normalised form, longest first
+const REPORTERS: Array<[string, string]> = [
+  ["L\\.\\s?Ed\\.\\s?2d", "L. Ed. 2d"],
+  ["L\\.\\s?Ed\\.", "L. Ed."],
+  ["S\\.\\s?Ct\\.", "S. Ct."],
+  ["U\\.\\s?S\\.", "U.S."],
+  ["F\\.\\s?Supp\\.\\s?([23])d", "F. Supp. $1d"],
+  ["F\\.\\s?Supp\\.", "F. Supp."],
+  ["F\\.\\s?App'x", "F. App'x"],
+  ["F\\.\\s?(2d|3d|4th)", "F.$1"],
+  ["F\\.", "F."],
+  ["Cal\\.\\s?Rptr\\.\\s?([23])d", "Cal. Rptr. $1d"],
+  ["Cal\\.\\s?Rptr\\.", "Cal. Rptr."],
+  ["N\\.Y\\.S\\.\\s?([23])d", "N.Y.S.$1d"],
+  ["So\\.\\s?([23])d", "So. $1d"],
+  ["So\\.", "So."],
+  ["(A|P|N\\.E|N\\.W|S\\.E|S\\.W)\\.\\s?([23]d)", "$1.$2"],
+  ["(A|P|N\\.E|N\\.W|S\\.E|S\\.W)\\.", "$1."],
+];
+
+const REPORTER = REPORTERS.map(([pattern]) => pattern.replace(/\((?!\?)/g, "(?:")).join("|");
+
+// 123 F.3d 456, 460 (9th Cir. 1997)
+const CASE_PATTERN = new RegExp(
+  `\\b(\\d{1,4})\\s+(${REPORTER})\\s+(\\d{1,5})(?:,\\s*\\d{1,5}(?:[-–]\\d{1,5})?)?(?:\\s*\\(([^()\\n]{0,40}?)\\s*(\\d{4})\\))?`,
+  "g"
+);
+
+// [2019] UKSC 12, [2003] EWCA Civ 1234, [1932] AC 562
+const UK_CASE_PATTERN =
+  /\[(\d{4})\]\s+(?:(\d{1,2})\s+)?(UKSC|UKHL|UKPC|EWCA\s+(?:Civ|Crim)|EWHC|AC|QB|KB|Ch|WLR|All\s+ER)\s+(\d{1,5})(?:\s+\(([A-Za-z]+)\))?/g;
+
+const SECTION = `(\\d+[a-zA-Z0-9.-]*[a-zA-Z0-9]|\\d)((?:\\([a-zA-Z0-9]{1,4}\\))*)`;
+
+// 42 U.S.C. § 1983, 17 C.F.R. § 240.10b-5
+const US_CODE_PATTERN = new RegExp(
+  `\\b(\\d{1,2})\\s+(U\\.?\\s?S\\.?\\s?C\\.?(?:\\s?A\\.)?|C\\.?\\s?F\\.?\\s?R\\.?)\\s*(?:§§?|[Ss]ec(?:tion|\\.)?)?\\s*${SECTION}`,
+  "g"
+);
+
+// Cal. Civ. Code § 1542, N.Y. Gen. Bus. Law § 349
+const STATE_CODE_PATTERN = new RegExp(
+  `\\b((?:Cal|Tex|Fla|N\\.Y|N\\.J|Del|Ill|Mass|Pa|Ga|Wash|Ohio|Mich)\\.?(?:\\s+[A-Z][A-Za-z.&]*){1,4}\\s+(?:Code|Law|Stat)(?:\\s+Ann\\.)?)\\s*§§?\\s*${SECTION}`,
+  "g"
+);
+
+// Art. 6 ECHR, Article 6(1) of the ECHR, Art. 17 GDPR
+const TREATY_PATTERN =
+  /\b(?:Art\.|Article)\s+(\d+[a-z]?(?:\(\d+\))*)\s+(?:of\s+the\s+)?(ECHR|TFEU|TEU|GDPR|UDHR|ICCPR)\b/g;
+
+function normalizeReporter(reporter: string): string {
+  for (const [pattern, normalized] of REPORTERS) {
+    const whole = new RegExp(`^(?:${pattern})$`);
+    if (whole.test(reporter)) {
+      return reporter.replace(whole, normalized);
+    }
+  }
+  return reporter.replace(/\s+/g, " ");
+}
+
+/**
+ * Case name written before a reporter citation, e.g. "Smith v. Jones, "
+ */
+function findCaseName(text: string, citationStart: number): string | undefined {
+  const before = text.slice(Math.max(0, citationStart - 150), citationStart);
+  const match = before.match(
+    /((?:In\s+re|Ex\s+parte)\s+[A-Z][^,;()\n]{0,60}|(?:[A-Z][\w.'&-]*\s+){1,6}v\.?\s+[A-Z][\w.'&-]*(?:,?\s+(?:[A-Z][\w.'&-]*|of|the|and|&))*),?\s*$/
+  );
+  // Drop citation signals and sentence openers, e.g. "See also" or "Under"
+  return match?.[1]
+    .replace(/^(?:(?:See|Under|As|Also|Following|Per|Citing|Accord|Compare|But|Cf\.|E\.g\.,?|In(?!\s+re\b))\s+)+/i, "")
+    .trim();
+}
+
+/**
+ * Parse the legal citations in a text, in order of appearance
+ */
+export function extractCitations(text: string): Citation[] {
+  const citations: Citation[] = [];
+  const add = (match: RegExpMatchArray, citation: Omit<Citation, "text" | "startChar" | "endChar">) =>
+    citations.push({
+      ...citation,
+      text: match[0],
+      startChar: match.index!,
+      endChar: match.index! + match[0].length,
+    });
+
+  for (const match of Array.from(text.matchAll(CASE_PATTERN))) {
+    const [, volume, reporter, page, court, year] = match;
+    const caseName = findCaseName(text, match.index!);
+    add(match, {
+      kind: "case",
+      citation: `${volume} ${normalizeReporter(reporter)} ${page}`,
+      ...(caseName && { caseName }),
+      ...(court?.trim() && { court: court.trim() }),
+      ...(year && { year: Number(year) }),
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(UK_CASE_PATTERN))) {
+    const [, year, volume, report, number, division] = match;
+    const caseName = findCaseName(text, match.index!);
+    add(match, {
+      kind: "case",
+      citation: [`[${year}]`, volume, report.replace(/\s+/g, " "), number, division && `(${division})`]
+        .filter(Boolean)
+        .join(" "),
+      ...(caseName && { caseName }),
+      year: Number(year),
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(US_CODE_PATTERN))) {
+    const [, title, code, section, subsections] = match;
+    const isRegulation = /^C/.test(code);
+    add(match, {
+      kind: isRegulation ? "regulation" : "statute",
+      citation: `${title} ${isRegulation ? "C.F.R." : "U.S.C."} § ${section}${subsections}`,
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(STATE_CODE_PATTERN))) {
+    const [, code, section, subsections] = match;
+    add(match, {
+      kind: "statute",
+      citation: `${code.replace(/\s+/g, " ")} § ${section}${subsections}`,
+    });
+  }
+
+  for (const match of Array.from(text.matchAll(TREATY_PATTERN))) {
+    const [, article, instrument] = match;
+    add(match, {
+      kind: instrument === "GDPR" ? "regulation" : "treaty",
+      citation: `Art. ${article} ${instrument}`,
+    });
+  }
+
+  return citations.sort((a, b) => a.startChar - b.startChar);
+}
+
+/**
+ * Normalise a citation typed into search the way stored citations are, or
+ * return null when it does not parse as one (e.g. a case name)
+ */
+export function normalizeCitation(query: string): string | null {
+  return extractCitations(query)[0]?.citation ?? null;
+}
+
+/**
+ * Store the citations found in a document's chunks, replacing earlier ones
+ */
+export async function saveChunkCitations(
+  documentId: string,
+  userId: string,
+  chunks: Array<{ id: string; content: string }>
+): Promise<number> {
+  const { error: deleteError } = await supabaseAdmin
+    .from("citations")
+    .delete()
+    .eq("document_id", documentId);
+  if (deleteError) {
+    throw new Error(`Failed to clear previous citations: ${deleteError.message}`);
+  }
+
+  const records = chunks.flatMap((chunk) => {
+    // Overlapping chunks repeat text, so each chunk records a citation once
+    const unique = new Map<string, Citation>();
+    for (const citation of extractCitations(chunk.content)) {
+      if (!unique.has(citation.citation)) {
+        unique.set(citation.citation, citation);
+      }
+    }
+    return Array.from(unique.values()).map((citation) => ({
+      document_id: documentId,
+      chunk_id: chunk.id,
+      user_id: userId,
+      kind: citation.kind,
+      citation: citation.citation,
+      raw_text: citation.text,
+      case_name: citation.caseName ?? null,
+      court: citation.court ?? null,
+      year: citation.year ?? null,
+    }));
+  });
+
+  const batchSize = 500;
+  for (let i = 0; i < records.length; i += batchSize) {
+    const { error } = await supabaseAdmin.from("citations").insert(records.slice(i, i + batchSize));
+    if (error) {
+      throw new Error(`Failed to insert citations: ${error.message}`);
+    }
+  }
+  return records.length;
+}
+
+export interface Authority {
+  kind: CitationKind;
+  citation: string;
+  caseName?: string;
+  court?: string;
+  year?: number;
+  // Sources (1-based, as numbered in the context) that cite it
+  sources: number[];
+}
+
+/**
+ * The authorities retrieved passages cite, most cited first
+ */
+export function listAuthorities(sources: Source[]): Authority[] {
+  const authorities = new Map<string, Authority>();
+
+  sources.forEach((source, index) => {
+    for (const citation of extractCitations(source.content)) {
+      const authority: Authority = authorities.get(citation.citation) || {
+        kind: citation.kind,
+        citation: citation.citation,
+        sources: [],
+      };
+      authority.caseName ??= citation.caseName;
+      authority.court ??= citation.court;
+      authority.year ??= citation.year;
+      if (!authority.sources.includes(index + 1)) {
+        authority.sources.push(index + 1);
+      }
+      authorities.set(citation.citation, authority);
+    }
+  });
+
+  return Array.from(authorities.values()).sort((a, b) => b.sources.length - a.sources.length);
+}
+
+/**
+ * Give each source the authorities its passage cites, for the answer context
+ */
+export function attachCitations(sources: Source[]): Source[] {
+  return sources.map((source) => {
+    const citations = Array.from(
+      new Set(extractCitations(source.content).map((citation) => formatAuthority(citation)))
+    );
+    return citations.length > 0 ? { ...source, citations } : source;
+  });
+}
+
+/**
+ * Format an authority for display, e.g. "Smith v. Jones, 123 F.3d 456 (9th Cir. 1997)"
+ */
+export function formatAuthority(authority: Omit<Authority, "sources">): string {
+  const parenthetical = [authority.court, authority.year].filter(Boolean).join(" ");
+  return [
+    authority.caseName ? `${authority.caseName}, ${authority.citation}` : authority.citation,
+    parenthetical && !authority.citation.startsWith("[") ? ` (${parenthetical})` : "",
+  ].join("");
+}
+
+export interface CitingDocument {
+  documentId: string;
+  filename: string;
+  citations: Array<{
+    kind: CitationKind;
+    citation: string;
+    text: string;
+    caseName?: string;
+    chunkIndex: number;
+    pageStart?: number;
+    sectionPath?: string;
+  }>;
+}
+
+type CitationRow = Database["public"]["Tables"]["citations"]["Row"];
+
+// A citation joined with its document and chunk, as selected by findCitingDocuments
+interface CitingRow extends Pick<CitationRow, "document_id" | "citation" | "raw_text" | "case_name"> {
+  kind: CitationKind;
+  documents: { filename: string };
+  document_chunks: {
+    chunk_index: number;
+    metadata: { pageStart?: number; sectionPath?: string } | null;
+  };
+}
+
+/**
+ * Documents citing an authority, given as a citation in any common form
+ * ("123 F. 3d 456", "42 USC 1983") or by case name ("Smith v. Jones")
+ */
+export async function findCitingDocuments(
+  userId: string,
+  query: string,
+  kind?: CitationKind
+): Promise<CitingDocument[]> {
+  const normalized = normalizeCitation(query);
+
+  let request = supabaseAdmin
+    .from("citations")
+    .select(
+      "document_id, kind, citation, raw_text, case_name, documents(filename), document_chunks(chunk_index, metadata)"
+    )
+    .eq("user_id", userId)
+    .limit(1000);
+  request = normalized
+    ? request.eq("citation", normalized)
+    : request.ilike("case_name", `%${query.replace(/[\\%_]/g, "\\$&")}%`);
+  if (kind) {
+    request = request.eq("kind", kind);
+  }
+
+  const { data, error } = await request.overrideTypes<CitingRow[], { merge: false }>();
+  if (error) {
+    console.error("Error searching citations:", error);
+    throw new Error("Failed to search citations");
+  }
+
+  const documents = new Map<string, CitingDocument>();
+  for (const row of data || []) {
+    const document: CitingDocument = documents.get(row.document_id) || {
+      documentId: row.document_id,
+      filename: row.documents.filename,
+      citations: [],
+    };
+    document.citations.push({
+      kind: row.kind,
+      citation: row.citation,
+      text: row.raw_text,
+      ...(row.case_name && { caseName: row.case_name }),
+      chunkIndex: row.document_chunks.chunk_index,
+      pageStart: row.document_chunks.metadata?.pageStart,
+      sectionPath: row.document_chunks.metadata?.sectionPath,
+    });
+    documents.set(row.document_id, document);
+  }
+
+  return Array.from(documents.values()).map((document) => ({
+    ...document,
+    citations: document.citations.sort((a, b) => a.chunkIndex - b.chunkIndex),
+  }));
+}
+
+/**
+ * Every authority the user's documents cite, with the number of documents citing it
+ */
+export async function listCitedAuthorities(
+  userId: string,
+  kind?: CitationKind
+): Promise<Array<Omit<Authority, "sources"> & { documentCount: number }>> {
+  const { data, error } = await supabaseAdmin.rpc("list_cited_authorities", {
+    p_user_id: userId,
+    p_kind: kind ?? null,
+  });
+  if (error) {
+    console.error("Error listing citations:", error);
+    throw new Error("Failed to list citations");
+  }
+
+  const rows: Database["public"]["Functions"]["list_cited_authorities"]["Returns"] = data || [];
+  return rows.map((row) => ({
+    kind: row.kind as CitationKind,
+    citation: row.citation,
+    ...(row.case_name && { caseName: row.case_name }),
+    ...(row.court && { court: row.court }),
+    ...(row.year !== null && { year: row.year }),
+    documentCount: row.document_count,
+  }));
+}
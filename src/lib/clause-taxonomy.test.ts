@@ -0,0 +1,100 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_CLAUSE_TAXONOMY,
+  classifyClauseWithPatterns,
+  detectClauseTypes,
+} from "@/lib/clause-taxonomy";
+
+describe("classifyClauseWithPatterns", () => {
+  it("labels a clause from its heading alone", () => {
+    expect(classifyClauseWithPatterns("The parties agree as follows.", "9. Indemnification")).toEqual([
+      "indemnification",
+    ]);
+  });
+
+  it("needs repeated pattern hits in body text", () => {
+    const once = "Each party shall indemnify the other for its own negligence.";
+    const twice = `${once} The indemnifying party shall defend, indemnify and hold harmless the other.`;
+
+    expect(classifyClauseWithPatterns(once, "Section 9")).not.toContain("indemnification");
+    expect(classifyClauseWithPatterns(twice, "Section 9")).toContain("indemnification");
+  });
+
+  it("can label a clause with several types", () => {
+    const labels = classifyClauseWithPatterns(
+      "In no event shall either party be liable for consequential, incidental or special damages.",
+      "Limitation of Liability; Indemnification"
+    );
+    expect(labels).toEqual(expect.arrayContaining(["indemnification", "limitation_of_liability"]));
+  });
+});
+
+describe("detectClauseTypes", () => {
+  it("finds the clause types a question asks to list", () => {
+    expect(detectClauseTypes("Show me every limitation of liability clause")).toEqual([
+      "limitation_of_liability",
+    ]);
+    expect(detectClauseTypes("List all NDA and force-majeure provisions")).toEqual(
+      expect.arrayContaining(["confidentiality", "force_majeure"])
+    );
+  });
+
+  it("ignores questions about what a clause says", () => {
+    expect(detectClauseTypes("What is the liability cap?")).toEqual([]);
+  });
+});
+
+describe("custom taxonomy", () => {
+  const file = path.join(os.tmpdir(), `clause-taxonomy-${process.pid}.json`);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+    fs.rmSync(file, { force: true });
+  });
+
+  async function loadTaxonomy(taxonomy: unknown) {
+    fs.writeFileSync(file, JSON.stringify(taxonomy));
+    vi.stubEnv("CLAUSE_TAXONOMY_PATH", file);
+    vi.resetModules();
+    return import("@/lib/clause-taxonomy");
+  }
+
+  it("is loaded from CLAUSE_TAXONOMY_PATH", async () => {
+    const { classifyClauseWithPatterns, getClauseTaxonomy } = await loadTaxonomy([
+      { id: "escrow", label: "Escrow", patterns: ["escrow\\s+agent"] },
+    ]);
+
+    expect(getClauseTaxonomy()).toEqual([
+      { id: "escrow", label: "Escrow", description: "", patterns: ["escrow\\s+agent"] },
+    ]);
+    expect(classifyClauseWithPatterns("The Escrow Agent holds the escrow agent fee.", "Section 4")).toEqual([
+      "escrow",
+    ]);
+  });
+
+  it("skips invalid patterns with an error naming the clause type", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const { classifyClauseWithPatterns, getClauseTaxonomy } = await loadTaxonomy([
+      { id: "escrow", label: "Escrow", patterns: ["(unclosed", "escrow\\s+agent"] },
+    ]);
+
+    expect(getClauseTaxonomy()).toHaveLength(1);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('"(unclosed" for clause type "escrow"'),
+      expect.any(String)
+    );
+    expect(classifyClauseWithPatterns("escrow agent and escrow agent", "Section 4")).toEqual(["escrow"]);
+  });
+
+  it("falls back to the default when the file is malformed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { getClauseTaxonomy } = await loadTaxonomy([{ id: "escrow", label: "Escrow", patterns: [42] }]);
+
+    expect(getClauseTaxonomy()).toEqual(DEFAULT_CLAUSE_TAXONOMY);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Clause classification
+ * Every chunk is labelled with clause types from a taxonomy so retrieval can
+ * filter on them. The taxonomy is configurable: set CLAUSE_TAXONOMY_PATH to a
+ * JSON file with an array of { id, label, description, patterns, aliases }.
+ */
+
+import fs from "fs";
+
+export interface ClauseType {
+  id: string; // Stored in chunk and vector metadata, e.g. "limitation_of_liability"
+  label: string;
+  description: string;
+  // Regular expressions (case-insensitive) that indicate the clause
+  patterns: string[];
+  // Other names users ask for it by, e.g. "liability cap"
+  aliases?: string[];
+}
+
+export const DEFAULT_CLAUSE_TAXONOMY: ClauseType[] = [
+  {
+    id: "indemnification",
+    label: "Indemnification",
+    description: "One party compensates or defends the other against losses or third-party claims",
+    patterns: ["\\bindemnif", "hold\\s+harmless", "defend,?\\s+indemnify"],
+    aliases: ["indemnity", "indemnities", "hold harmless"],
+  },
+  {
+    id: "limitation_of_liability",
+    label: "Limitation of Liability",
+    description: "Caps or excludes liability, e.g. for consequential damages",
+    patterns: [
+      "limitation\\s+of\\s+liability",
+      "in\\s+no\\s+event\\s+shall\\b.{0,80}\\bliable",
+      "aggregate\\s+liability",
+      "consequential,?\\s+(?:incidental|special|indirect)",
+      "liability\\s+(?:shall\\s+)?(?:not\\s+)?exceed",
+    ],
+    aliases: [
+      "liability cap",
+      "cap on liability",
+      "exclusion of liability",
+      "limitation on liability",
+    ],
+  },
+  {
+    id: "termination",
+    label: "Termination",
+    description: "When and how the agreement can be ended and what happens on termination",
+    patterns: ["\\bterminat(?:e|ion)\\b", "\\bmay\\s+be\\s+terminated", "upon\\s+expiration"],
+    aliases: ["terminate", "termination rights", "ending the contract"],
+  },
+  {
+    id: "term_and_renewal",
+    label: "Term and Renewal",
+    description: "Duration of the agreement and how it renews",
+    patterns: [
+      "\\binitial\\s+term\\b",
+      "\\brenewal\\s+term\\b",
+      "automatically\\s+renew",
+      "term\\s+of\\s+this\\s+agreement",
+    ],
+    aliases: ["renewal", "auto-renewal", "duration"],
+  },
+  {
+    id: "confidentiality",
+    label: "Confidentiality",
+    description: "Obligations to keep information confidential and limits on disclosure",
+    patterns: ["\\bconfidential", "non-?disclosure", "\\bproprietary\\s+information"],
+    aliases: ["nda", "non-disclosure", "confidential information"],
+  },
+  {
+    id: "assignment",
+    label: "Assignment",
+    description: "Whether rights or obligations can be transferred to another party",
+    patterns: [
+      "\\bassign(?:ment|ed)?\\b.{0,80}\\b(?:consent|without)",
+      "may\\s+not\\s+(?:be\\s+)?assign",
+      "change\\s+of\\s+control",
+    ],
+    aliases: ["assign", "transfer of the agreement", "change of control"],
+  },
+  {
+    id: "force_majeure",
+    label: "Force Majeure",
+    description: "Excuses performance for events beyond a party's reasonable control",
+    patterns: [
+      "force\\s+majeure",
+      "acts?\\s+of\\s+god",
+      "beyond\\s+(?:its|their|the)\\s+reasonable\\s+control",
+    ],
+    aliases: ["act of god", "acts of god"],
+  },
+  {
+    id: "non_compete",
+    label: "Non-Compete and Non-Solicitation",
+    description: "Restrictions on competing with, or soliciting employees or customers of, the other party",
+    patterns: [
+      "non-?compet",
+      "shall\\s+not\\b.{0,60}\\bcompet",
+      "non-?solicit",
+      "shall\\s+not\\b.{0,40}\\bsolicit",
+    ],
+    aliases: [
+      "non-compete",
+      "noncompete",
+      "non-solicitation",
+      "restrictive covenant",
+      "restrictive covenants",
+    ],
+  },
+  {
+    id: "governing_law",
+    label: "Governing Law",
+    description: "Which jurisdiction's law governs the agreement",
+    patterns: ["governing\\s+law", "governed\\s+by\\b.{0,60}\\blaws?\\s+of", "choice\\s+of\\s+law"],
+    aliases: ["choice of law", "applicable law"],
+  },
+  {
+    id: "dispute_resolution",
+    label: "Dispute Resolution",
+    description: "Arbitration, mediation, court jurisdiction and venue for disputes",
+    patterns: [
+      "\\barbitrat",
+      "\\bmediat",
+      "dispute\\s+resolution",
+      "jurisdiction\\s+of\\s+the\\b.{0,40}\\bcourts?",
+      "\\bvenue\\b",
+    ],
+    aliases: ["arbitration", "venue", "disputes"],
+  },
+  {
+    id: "payment",
+    label: "Payment Terms",
+    description: "Fees, invoicing, payment deadlines, late payment and taxes",
+    patterns: [
+      "payment\\s+terms",
+      "\\binvoice",
+      "\\bfees?\\b.{0,40}\\b(?:payable|due)",
+      "late\\s+payment",
+      "\\bwithin\\s+\\d+\\s+days\\s+of\\s+(?:receipt|the\\s+date)",
+    ],
+    aliases: ["fees", "invoicing", "payment"],
+  },
+  {
+    id: "warranties",
+    label: "Representations and Warranties",
+    description: "Statements of fact and promises about quality, authority or compliance, and disclaimers",
+    patterns: [
+      "represents\\s+and\\s+warrants",
+      "\\bwarrant(?:y|ies)\\b",
+      "\\bas\\s+is\\b",
+      "disclaim",
+    ],
+    aliases: ["warranty", "representations", "disclaimer"],
+  },
+  {
+    id: "intellectual_property",
+    label: "Intellectual Property",
+    description: "Ownership and licensing of intellectual property and work product",
+    patterns: [
+      "intellectual\\s+property",
+      "\\bwork\\s+product\\b",
+      "\\bownership\\s+of\\b",
+      "\\bgrants?\\b.{0,60}\\blicen[cs]e",
+    ],
+    aliases: ["ip ownership", "license", "licence"],
+  },
+  {
+    id: "data_protection",
+    label: "Data Protection",
+    description: "Processing and security of personal data",
+    patterns: [
+      "personal\\s+data",
+      "data\\s+protection",
+      "\\bGDPR\\b",
+      "data\\s+processing",
+      "security\\s+breach",
+    ],
+    aliases: ["privacy", "gdpr", "personal data"],
+  },
+  {
+    id: "insurance",
+    label: "Insurance",
+    description: "Insurance coverage a party must maintain",
+    patterns: ["\\binsurance\\b", "\\bcoverage\\b.{0,40}\\b(?:limit|amount)", "\\binsured\\b"],
+  },
+  {
+    id: "notices",
+    label: "Notices",
+    description: "How formal notices must be given",
+    patterns: [
+      "\\bnotices?\\b.{0,80}\\b(?:in\\s+writing|delivered|addressed)",
+      "notice\\s+shall\\s+be",
+    ],
+  },
+];
+
+// Body text needs this many pattern hits for a label; a matching heading is enough on its own
+const MIN_BODY_MATCHES = 2;
+
+let cachedTaxonomy: ClauseType[] | undefined;
+
+/**
+ * The clause taxonomy in use: the file at CLAUSE_TAXONOMY_PATH, or the default
+ */
+export function getClauseTaxonomy(): ClauseType[] {
+  if (cachedTaxonomy) {
+    return cachedTaxonomy;
+  }
+
+  const path = process.env.CLAUSE_TAXONOMY_PATH;
+  if (!path) {
+    cachedTaxonomy = DEFAULT_CLAUSE_TAXONOMY;
+    return cachedTaxonomy;
+  }
+
+  try {
+    const taxonomy = JSON.parse(fs.readFileSync(path, "utf-8"));
+    if (
+      !Array.isArray(taxonomy) ||
+      !taxonomy.every(
+        (type) =>
+          typeof type?.id === "string" &&
+          typeof type.label === "string" &&
+          Array.isArray(type.patterns) &&
+          type.patterns.every((pattern: unknown) => typeof pattern === "string")
+      )
+    ) {
+      throw new Error("expected an array of { id, label, description, patterns }");
+    }
+    cachedTaxonomy = taxonomy.map((type) => ({ description: "", ...type }));
+    // Compile the patterns now, so invalid ones are reported when the taxonomy loads
+    cachedTaxonomy!.forEach(patternsOf);
+  } catch (error) {
+    console.error(`Invalid clause taxonomy at ${path}, using the default:`, error);
+    cachedTaxonomy = DEFAULT_CLAUSE_TAXONOMY;
+  }
+  return cachedTaxonomy!;
+}
+
+const compiledPatterns = new WeakMap<ClauseType, RegExp[]>();
+
+/**
+ * A clause type's patterns, compiled once. Patterns that are not valid regular
+ * expressions are skipped with an error naming the clause type.
+ */
+function patternsOf(type: ClauseType): RegExp[] {
+  let patterns = compiledPatterns.get(type);
+  if (!patterns) {
+    patterns = type.patterns.flatMap((pattern) => {
+      try {
+        return [new RegExp(pattern, "gi")];
+      } catch (error) {
+        console.error(
+          `Skipping invalid pattern ${JSON.stringify(pattern)} for clause type "${type.id}":`,
+          error instanceof Error ? error.message : error
+        );
+        return [];
+      }
+    });
+    compiledPatterns.set(type, patterns);
+  }
+  return patterns;
+}
+
+function countMatches(text: string, patterns: RegExp[]): number {
+  return patterns.reduce((count, pattern) => count + (text.match(pattern)?.length ?? 0), 0);
+}
+
+/**
+ * Label a passage from the taxonomy's patterns. The heading (section title,
+ * heading path or first line) counts on its own; body text needs repeated hits.
+ */
+export function classifyClauseWithPatterns(
+  content: string,
+  heading: string,
+  taxonomy: ClauseType[] = getClauseTaxonomy()
+): string[] {
+  return taxonomy
+    .filter(
+      (type) =>
+        heading.toLowerCase().includes(type.label.toLowerCase()) ||
+        countMatches(heading, patternsOf(type)) > 0 ||
+        countMatches(content, patternsOf(type)) >= MIN_BODY_MATCHES
+    )
+    .map((type) => type.id);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Classify this many chunks per LLM request
+const LLM_BATCH_SIZE = 20;
+const LLM_CHUNK_CHARS = 1200;
+
+/**
+ * Label every chunk with clause types, using the LLM when it is configured
+ * and patterns otherwise (or when a batch fails). Pattern matches on headings
+ * are always kept, since a clause titled "Indemnification" is one.
+ */
+export async function classifyChunks(
+  chunks: Array<{ content: string; metadata: { sectionPath?: string; heading?: string } }>
+): Promise<string[][]> {
+  const taxonomy = getClauseTaxonomy();
+  const headingOf = (chunk: (typeof chunks)[number]) =>
+    [chunk.metadata.heading, chunk.metadata.sectionPath, chunk.content.split("\n")[0].slice(0, 150)]
+      .filter(Boolean)
+      .join("\n");
+
+  const labels = chunks.map((chunk) =>
+    classifyClauseWithPatterns(chunk.content, headingOf(chunk), taxonomy)
+  );
+  if (!process.env.GROQ_API_KEY) {
+    return labels;
+  }
+
+  // The Groq client needs its API key when loaded, so only load it when it is used
+  const { classifyClauses } = await import("@/lib/groq");
+  const ids = new Set(taxonomy.map((type) => type.id));
+
+  for (let i = 0; i < chunks.length; i += LLM_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + LLM_BATCH_SIZE);
+    try {
+      const batchLabels = await classifyClauses(
+        batch.map((chunk) => chunk.content.slice(0, LLM_CHUNK_CHARS)),
+        taxonomy
+      );
+      batch.forEach((chunk, offset) => {
+        const headingLabels = classifyClauseWithPatterns("", headingOf(chunk), taxonomy);
+        const llmLabels = (batchLabels[offset] || []).filter((id) => ids.has(id));
+        labels[i + offset] = Array.from(new Set([...headingLabels, ...llmLabels]));
+      });
+    } catch (error) {
+      console.warn(`Clause classification by LLM failed for chunks ${i}-${i + batch.length - 1}, using patterns:`, error);
+    }
+  }
+
+  return labels;
+}
+
+// Asks for a set of clauses ("every indemnity clause", "list all termination
+// provisions") rather than about something a clause says
+const CLAUSE_SET_QUESTION = /\b(?:every|all|each|any|list|which)\b.*\b(?:clauses?|provisions?)\b/;
+
+/**
+ * Clause types a question asks for the clauses of, e.g. "show me every
+ * limitation of liability clause" -> ["limitation_of_liability"]. Questions
+ * that only mention a clause type ("what is the liability cap?") get none.
+ */
+export function detectClauseTypes(question: string): string[] {
+  const text = question.toLowerCase().replace(/[-_]/g, " ");
+  if (!CLAUSE_SET_QUESTION.test(text)) {
+    return [];
+  }
+  const mentions = (name: string) => {
+    const normalized = name.toLowerCase().replace(/[-_]/g, " ");
+    return new RegExp(`\\b${escapeRegExp(normalized)}\\b`).test(text);
+  };
+
+  return getClauseTaxonomy()
+    .filter((type) => [type.label, type.id, ...(type.aliases || [])].some(mentions))
+    .map((type) => type.id);
+}
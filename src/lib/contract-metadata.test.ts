@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  contractMetadataColumns,
+  contractVectorFilter,
+  extractContractMetadataWithPatterns,
+  normalizePartyName,
+  normalizePlace,
+  parseContractDate,
+  parseContractFilter,
+} from "@/lib/contract-metadata";
+
+const AGREEMENT = `MASTER SERVICES AGREEMENT
+
+This Master Services Agreement is entered into as of March 15, 2024 by and between
+Acme Corp., a Delaware corporation ("Acme"), and Beta Holdings LLC ("Beta").
+
+1. Term. The term of this Agreement shall be three (3) years from the Effective Date.
+This Agreement shall automatically renew for successive one-year periods unless either
+party gives notice of non-renewal.
+
+2. Fees. The total contract value is $1,250,000.00, payable quarterly.
+
+12. Governing Law. This Agreement shall be governed by the laws of the State of New York.
+The parties submit to the exclusive jurisdiction of the courts located in New York County.`;
+
+describe("extractContractMetadataWithPatterns", () => {
+  it("reads the key terms of a typical agreement", () => {
+    expect(extractContractMetadataWithPatterns(AGREEMENT)).toEqual({
+      parties: ["Acme Corp.", "Beta Holdings LLC"],
+      effectiveDate: "2024-03-15",
+      term: "three (3) years",
+      termMonths: 36,
+      governingLaw: "new york",
+      jurisdiction: "new york county",
+      renewalTerms:
+        "This Agreement shall automatically renew for successive one-year periods unless either party gives notice of non-renewal.",
+      autoRenews: true,
+      contractValue: 1250000,
+      currency: "USD",
+    });
+  });
+
+  it("leaves out terms the text does not state", () => {
+    expect(extractContractMetadataWithPatterns("Meeting notes about the project.")).toEqual({
+      parties: [],
+    });
+  });
+});
+
+describe("parseContractDate", () => {
+  it.each([
+    ["January 1, 2024", "2024-01-01"],
+    ["1st day of January, 2024", "2024-01-01"],
+    ["2024-02-29", "2024-02-29"],
+    ["01/15/2024", "2024-01-15"],
+  ])("parses %s", (written, iso) => {
+    expect(parseContractDate(written)).toBe(iso);
+  });
+
+  it("rejects dates that do not exist", () => {
+    expect(parseContractDate("2023-02-29")).toBeUndefined();
+    expect(parseContractDate("13/01/2024")).toBeUndefined();
+  });
+});
+
+describe("normalizePlace", () => {
+  it("compares places equal however they were written", () => {
+    expect(normalizePlace("the State of New York")).toBe("new york");
+    expect(normalizePlace("Laws of the Commonwealth of Massachusetts.")).toBe("massachusetts");
+    expect(normalizePlace("England  and Wales")).toBe("england and wales");
+  });
+});
+
+describe("normalizePartyName", () => {
+  it("drops legal-form suffixes, punctuation and case", () => {
+    expect(normalizePartyName("ACME Corp.")).toBe("acme");
+    expect(normalizePartyName("Acme Corporation")).toBe("acme");
+    expect(normalizePartyName("Société Générale S.A.")).toBe("société générale");
+    expect(normalizePartyName("Smith & O'Brien LLP")).toBe("smith and obrien");
+  });
+
+  it("is stored alongside the parties as written", () => {
+    const columns = contractMetadataColumns({ parties: ["The Acme Company, Inc.", "ACME Co"] });
+    expect(columns.parties).toEqual(["The Acme Company, Inc.", "ACME Co"]);
+    expect(columns.party_names).toEqual(["acme"]);
+  });
+});
+
+describe("contract filters", () => {
+  it("normalises filter values the way stored values are", () => {
+    const filter = parseContractFilter(
+      new URLSearchParams({
+        governingLaw: "State of NEW YORK",
+        effectiveFrom: "January 1, 2024",
+        minValue: "10000",
+        autoRenews: "true",
+        jurisdiction: "",
+      })
+    );
+
+    expect(filter).toEqual({
+      governingLaw: "new york",
+      effectiveFrom: "2024-01-01",
+      minValue: 10000,
+      autoRenews: true,
+    });
+  });
+
+  it("builds the matching Pinecone filter", () => {
+    expect(
+      contractVectorFilter({
+        party: "Acme Corporation",
+        governingLaw: "new york",
+        effectiveFrom: "2024-01-01",
+        effectiveTo: "2024-12-31",
+        maxValue: 500000,
+      })
+    ).toEqual({
+      partyNames: { $in: ["acme"] },
+      governingLaw: { $eq: "new york" },
+      effectiveDate: { $gte: 20240101, $lte: 20241231 },
+      contractValue: { $lte: 500000 },
+    });
+  });
+});
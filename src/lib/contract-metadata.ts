@@ -0,0 +1,432 @@
+/**
+ * Key contract terms: parties, dates, term, governing law, jurisdiction,
+ * renewal and value. Extracted by the LLM where available, with regex
+ * fallbacks for anything it leaves out, and stored as filterable fields.
+ */
+
+export interface ContractMetadata {
+  parties: string[];
+  effectiveDate?: string; // YYYY-MM-DD
+  term?: string; // As written, e.g. "three (3) years"
+  termMonths?: number;
+  governingLaw?: string;
+  jurisdiction?: string;
+  renewalTerms?: string;
+  autoRenews?: boolean;
+  contractValue?: number;
+  currency?: string; // ISO 4217 code
+}
+
+/**
+ * Filters on contract fields, shared by the documents list and retrieval
+ */
+export interface ContractFilter {
+  party?: string;
+  governingLaw?: string;
+  jurisdiction?: string;
+  effectiveFrom?: string; // YYYY-MM-DD, inclusive
+  effectiveTo?: string;
+  minValue?: number;
+  maxValue?: number;
+  autoRenews?: boolean;
+}
+
+// The LLM sees the opening (parties, dates, term) and the close (boilerplate, signatures)
+const LLM_HEAD_CHARS = 10000;
+const LLM_TAIL_CHARS = 4000;
+const MAX_FIELD_LENGTH = 300;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  eighteen: 18,
+  twenty: 20,
+  "twenty-four": 24,
+  thirty: 30,
+  "thirty-six": 36,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+};
+
+const DATE_PATTERN =
+  /(?:\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4}|[A-Z][a-z]+\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}|\d{1,2}(?:st|nd|rd|th)?(?:\s+day\s+of)?\s+[A-Z][a-z]+,?\s+\d{4})/;
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    year < 1900 ||
+    year > 2200
+  ) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a written date ("January 1, 2024", "1st day of January, 2024",
+ * "2024-01-01", "01/15/2024") to YYYY-MM-DD. Slashed dates are read month first.
+ */
+export function parseContractDate(value: string): string | undefined {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const slashed = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashed) {
+    return toIsoDate(Number(slashed[3]), Number(slashed[1]), Number(slashed[2]));
+  }
+
+  const monthFirst = value.match(/^([A-Za-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  const dayFirst = value.match(/^(\d{1,2})(?:st|nd|rd|th)?(?:\s+day\s+of)?\s+([A-Za-z]+),?\s+(\d{4})$/);
+  const [monthName, day, year] = monthFirst
+    ? [monthFirst[1], monthFirst[2], monthFirst[3]]
+    : dayFirst
+      ? [dayFirst[2], dayFirst[1], dayFirst[3]]
+      : [];
+  if (!monthName) {
+    return undefined;
+  }
+
+  const month = MONTHS.findIndex((name) => name.startsWith(monthName.toLowerCase().slice(0, 3)));
+  return month === -1 ? undefined : toIsoDate(Number(year), month + 1, Number(day));
+}
+
+/**
+ * Normalise a place name so it compares equal however it was written,
+ * e.g. "the State of New York" -> "new york". Stored values and filters both
+ * go through this, so they can be matched exactly.
+ */
+export function normalizePlace(value: string): string {
+  return value
+    .replace(/\s+/g, " ")
+    .replace(/^(?:the\s+)?(?:laws?\s+of\s+)?(?:the\s+)?(?:State|Commonwealth|Province)\s+of\s+/i, "")
+    .replace(/^the\s+/i, "")
+    .replace(/[,.;:\s]+$/, "")
+    .trim()
+    .toLowerCase();
+}
+
+// Legal-form suffixes and articles that vary between mentions of the same party
+const PARTY_NAME_NOISE =
+  /\b(?:the|inc|incorporated|corp|corporation|co|company|llc|llp|lp|ltd|limited|plc|gmbh|ag|sa|bv|nv|pty)\b/g;
+
+/**
+ * Normalise a party name so it compares equal however it was written,
+ * e.g. "ACME Corp." and "Acme Corporation" -> "acme". Mirrored by the
+ * backfill in the party_names migration.
+ */
+export function normalizePartyName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    // "S.A." and "O'Brien" read as one word
+    .replace(/[.'’]/g, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(PARTY_NAME_NOISE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function partyNames(parties: string[]): string[] {
+  return Array.from(new Set(parties.map(normalizePartyName).filter(Boolean)));
+}
+
+function cleanField(value: string | undefined): string | undefined {
+  const cleaned = value?.replace(/\s+/g, " ").trim();
+  return cleaned ? cleaned.slice(0, MAX_FIELD_LENGTH) : undefined;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): RegExpMatchArray | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Extract contract terms with regular expressions over common drafting patterns
+ */
+export function extractContractMetadataWithPatterns(text: string): ContractMetadata {
+  const flat = text.replace(/\s+/g, " ");
+  const metadata: ContractMetadata = { parties: [] };
+
+  // "by and between Acme Corp., a Delaware corporation ("Acme"), and Beta LLC ("Beta")"
+  const between = flat.match(/\b(?:by and )?between\s+(.{3,300}?)\s+and\s+(.{3,200}?)(?:\s*\(|,|\.\s)/i);
+  if (between) {
+    metadata.parties = [between[1], between[2]]
+      .map((party) => party.replace(/\s*\(.*$/, "").split(/,\s+(?:a|an)\s+/i)[0])
+      .map((party) => party.replace(/^[,\s]+|[,\s]+$/g, ""))
+      .filter((party) => party.length >= 2 && party.length <= 120);
+  }
+
+  const effective = firstMatch(flat, [
+    new RegExp(`effective\\s+(?:as\\s+of|on|from)\\s+(${DATE_PATTERN.source})`, "i"),
+    new RegExp(`"?Effective Date"?\\)?\\s*(?:means|shall\\s+(?:mean|be)|is|:)\\s*(${DATE_PATTERN.source})`, "i"),
+    new RegExp(`(?:dated|entered\\s+into)\\s+(?:as\\s+of\\s+)?(?:this\\s+)?(${DATE_PATTERN.source})`, "i"),
+  ]);
+  if (effective) {
+    metadata.effectiveDate = parseContractDate(effective[1]);
+  }
+
+  const term = flat.match(
+    /\bterm\s+of\s+(?:this\s+Agreement\s+)?(?:shall\s+be\s+|is\s+)?((?:([a-z-]+)\s+\((\d+)\)|(\d+)|([a-z-]+))\s+(years?|months?))/i
+  );
+  if (term) {
+    const count =
+      Number(term[3] || term[4]) || NUMBER_WORDS[(term[2] || term[5] || "").toLowerCase()];
+    if (count) {
+      metadata.term = cleanField(term[1]);
+      metadata.termMonths = term[6].toLowerCase().startsWith("year") ? count * 12 : count;
+    }
+  }
+
+  const law = flat.match(
+    /governed\s+by(?:,?\s+and\s+(?:construed|interpreted)\s+in\s+accordance\s+with,?)?\s+the\s+laws?\s+of\s+((?:the\s+)?(?:State\s+of\s+|Commonwealth\s+of\s+)?[A-Z][A-Za-z]+(?:\s+[A-Z][A-Za-z]+){0,3})/
+  );
+  if (law) {
+    metadata.governingLaw = normalizePlace(law[1]);
+  }
+
+  const jurisdiction = flat.match(
+    /(?:exclusive|non-exclusive)?\s*jurisdiction\s+of\s+the\s+(?:state\s+and\s+federal\s+)?courts?\s+(?:located\s+|sitting\s+)?(?:in|of|for)\s+((?:the\s+)?[A-Z][A-Za-z]+(?:[ ,]+[A-Z][A-Za-z]+){0,4})/i
+  );
+  if (jurisdiction) {
+    metadata.jurisdiction = normalizePlace(jurisdiction[1]);
+  }
+
+  const renewal = flat.match(/[^.]*\b(?:automatically\s+renew|auto-renew|renew\s+automatically)[^.]*\./i);
+  if (renewal) {
+    metadata.renewalTerms = cleanField(renewal[0]);
+    metadata.autoRenews = true;
+  } else {
+    const optionalRenewal = flat.match(/[^.]*\b(?:may\s+be\s+renewed|option\s+to\s+renew)[^.]*\./i);
+    if (optionalRenewal) {
+      metadata.renewalTerms = cleanField(optionalRenewal[0]);
+      metadata.autoRenews = false;
+    }
+  }
+
+  const value = flat.match(
+    /\b(?:total|aggregate|maximum)?\s*(?:contract\s+(?:value|price|sum)|purchase\s+price|consideration|total\s+fees?)\b[^.$€£]{0,60}?(?:([$€£])\s?|(USD|EUR|GBP)\s?)([\d,]+(?:\.\d{1,2})?)/i
+  );
+  if (value) {
+    const amount = Number(value[3].replace(/,/g, ""));
+    if (Number.isFinite(amount) && amount > 0) {
+      metadata.contractValue = amount;
+      metadata.currency = value[2]?.toUpperCase() || CURRENCY_SYMBOLS[value[1]];
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Keep only well-formed fields from the LLM's JSON answer
+ */
+function validateLlmFields(answer: unknown): ContractMetadata {
+  const fields: Record<string, unknown> =
+    typeof answer === "object" && answer !== null ? (answer as Record<string, unknown>) : {};
+  const text = (value: unknown) => (typeof value === "string" ? cleanField(value) : undefined);
+  const number = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+
+  const effectiveDate = text(fields.effectiveDate);
+  const termMonths = number(fields.termMonths);
+  const governingLaw = text(fields.governingLaw);
+  const jurisdiction = text(fields.jurisdiction);
+  const currency = text(fields.currency)?.toUpperCase();
+
+  return {
+    parties: Array.isArray(fields.parties)
+      ? fields.parties
+          .map((party) => text(party))
+          .filter((party): party is string => Boolean(party))
+          .slice(0, 10)
+      : [],
+    effectiveDate: effectiveDate && parseContractDate(effectiveDate),
+    term: text(fields.term),
+    termMonths: termMonths && Math.round(termMonths),
+    governingLaw: governingLaw && normalizePlace(governingLaw),
+    jurisdiction: jurisdiction && normalizePlace(jurisdiction),
+    renewalTerms: text(fields.renewalTerms),
+    autoRenews: typeof fields.autoRenews === "boolean" ? fields.autoRenews : undefined,
+    contractValue: number(fields.contractValue),
+    currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : undefined,
+  };
+}
+
+/**
+ * Extract contract terms, preferring the LLM's reading and filling anything
+ * it missed (or everything, when it is unavailable) from regex patterns
+ */
+export async function extractContractMetadata(text: string): Promise<ContractMetadata> {
+  const fallback = extractContractMetadataWithPatterns(text);
+  if (!process.env.GROQ_API_KEY) {
+    return fallback;
+  }
+
+  try {
+    const excerpt =
+      text.length > LLM_HEAD_CHARS + LLM_TAIL_CHARS
+        ? `${text.slice(0, LLM_HEAD_CHARS)}\n\n[...]\n\n${text.slice(-LLM_TAIL_CHARS)}`
+        : text;
+    // The Groq client needs its API key when loaded, so only load it when it is used
+    const { extractContractFields } = await import("@/lib/groq");
+    const extracted = validateLlmFields(await extractContractFields(excerpt));
+
+    return {
+      parties: extracted.parties.length > 0 ? extracted.parties : fallback.parties,
+      effectiveDate: extracted.effectiveDate ?? fallback.effectiveDate,
+      term: extracted.term ?? fallback.term,
+      termMonths: extracted.termMonths ?? fallback.termMonths,
+      governingLaw: extracted.governingLaw ?? fallback.governingLaw,
+      jurisdiction: extracted.jurisdiction ?? fallback.jurisdiction,
+      renewalTerms: extracted.renewalTerms ?? fallback.renewalTerms,
+      autoRenews: extracted.autoRenews ?? fallback.autoRenews,
+      contractValue: extracted.contractValue ?? fallback.contractValue,
+      currency: extracted.currency ?? fallback.currency,
+    };
+  } catch (error) {
+    console.warn("Contract metadata extraction by LLM failed, using patterns only:", error);
+    return fallback;
+  }
+}
+
+/**
+ * Document columns for extracted contract terms
+ */
+export function contractMetadataColumns(metadata: ContractMetadata) {
+  return {
+    parties: metadata.parties,
+    party_names: partyNames(metadata.parties),
+    effective_date: metadata.effectiveDate ?? null,
+    term_description: metadata.term ?? null,
+    term_months: metadata.termMonths ?? null,
+    governing_law: metadata.governingLaw ?? null,
+    jurisdiction: metadata.jurisdiction ?? null,
+    renewal_terms: metadata.renewalTerms ?? null,
+    auto_renews: metadata.autoRenews ?? null,
+    contract_value: metadata.contractValue ?? null,
+    contract_currency: metadata.currency ?? null,
+  };
+}
+
+/**
+ * Read contract filters from query parameters or a JSON body
+ */
+export function parseContractFilter(
+  source: URLSearchParams | Record<string, unknown> | undefined
+): ContractFilter {
+  const get = (key: keyof ContractFilter): string | undefined => {
+    const value = source instanceof URLSearchParams ? source.get(key) : source?.[key];
+    return value === undefined || value === null || value === "" ? undefined : String(value);
+  };
+  const date = (key: keyof ContractFilter) => {
+    const value = get(key);
+    return value ? parseContractDate(value) : undefined;
+  };
+  const number = (key: keyof ContractFilter) => {
+    const value = Number(get(key));
+    return get(key) !== undefined && Number.isFinite(value) ? value : undefined;
+  };
+  const autoRenews = get("autoRenews");
+
+  const filter: ContractFilter = {
+    party: get("party"),
+    governingLaw: get("governingLaw") && normalizePlace(get("governingLaw")!),
+    jurisdiction: get("jurisdiction") && normalizePlace(get("jurisdiction")!),
+    effectiveFrom: date("effectiveFrom"),
+    effectiveTo: date("effectiveTo"),
+    minValue: number("minValue"),
+    maxValue: number("maxValue"),
+    autoRenews: autoRenews === undefined ? undefined : autoRenews === "true",
+  };
+
+  (Object.keys(filter) as Array<keyof ContractFilter>).forEach((key) => {
+    if (filter[key] === undefined) delete filter[key];
+  });
+  return filter;
+}
+
+// Pinecone range filters need numbers, so dates are stored as YYYYMMDD
+function dateNumber(date: string): number {
+  return Number(date.replace(/-/g, ""));
+}
+
+/**
+ * Contract fields to store with every vector of a document
+ */
+export function contractVectorMetadata(metadata: ContractMetadata): Record<string, string | number | boolean | string[]> {
+  return {
+    ...(metadata.parties.length > 0 && {
+      parties: metadata.parties,
+      partyNames: partyNames(metadata.parties),
+    }),
+    ...(metadata.effectiveDate && { effectiveDate: dateNumber(metadata.effectiveDate) }),
+    ...(metadata.governingLaw && { governingLaw: metadata.governingLaw }),
+    ...(metadata.jurisdiction && { jurisdiction: metadata.jurisdiction }),
+    ...(metadata.autoRenews !== undefined && { autoRenews: metadata.autoRenews }),
+    ...(metadata.contractValue !== undefined && { contractValue: metadata.contractValue }),
+  };
+}
+
+/**
+ * Pinecone metadata filter for contract filters
+ */
+export function contractVectorFilter(filter: ContractFilter): Record<string, unknown> {
+  const range = (from?: number, to?: number) => ({
+    ...(from !== undefined && { $gte: from }),
+    ...(to !== undefined && { $lte: to }),
+  });
+
+  return {
+    ...(filter.party && { partyNames: { $in: [normalizePartyName(filter.party)] } }),
+    ...(filter.governingLaw && { governingLaw: { $eq: filter.governingLaw } }),
+    ...(filter.jurisdiction && { jurisdiction: { $eq: filter.jurisdiction } }),
+    ...((filter.effectiveFrom || filter.effectiveTo) && {
+      effectiveDate: range(
+        filter.effectiveFrom ? dateNumber(filter.effectiveFrom) : undefined,
+        filter.effectiveTo ? dateNumber(filter.effectiveTo) : undefined
+      ),
+    }),
+    ...((filter.minValue !== undefined || filter.maxValue !== undefined) && {
+      contractValue: range(filter.minValue, filter.maxValue),
+    }),
+    ...(filter.autoRenews !== undefined && { autoRenews: { $eq: filter.autoRenews } }),
+  };
+}
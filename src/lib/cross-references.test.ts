@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { findReferenceTargets, linkCrossReferences } from "@/lib/cross-references";
+
+// Only the resolution is tested, so no database client is needed
+vi.mock("@/lib/supabase", () => ({ supabaseAdmin: {} }));
+
+describe("findReferenceTargets", () => {
+  it("finds sections, clauses, articles and attachments in order", () => {
+    const targets = findReferenceTargets(
+      "Subject to Sections 4.1 and 4.2(a), Article VII and § 12, as set forth in Exhibit B and SCHEDULE 1."
+    );
+
+    expect(targets).toEqual([
+      { label: "Section 4.1", path: ["4.1"] },
+      { label: "Section 4.2(a)", path: ["4.2", "(a)"] },
+      { label: "Article VII", path: ["Article 7"] },
+      { label: "Section 12", path: ["12"] },
+      { label: "Exhibit B", path: ["Exhibit B"] },
+      { label: "Schedule 1", path: ["Schedule 1"] },
+    ]);
+  });
+
+  it("skips references to other instruments", () => {
+    expect(
+      findReferenceTargets("as defined in Section 409 of the Internal Revenue Code and Section 2 of this Agreement")
+    ).toEqual([{ label: "Section 2", path: ["2"] }]);
+  });
+
+  it("lists each target once", () => {
+    expect(findReferenceTargets("Section 3 applies. See Section 3.")).toHaveLength(1);
+  });
+});
+
+describe("linkCrossReferences", () => {
+  const chunks = [
+    { content: "Article 1. Definitions.", metadata: { sectionPath: "Article 1" } },
+    {
+      content: "9.3 Liability. Except as provided in Section 10.2(b) and Exhibit A, liability is capped.",
+      metadata: { sectionPath: "Article 9 > 9.3" },
+    },
+    { content: "10.2 Indemnities. (a) Each party ...", metadata: { sectionPath: "Article 10 > 10.2" } },
+    { content: "Exhibit A. Fee schedule.", metadata: { sectionPath: "Exhibit A" } },
+    { content: "Survival. Section 9.3 and Section 7 survive termination.", metadata: { sectionPath: "Article 11 > 11.1" } },
+  ];
+
+  it("resolves references to the chunks holding the target", () => {
+    const references = linkCrossReferences(chunks);
+
+    expect(references[1]).toEqual([
+      // The clause is not a heading of its own, so its section is used
+      { label: "Section 10.2(b)", chunkIndexes: [2] },
+      { label: "Exhibit A", chunkIndexes: [3] },
+    ]);
+  });
+
+  it("drops references it cannot resolve and references to the chunk itself", () => {
+    const references = linkCrossReferences(chunks);
+
+    expect(references[4]).toEqual([{ label: "Section 9.3", chunkIndexes: [1] }]);
+    expect(linkCrossReferences([{ content: "This Section 9.3 applies.", metadata: { sectionPath: "9.3" } }])).toEqual([[]]);
+  });
+
+  it("reads a bare section number as an article", () => {
+    const references = linkCrossReferences([
+      { content: "As described in Section 1.", metadata: { sectionPath: "Article 2" } },
+      ...chunks.slice(0, 1),
+    ]);
+
+    expect(references[0]).toEqual([{ label: "Section 1", chunkIndexes: [1] }]);
+  });
+});
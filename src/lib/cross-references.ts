@@ -0,0 +1,227 @@
+/**
+ * Cross-references between sections
+ * Clauses like "subject to Section 9.3" or "as set forth in Exhibit B" point
+ * elsewhere in the same document. References are resolved to the chunks they
+ * point at during ingestion, and followed one hop when answering so the model
+ * sees the referenced text too.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase";
+import { romanToNumber } from "@/lib/legal-structure";
+import type { Source } from "@/lib/groq";
+
+export interface ChunkReference {
+  label: string; // As written, e.g. "Section 9.3(b)"
+  chunkIndexes: number[];
+}
+
+interface ReferenceTarget {
+  label: string;
+  // Section path labels, as produced by parseLegalStructure, e.g. ["9.3", "(b)"]
+  path: string[];
+}
+
+const SECTION_NUMBER = `\\d{1,3}(?:\\.\\d{1,3})*(?:\\([a-z0-9]{1,4}\\))*`;
+
+// "Section 9.3(b)", "Sections 4.1 and 4.2", "§ 12", "Article VII"
+const SECTION_REFERENCE_PATTERN = new RegExp(
+  `(?<!\\w)(Sections?|Clauses?|Paragraphs?|Articles?|§§?)\\s*((?:${SECTION_NUMBER}|[IVXLC]+\\b)(?:\\s*(?:,|and|or)\\s*(?:${SECTION_NUMBER}))*)`,
+  "g"
+);
+
+// "Exhibit B", "Schedule 1", "ANNEX A"
+const ATTACHMENT_REFERENCE_PATTERN =
+  /\b(Schedule|Exhibit|Annex|Appendix|SCHEDULE|EXHIBIT|ANNEX|APPENDIX)\s+([A-Z]{1,2}|\d+(?:[.-]\d+)?)\b/g;
+
+// "Section 409 of the Internal Revenue Code" points outside the document
+const EXTERNAL_REFERENCE_PATTERN =
+  /^\s*(?:of|to|under)\s+(?:the\s+)?(?!this\b|these\b)(?:[A-Z][\w-]*\s+){1,4}(?:Agreement|Act|Code|Regulations?|Rules|Convention)\b/;
+
+const MAX_REFERENCES_PER_CHUNK = 5;
+const MAX_CHUNKS_PER_REFERENCE = 2;
+// Referenced passages added to an answer's context
+const MAX_REFERENCED_SOURCES = 5;
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Split "9.3(b)" into ["9.3", "(b)"]
+ */
+function sectionPath(number: string): string[] {
+  const [section, ...clauses] = number.split(/(?=\()/);
+  return [section, ...clauses];
+}
+
+/**
+ * Find the sections, articles and exhibits a passage refers to
+ */
+export function findReferenceTargets(content: string): ReferenceTarget[] {
+  const targets: Array<ReferenceTarget & { index: number }> = [];
+
+  for (const match of Array.from(content.matchAll(SECTION_REFERENCE_PATTERN))) {
+    const end = match.index! + match[0].length;
+    if (EXTERNAL_REFERENCE_PATTERN.test(content.slice(end, end + 80))) {
+      continue;
+    }
+
+    const keyword = match[1];
+    const numbers = match[2].split(/\s*(?:,|\band\b|\bor\b)\s*/).filter(Boolean);
+    for (const number of numbers) {
+      if (/^Article/i.test(keyword)) {
+        const article = /^\d+$/.test(number) ? Number(number) : romanToNumber(number);
+        if (article) {
+          targets.push({ label: `Article ${number}`, path: [`Article ${article}`], index: match.index! });
+        }
+      } else if (/^\d/.test(number)) {
+        const singular = keyword.startsWith("§") ? "Section" : capitalize(keyword.replace(/s$/, ""));
+        targets.push({ label: `${singular} ${number}`, path: sectionPath(number), index: match.index! });
+      }
+    }
+  }
+
+  for (const match of Array.from(content.matchAll(ATTACHMENT_REFERENCE_PATTERN))) {
+    const label = `${capitalize(match[1])} ${match[2]}`;
+    targets.push({ label, path: [label], index: match.index! });
+  }
+
+  const unique = new Map<string, ReferenceTarget>();
+  for (const { label, path } of targets.sort((a, b) => a.index - b.index)) {
+    if (!unique.has(label)) {
+      unique.set(label, { label, path });
+    }
+  }
+  return Array.from(unique.values());
+}
+
+/**
+ * Whether a section path contains the target path as a run of labels
+ */
+function containsPath(path: string[], target: string[]): boolean {
+  const start = path.indexOf(target[0]);
+  return start !== -1 && target.every((label, offset) => path[start + offset] === label);
+}
+
+/**
+ * Resolve the cross-references in each chunk to the chunks they point at.
+ * A reference to a clause that was not recognised as a heading falls back to
+ * its section, e.g. "Section 9.3(b)" to Section 9.3.
+ */
+export function linkCrossReferences(
+  chunks: Array<{
+    content: string;
+    metadata: { sectionPath?: string; sectionPathEnd?: string };
+  }>
+): ChunkReference[][] {
+  const paths = chunks.map((chunk) =>
+    [chunk.metadata.sectionPath, chunk.metadata.sectionPathEnd]
+      .filter((path): path is string => Boolean(path))
+      .map((path) => path.split(" > "))
+  );
+
+  const resolve = (target: string[]): number[] => {
+    for (let length = target.length; length > 0; length--) {
+      const prefix = target.slice(0, length);
+      const matches = paths.flatMap((chunkPaths, index) =>
+        chunkPaths.some((path) => containsPath(path, prefix)) ? [index] : []
+      );
+      if (matches.length > 0) {
+        return matches;
+      }
+    }
+    // A bare "Section 7" may be numbered as "Article 7"
+    return target.length === 1 && /^\d+$/.test(target[0])
+      ? resolve([`Article ${target[0]}`])
+      : [];
+  };
+
+  return chunks.map((chunk, chunkIndex) => {
+    const references: ChunkReference[] = [];
+    for (const target of findReferenceTargets(chunk.content)) {
+      const matches = resolve(target.path);
+      // "this Section 9" refers to the passage itself
+      if (matches.length === 0 || matches.includes(chunkIndex)) {
+        continue;
+      }
+      references.push({
+        label: target.label,
+        chunkIndexes: matches.slice(0, MAX_CHUNKS_PER_REFERENCE),
+      });
+      if (references.length === MAX_REFERENCES_PER_CHUNK) {
+        break;
+      }
+    }
+    return references;
+  });
+}
+
+/**
+ * Add the passages that retrieved sources refer to, one hop deep. Added
+ * sources are marked with the reference that pulled them in.
+ */
+export async function followCrossReferences(sources: Source[]): Promise<Source[]> {
+  const included = new Set(sources.map((source) => `${source.documentId}:${source.chunkIndex}`));
+  const wanted: Array<{ documentId: string; chunkIndex: number; from: Source; label: string }> = [];
+
+  for (const source of sources) {
+    for (const reference of source.references || []) {
+      for (const chunkIndex of reference.chunkIndexes) {
+        const key = `${source.documentId}:${chunkIndex}`;
+        if (!included.has(key) && wanted.length < MAX_REFERENCED_SOURCES) {
+          included.add(key);
+          wanted.push({ documentId: source.documentId, chunkIndex, from: source, label: reference.label });
+        }
+      }
+    }
+  }
+
+  if (wanted.length === 0) {
+    return sources;
+  }
+
+  const documentIds = Array.from(new Set(wanted.map((item) => item.documentId)));
+  const { data, error } = await supabaseAdmin
+    .from("document_chunks")
+    .select("document_id, chunk_index, content, metadata")
+    .in("document_id", documentIds)
+    .in(
+      "chunk_index",
+      Array.from(new Set(wanted.map((item) => item.chunkIndex)))
+    );
+
+  if (error) {
+    console.error("Error fetching referenced chunks:", error);
+    throw new Error("Failed to fetch referenced chunks");
+  }
+
+  const referenced: Source[] = [];
+  for (const item of wanted) {
+    const row = data?.find(
+      (chunk) => chunk.document_id === item.documentId && chunk.chunk_index === item.chunkIndex
+    );
+    if (!row) {
+      continue;
+    }
+    referenced.push({
+      documentId: item.documentId,
+      filename: item.from.filename,
+      content: row.content,
+      score: item.from.score,
+      chunkIndex: item.chunkIndex,
+      startChar: row.metadata?.startChar,
+      endChar: row.metadata?.endChar,
+      pageStart: row.metadata?.pageStart,
+      pageEnd: row.metadata?.pageEnd,
+      sectionPath: row.metadata?.sectionPath,
+      heading: row.metadata?.heading,
+      table: row.metadata?.table,
+      clauseTypes: row.metadata?.clauseTypes,
+      language: row.metadata?.language,
+      origin: item.from.origin,
+      referencedFrom: { label: item.label, chunkIndex: item.from.chunkIndex },
+    });
+  }
+
+  return [...sources, ...referenced];
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  chunkDocument,
+  cleanProcessedDocument,
+  extractTextFromTXT,
+  toSourceOffset,
+  validateFileContent,
+  type ProcessedDocument,
+} from "@/lib/document-processor";
+
+function processed(text: string): ProcessedDocument {
+  return { text, metadata: { filename: "test.txt", fileType: "txt", wordCount: 0 } };
+}
+
+const SOURCE = [
+  "ARTICLE 1   DEFINITIONS\r\n",
+  "\r\n",
+  "1.1  “Agreement” means   this agreement.\r\n",
+  "\r\n",
+  "12\r\n",
+  "\r\n",
+  "\r\n",
+  "\r\n",
+  "1.2 ‘Party’ means​ a party to it.\r\n",
+].join("");
+
+describe("cleanProcessedDocument", () => {
+  it("maps every cleaned character back to the character it came from", () => {
+    const { text, sourceMap } = cleanProcessedDocument(processed(SOURCE));
+
+    expect(text).not.toContain("\r");
+    expect(text).not.toContain("   ");
+    expect(sourceMap.length).toBe(text.length);
+    for (let position = 0; position < text.length; position++) {
+      const char = text[position];
+      if (/\w/.test(char)) {
+        expect(SOURCE[toSourceOffset(sourceMap, position)]).toBe(char);
+      }
+    }
+  });
+
+  it("keeps the map small when little is changed", () => {
+    const source = "Clause text that needs no cleaning. ".repeat(500).trim();
+    const { text, sourceMap } = cleanProcessedDocument(processed(source));
+
+    expect(text).toBe(source);
+    expect(sourceMap.cleanStarts).toEqual([0]);
+    expect(toSourceOffset(sourceMap, 1000)).toBe(1000);
+  });
+
+  it("maps positions after removed page numbers past them", () => {
+    const source = "First page ends here.\n7\nSecond page starts here.";
+    const { text, sourceMap } = cleanProcessedDocument(processed(source));
+
+    expect(text).toBe("First page ends here.\nSecond page starts here.");
+    const second = text.indexOf("Second");
+    expect(toSourceOffset(sourceMap, second)).toBe(source.indexOf("Second"));
+  });
+});
+
+describe("chunkDocument", () => {
+  it("gives chunk ranges in the extracted text when passed a source map", async () => {
+    const { text, sourceMap } = cleanProcessedDocument(processed(SOURCE));
+    const chunks = await chunkDocument(text, "test.txt", { sourceMap, chunkSize: 60, chunkOverlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(0);
+    for (const chunk of chunks) {
+      const original = SOURCE.slice(chunk.metadata.startChar, chunk.metadata.endChar);
+      const words = (value: string) => value.match(/\w+/g) ?? [];
+      expect(words(original)).toEqual(words(chunk.content));
+    }
+  });
+});
+
+describe("validateFileContent", () => {
+  it("accepts files whose content matches their type", () => {
+    expect(validateFileContent(Buffer.from("%PDF-1.7"), "application/pdf", "lease.pdf")).toBeUndefined();
+    expect(validateFileContent(Buffer.from("# Notes"), "", "notes.md")).toBeUndefined();
+  });
+
+  it("rejects renamed files", () => {
+    expect(validateFileContent(Buffer.from("MZ\x00\x00"), "application/pdf", "lease.pdf")).toBe(
+      "File content does not match its PDF type (found binary data)"
+    );
+    expect(validateFileContent(Buffer.from("%PDF-1.7"), "text/plain", "notes.txt")).toMatch(
+      /found PDF\)$/
+    );
+  });
+
+  it("rejects unsupported types", () => {
+    expect(validateFileContent(Buffer.from("data"), "application/x-msdownload", "setup.exe")).toBe(
+      "File type not supported"
+    );
+  });
+});
+
+describe("extractTextFromTXT", () => {
+  it("decodes UTF-16 text by its byte order mark", async () => {
+    const text = "Clause 1 – Définitions";
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]);
+
+    expect((await extractTextFromTXT(buffer)).text).toBe(text);
+  });
+});
@@ -1,67 +1,394 @@
 import mammoth from "mammoth";
+import JSZip from "jszip";
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { parseLegalStructure, formatSectionPath } from "@/lib/legal-structure";
+import type { ChunkReference } from "@/lib/cross-references";
+import {
+  getOcrProvider,
+  renderPDFPages,
+  renderTIFFPages,
+  OCR_MIN_PAGE_CHARS,
+} from "@/lib/ocr";
+import {
+  rtfToText,
+  htmlToText,
+  markdownToText,
+  odtXmlToText,
+  docxHtmlToText,
+  resolveDocxListLabels,
+  type DocumentHeading,
+} from "@/lib/text-formats";
+import {
+  detectTableLines,
+  renderTableChunks,
+  type DocumentTable,
+  type PositionedText,
+  type TableData,
+} from "@/lib/tables";
+import {
+  parseEmail,
+  splitMbox,
+  formatEmailHeaders,
+  type EmailAttachment,
+  type EmailHeaders,
+} from "@/lib/email-parser";
+import { checkFileFormat, decodeText, type FileFormat } from "@/lib/file-sniffing";
+
+/**
+ * A file that cannot be processed as uploaded, e.g. one whose content does not
+ * match its type or that exceeds an extraction limit. Retrying will not help.
+ */
+export class UnprocessableFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnprocessableFileError";
+  }
+}
+
+export interface ExtractionOptions {
+  // Larger documents are rejected before their pages are rendered or OCRed
+  maxPages?: number;
+}
+
+function checkPageCount(pageCount: number, options: ExtractionOptions): void {
+  if (options.maxPages && pageCount > options.maxPages) {
+    throw new UnprocessableFileError(
+      `Document has ${pageCount} pages, more than the ${options.maxPages}-page limit`
+    );
+  }
+}
+
+/**
+ * Character range of a single page within a document's text
+ */
+export interface PageSpan {
+  pageNumber: number;
+  startChar: number;
+  endChar: number;
+}
 
 export interface ProcessedDocument {
   text: string;
+  pages?: PageSpan[];
+  // Headings from formats that mark them up (DOCX), with their position in text
+  headings?: DocumentHeading[];
+  // Tables from PDF column layouts and DOCX tables, with their position in text
+  tables?: DocumentTable[];
+  // Embedded files (email attachments, mailbox messages) to index as child documents
+  attachments?: EmailAttachment[];
   metadata: {
     filename: string;
     fileType: string;
     pageCount?: number;
     wordCount: number;
+    ocr?: OcrMetadata;
+    email?: EmailHeaders;
+    messageCount?: number;
   };
 }
 
+/**
+ * Pages whose text came from OCR, with the engine's confidence (0-100)
+ */
+export interface OcrMetadata {
+  provider: string;
+  pages: Array<{ pageNumber: number; confidence: number }>;
+}
+
 export interface DocumentChunk {
   content: string;
   metadata: {
     chunkIndex: number;
+    // Range of the passage in the extracted (uncleaned) document text
     startChar: number;
     endChar: number;
     filename: string;
+    pageStart?: number;
+    pageEnd?: number;
+    // Offsets of startChar within pageStart and endChar within pageEnd
+    startCharInPage?: number;
+    endCharInPage?: number;
+    // Heading path of the first and (when different) last clause in the chunk
+    sectionPath?: string;
+    sectionPathEnd?: string;
+    // Document headings (e.g. DOCX heading styles) the chunk starts under
+    heading?: string;
+    // Rows of a table chunk; rowStart is set when a long table was split
+    table?: TableData & { rowStart?: number };
+    // Clause types from the clause taxonomy, set after chunking
+    clauseTypes?: string[];
+    // Chunks holding the sections and exhibits this chunk refers to, set after chunking
+    references?: ChunkReference[];
+    // ISO 639-1 code of the chunk's language, set after chunking
+    language?: string;
   };
 }
 
+const PAGE_SEPARATOR = "\n\n";
+
+// The parts of the pdf.js page that pdf-parse passes to pagerender which are used here
+interface PDFPageData {
+  pageNumber: number;
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{
+    items: Array<{ str: string; transform: number[]; width?: number; height?: number }>;
+  }>;
+}
+
+/**
+ * Join page texts into a single string, recording where each page starts and ends
+ */
+function joinPages(pageTexts: string[]): { text: string; pages: PageSpan[] } {
+  const pages: PageSpan[] = [];
+  let text = "";
+
+  pageTexts.forEach((pageText, index) => {
+    if (index > 0) {
+      text += PAGE_SEPARATOR;
+    }
+    pages.push({
+      pageNumber: index + 1,
+      startChar: text.length,
+      endChar: text.length + pageText.length,
+    });
+    text += pageText;
+  });
+
+  return { text, pages };
+}
+
+/**
+ * Render a PDF page to text the same way pdf-parse does by default,
+ * breaking lines whenever the vertical position changes. Lines that share a
+ * column layout are returned as tables and rendered as "cell | cell" rows.
+ */
+async function renderPDFPage(
+  pageData: PDFPageData
+): Promise<{ text: string; tables: Array<Omit<DocumentTable, "pageNumber">> }> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  const lines: PositionedText[][] = [];
+  let lastY: number | undefined;
+  for (const item of textContent.items) {
+    const positioned = {
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width ?? 0,
+      height: item.height || Math.abs(item.transform[3]) || 0,
+    };
+    if ((lastY === item.transform[5] || !lastY) && lines.length > 0) {
+      lines[lines.length - 1].push(positioned);
+    } else {
+      lines.push([positioned]);
+    }
+    lastY = item.transform[5];
+  }
+
+  const detected = detectTableLines(lines);
+  const tableAt = new Map(detected.tables.map((table) => [table.firstLine, table]));
+  const tables: Array<Omit<DocumentTable, "pageNumber">> = [];
+  let text = "";
+
+  for (let index = 0; index < lines.length; index++) {
+    if (index > 0) {
+      text += "\n";
+    }
+
+    const table = tableAt.get(index);
+    if (!table) {
+      text += lines[index].map((item) => item.str).join("");
+      continue;
+    }
+
+    const startChar = text.length;
+    const rows = detected.cells.slice(table.firstLine, table.lastLine + 1);
+    text += rows.map((cells) => cells.join(" | ")).join("\n");
+    tables.push({ headers: rows[0], rows: rows.slice(1), startChar, endChar: text.length });
+    index = table.lastLine;
+  }
+
+  return { text, tables };
+}
+
+/**
+ * OCR every page with little or no extractable text, replacing its text in place.
+ * OCR failures are logged rather than thrown so text-based pages still process.
+ */
+async function ocrScannedPages(
+  buffer: Buffer,
+  pageTexts: string[]
+): Promise<OcrMetadata | undefined> {
+  const scannedPages = pageTexts
+    .map((text, index) => ({ pageNumber: index + 1, length: text.replace(/\s/g, "").length }))
+    .filter((page) => page.length < OCR_MIN_PAGE_CHARS)
+    .map((page) => page.pageNumber);
+
+  const provider = scannedPages.length > 0 ? getOcrProvider() : null;
+  if (!provider) {
+    return undefined;
+  }
+
+  try {
+    const images = await renderPDFPages(buffer, scannedPages);
+    const rendered = scannedPages.filter((pageNumber) => images.has(pageNumber));
+    const results = await provider.recognize(rendered.map((pageNumber) => images.get(pageNumber)!));
+    const pages: OcrMetadata["pages"] = [];
+
+    rendered.forEach((pageNumber, index) => {
+      pageTexts[pageNumber - 1] = results[index].text;
+      pages.push({ pageNumber, confidence: Math.round(results[index].confidence) });
+    });
+
+    return { provider: provider.name, pages };
+  } catch (error) {
+    console.error("Error running OCR on scanned PDF pages:", error);
+    return undefined;
+  }
+}
+
 /**
  * Extract text from PDF file
  */
 export async function extractTextFromPDF(
-  buffer: Buffer
+  buffer: Buffer,
+  options: ExtractionOptions = {}
 ): Promise<ProcessedDocument> {
   try {
     // Dynamically import pdf-parse ONLY when this function is called
     const pdf = (await import("pdf-parse")).default;
-    const data = await pdf(buffer);
+
+    // pdf-parse only returns the concatenated text, so capture each page as it is rendered
+    const pageTexts: string[] = [];
+    const pageTables: Array<Array<Omit<DocumentTable, "pageNumber">>> = [];
+    const data = await pdf(buffer, {
+      // One page past the limit is enough to tell the document is too long
+      ...(options.maxPages && { max: options.maxPages + 1 }),
+      pagerender: async (pageData: PDFPageData) => {
+        const { text: pageText, tables } = await renderPDFPage(pageData);
+        pageTexts[pageData.pageNumber - 1] = pageText;
+        pageTables[pageData.pageNumber - 1] = tables;
+        return pageText;
+      },
+    });
+
+    checkPageCount(data.numpages, options);
+
+    const renderedPages = Array.from(
+      { length: data.numrender },
+      (_, i) => pageTexts[i] ?? ""
+    );
+    const ocr = await ocrScannedPages(buffer, renderedPages);
+    const { text, pages } = joinPages(renderedPages);
+
+    // Table positions are relative to their page; OCR text replaces a page's tables
+    const ocrPages = new Set(ocr?.pages.map((page) => page.pageNumber));
+    const tables: DocumentTable[] = pages.flatMap((page) =>
+      ocrPages.has(page.pageNumber)
+        ? []
+        : (pageTables[page.pageNumber - 1] || []).map((table) => ({
+            ...table,
+            startChar: page.startChar + table.startChar,
+            endChar: page.startChar + table.endChar,
+            pageNumber: page.pageNumber,
+          }))
+    );
 
     return {
-      text: data.text,
+      text,
+      pages,
+      ...(tables.length > 0 && { tables }),
       metadata: {
         filename: "",
         fileType: "pdf",
         pageCount: data.numpages,
-        wordCount: data.text.split(/\s+/).length,
+        wordCount: text.split(/\s+/).length,
+        ...(ocr && { ocr }),
       },
     };
   } catch (error) {
+    if (error instanceof UnprocessableFileError) {
+      throw error;
+    }
     console.error("Error extracting PDF text:", error);
     throw new Error("Failed to extract text from PDF");
   }
 }
 
+// The parts of mammoth's document tree that list labels are written into
+interface MammothElement {
+  type: string;
+  children?: MammothElement[];
+  value?: string;
+}
+
 /**
- * Extract text from DOCX file
+ * Collect paragraphs in the order mammoth transforms them (children before parents)
+ */
+function collectMammothParagraphs(element: MammothElement, paragraphs: MammothElement[] = []) {
+  for (const child of element.children ?? []) {
+    collectMammothParagraphs(child, paragraphs);
+    if (child.type === "paragraph") {
+      paragraphs.push(child);
+    }
+  }
+  return paragraphs;
+}
+
+/**
+ * Write Word's list numbers into the paragraphs that carry them, since
+ * mammoth's HTML keeps the lists but not their numbers
+ */
+async function docxListLabelTransform(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = await zip.file("word/document.xml")?.async("string");
+  const numberingXml = await zip.file("word/numbering.xml")?.async("string");
+  const labels = documentXml && numberingXml ? resolveDocxListLabels(documentXml, numberingXml) : [];
+
+  return (document: MammothElement): MammothElement => {
+    const paragraphs = collectMammothParagraphs(document);
+    // Nested paragraphs (e.g. in text boxes) can break the match with
+    // document.xml; leave the numbers out rather than put them on the wrong paragraph
+    if (paragraphs.length !== labels.length) {
+      return document;
+    }
+    paragraphs.forEach((paragraph, index) => {
+      const label = labels[index];
+      if (label) {
+        paragraph.children = [{ type: "text", value: `${label} ` }, ...(paragraph.children ?? [])];
+      }
+    });
+    return document;
+  };
+}
+
+/**
+ * Extract text from DOCX file, keeping its structure
  */
 export async function extractTextFromDOCX(
   buffer: Buffer
 ): Promise<ProcessedDocument> {
   try {
-    const result = await mammoth.extractRawText({ buffer });
+    // HTML keeps the heading levels, lists, tables and footnotes that raw text loses
+    const result = await mammoth.convertToHtml(
+      { buffer },
+      { transformDocument: await docxListLabelTransform(buffer) }
+    );
+    const { text, headings, tables } = docxHtmlToText(result.value);
 
     return {
-      text: result.value,
+      text,
+      ...(headings.length > 0 && { headings }),
+      ...(tables.length > 0 && { tables }),
       metadata: {
         filename: "",
         fileType: "docx",
-        wordCount: result.value.split(/\s+/).length,
+        wordCount: text.split(/\s+/).length,
       },
     };
   } catch (error) {
@@ -77,7 +404,7 @@ export async function extractTextFromTXT(
   buffer: Buffer
 ): Promise<ProcessedDocument> {
   try {
-    const text = buffer.toString("utf-8");
+    const text = decodeText(buffer);
 
     return {
       text,
@@ -94,50 +421,480 @@ export async function extractTextFromTXT(
 }
 
 /**
- * Process document based on file type
+ * Extract text from a scanned image (PNG, JPEG or multi-page TIFF) using OCR
+ */
+export async function extractTextFromImage(
+  buffer: Buffer,
+  imageType: "png" | "jpeg" | "tiff",
+  options: ExtractionOptions = {}
+): Promise<ProcessedDocument> {
+  const provider = getOcrProvider();
+  if (!provider) {
+    throw new Error("OCR is disabled, so image files cannot be processed");
+  }
+
+  try {
+    const images = imageType === "tiff" ? await renderTIFFPages(buffer) : [buffer];
+    checkPageCount(images.length, options);
+    const results = await provider.recognize(images);
+    const pageTexts = results.map((result) => result.text);
+    const ocrPages: OcrMetadata["pages"] = results.map((result, index) => ({
+      pageNumber: index + 1,
+      confidence: Math.round(result.confidence),
+    }));
+
+    const { text, pages } = joinPages(pageTexts);
+
+    return {
+      text,
+      pages,
+      metadata: {
+        filename: "",
+        fileType: imageType,
+        pageCount: images.length,
+        wordCount: text.split(/\s+/).length,
+        ocr: { provider: provider.name, pages: ocrPages },
+      },
+    };
+  } catch (error) {
+    if (error instanceof UnprocessableFileError) {
+      throw error;
+    }
+    console.error("Error extracting image text:", error);
+    throw new Error("Failed to extract text from image");
+  }
+}
+
+/**
+ * Build a ProcessedDocument for formats that yield a single block of text
+ */
+function textDocument(text: string, fileType: string): ProcessedDocument {
+  return {
+    text,
+    metadata: {
+      filename: "",
+      fileType,
+      wordCount: text.split(/\s+/).length,
+    },
+  };
+}
+
+/**
+ * Extract text from RTF file
+ */
+export async function extractTextFromRTF(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    // RTF is 7-bit ASCII; other characters arrive as \'hh or \u escapes
+    return textDocument(rtfToText(buffer.toString("latin1")), "rtf");
+  } catch (error) {
+    console.error("Error extracting RTF text:", error);
+    throw new Error("Failed to extract text from RTF");
+  }
+}
+
+/**
+ * Extract text from HTML file (e.g. a saved statute web page)
+ */
+export async function extractTextFromHTML(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    return textDocument(htmlToText(decodeText(buffer)), "html");
+  } catch (error) {
+    console.error("Error extracting HTML text:", error);
+    throw new Error("Failed to extract text from HTML");
+  }
+}
+
+/**
+ * Extract text from Markdown file
+ */
+export async function extractTextFromMarkdown(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    return textDocument(markdownToText(decodeText(buffer)), "md");
+  } catch (error) {
+    console.error("Error extracting Markdown text:", error);
+    throw new Error("Failed to extract text from Markdown");
+  }
+}
+
+/**
+ * Extract text from OpenDocument text (ODT) file
+ */
+export async function extractTextFromODT(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const content = await zip.file("content.xml")?.async("string");
+    if (content === undefined) {
+      throw new Error("content.xml not found");
+    }
+
+    return textDocument(odtXmlToText(content), "odt");
+  } catch (error) {
+    console.error("Error extracting ODT text:", error);
+    throw new Error("Failed to extract text from ODT");
+  }
+}
+
+/**
+ * Extract text from legacy Word (.doc) file
+ */
+export async function extractTextFromDOC(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    const WordExtractor = (await import("word-extractor")).default;
+    const extracted = await new WordExtractor().extract(buffer);
+
+    const footnotes = extracted.getFootnotes().trim();
+    const text = footnotes
+      ? `${extracted.getBody()}\n\n${footnotes}`
+      : extracted.getBody();
+
+    return textDocument(text, "doc");
+  } catch (error) {
+    console.error("Error extracting DOC text:", error);
+    throw new Error("Failed to extract text from DOC");
+  }
+}
+
+/**
+ * Extract text from an email (.eml), returning its attachments for separate indexing
+ */
+export async function extractTextFromEML(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    const email = await parseEmail(buffer);
+    const processed = textDocument(
+      `${formatEmailHeaders(email.headers)}\n\n${email.body}`,
+      "eml"
+    );
+
+    return {
+      ...processed,
+      attachments: email.attachments,
+      metadata: { ...processed.metadata, email: email.headers },
+    };
+  } catch (error) {
+    console.error("Error extracting email text:", error);
+    throw new Error("Failed to extract text from email");
+  }
+}
+
+/**
+ * Extract an index of the messages in a mailbox (.mbox); each message is
+ * returned as an attachment so it is indexed as its own email document
+ */
+export async function extractTextFromMBOX(
+  buffer: Buffer
+): Promise<ProcessedDocument> {
+  try {
+    const messages = splitMbox(buffer);
+    const summaries: string[] = [];
+
+    for (const message of messages) {
+      const { headers } = await parseEmail(message);
+      summaries.push(formatEmailHeaders(headers));
+    }
+
+    const processed = textDocument(summaries.join("\n\n"), "mbox");
+
+    return {
+      ...processed,
+      attachments: messages.map((content, index) => ({
+        filename: `message-${index + 1}.eml`,
+        contentType: "message/rfc822",
+        content,
+      })),
+      metadata: { ...processed.metadata, messageCount: messages.length },
+    };
+  } catch (error) {
+    console.error("Error extracting mailbox text:", error);
+    throw new Error("Failed to extract text from mailbox");
+  }
+}
+
+/**
+ * A file format the pipeline can extract text from
+ */
+export interface DocumentExtractor {
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+  // Format the file's content must have, checked before extraction
+  format: FileFormat;
+  extract: (buffer: Buffer, options: ExtractionOptions) => Promise<ProcessedDocument>;
+}
+
+const extractorRegistry: DocumentExtractor[] = [];
+
+/**
+ * Register an extractor; upload validation and processing both consult the registry
+ */
+export function registerExtractor(extractor: DocumentExtractor): void {
+  extractorRegistry.push(extractor);
+}
+
+registerExtractor({
+  label: "PDF",
+  mimeTypes: ["application/pdf"],
+  extensions: ["pdf"],
+  format: "pdf",
+  extract: extractTextFromPDF,
+});
+registerExtractor({
+  label: "DOCX",
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  extensions: ["docx"],
+  format: "docx",
+  extract: extractTextFromDOCX,
+});
+registerExtractor({
+  label: "DOC",
+  mimeTypes: ["application/msword"],
+  extensions: ["doc"],
+  format: "ole",
+  extract: extractTextFromDOC,
+});
+registerExtractor({
+  label: "RTF",
+  mimeTypes: ["application/rtf", "text/rtf"],
+  extensions: ["rtf"],
+  format: "rtf",
+  extract: extractTextFromRTF,
+});
+registerExtractor({
+  label: "ODT",
+  mimeTypes: ["application/vnd.oasis.opendocument.text"],
+  extensions: ["odt"],
+  format: "odt",
+  extract: extractTextFromODT,
+});
+registerExtractor({
+  label: "TXT",
+  mimeTypes: ["text/plain"],
+  extensions: ["txt"],
+  format: "text",
+  extract: extractTextFromTXT,
+});
+registerExtractor({
+  label: "Markdown",
+  mimeTypes: ["text/markdown", "text/x-markdown"],
+  extensions: ["md", "markdown"],
+  format: "text",
+  extract: extractTextFromMarkdown,
+});
+registerExtractor({
+  label: "HTML",
+  mimeTypes: ["text/html", "application/xhtml+xml"],
+  extensions: ["html", "htm", "xhtml"],
+  format: "text",
+  extract: extractTextFromHTML,
+});
+registerExtractor({
+  label: "Email",
+  mimeTypes: ["message/rfc822"],
+  extensions: ["eml"],
+  format: "text",
+  extract: extractTextFromEML,
+});
+registerExtractor({
+  label: "Mailbox",
+  mimeTypes: ["application/mbox"],
+  extensions: ["mbox"],
+  format: "text",
+  extract: extractTextFromMBOX,
+});
+registerExtractor({
+  label: "PNG",
+  mimeTypes: ["image/png"],
+  extensions: ["png"],
+  format: "png",
+  extract: (buffer, options) => extractTextFromImage(buffer, "png", options),
+});
+registerExtractor({
+  label: "JPEG",
+  mimeTypes: ["image/jpeg"],
+  extensions: ["jpg", "jpeg"],
+  format: "jpeg",
+  extract: (buffer, options) => extractTextFromImage(buffer, "jpeg", options),
+});
+registerExtractor({
+  label: "TIFF",
+  mimeTypes: ["image/tiff"],
+  extensions: ["tif", "tiff"],
+  format: "tiff",
+  extract: (buffer, options) => extractTextFromImage(buffer, "tiff", options),
+});
+
+/**
+ * Find the extractor for a MIME type or bare extension (e.g. "pdf"), falling
+ * back to the filename's extension when the browser sends an unknown type
+ */
+export function findExtractor(
+  fileType: string,
+  filename?: string
+): DocumentExtractor | undefined {
+  const type = fileType.toLowerCase();
+  const byType = extractorRegistry.find(
+    (extractor) => extractor.mimeTypes.includes(type) || extractor.extensions.includes(type)
+  );
+  if (byType || !filename) {
+    return byType;
+  }
+
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return extractorRegistry.find((extractor) => extractor.extensions.includes(extension));
+}
+
+/**
+ * Resolve the MIME type to record for a file. Browsers send an empty or
+ * generic type for formats like .md or .rtf, so fall back to the extractor's
+ * canonical type; returns undefined for unsupported files.
+ */
+export function resolveFileType(
+  fileType: string,
+  filename: string
+): string | undefined {
+  const extractor = findExtractor(fileType, filename);
+  if (!extractor) {
+    return undefined;
+  }
+  return extractor.mimeTypes.includes(fileType) ? fileType : extractor.mimeTypes[0];
+}
+
+/**
+ * List every registered format, e.g. for error messages and file pickers
+ */
+export function getSupportedFileTypes(): {
+  labels: string[];
+  mimeTypes: string[];
+  extensions: string[];
+} {
+  return {
+    labels: extractorRegistry.map((extractor) => extractor.label),
+    mimeTypes: extractorRegistry.flatMap((extractor) => extractor.mimeTypes),
+    extensions: extractorRegistry.flatMap((extractor) => extractor.extensions),
+  };
+}
+
+/**
+ * Check a file's content against the format its type or extension claims,
+ * returning the reason when they do not match
+ */
+export function validateFileContent(
+  buffer: Buffer,
+  fileType: string,
+  filename: string
+): string | undefined {
+  const extractor = findExtractor(fileType, filename);
+  if (!extractor) {
+    return "File type not supported";
+  }
+  return checkFileFormat(buffer, extractor.format, extractor.label);
+}
+
+/**
+ * Process document based on file type. Run untrusted files through
+ * extractInSandbox rather than calling this directly.
  */
 export async function processDocument(
   buffer: Buffer,
   filename: string,
-  fileType: string
+  fileType: string,
+  options: ExtractionOptions = {}
 ): Promise<ProcessedDocument> {
-  let result: ProcessedDocument;
+  const extractor = findExtractor(fileType, filename);
+  if (!extractor) {
+    throw new Error(`Unsupported file type: ${fileType}`);
+  }
 
-  switch (fileType.toLowerCase()) {
-    case "pdf":
-    case "application/pdf":
-      result = await extractTextFromPDF(buffer);
-      break;
-    case "docx":
-    case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-      result = await extractTextFromDOCX(buffer);
-      break;
-    case "txt":
-    case "text/plain":
-      result = await extractTextFromTXT(buffer);
-      break;
-    default:
-      throw new Error(`Unsupported file type: ${fileType}`);
+  const mismatch = checkFileFormat(buffer, extractor.format, extractor.label);
+  if (mismatch) {
+    throw new UnprocessableFileError(mismatch);
   }
 
+  const result = await extractor.extract(buffer, options);
+  checkPageCount(result.metadata.pageCount ?? 0, options);
   result.metadata.filename = filename;
   return result;
 }
 
 /**
- * Chunk document text for vector storage
- * Uses overlapping chunks to maintain context
+ * Find the first and last page overlapping a character range, along with
+ * where the range starts and ends within those pages
  */
-export async function chunkDocument(
-  text: string,
-  filename: string,
-  options: {
-    chunkSize?: number;
-    chunkOverlap?: number;
-  } = {}
-): Promise<DocumentChunk[]> {
-  const { chunkSize = 1000, chunkOverlap = 200 } = options;
+export function findPageRange(
+  pages: PageSpan[],
+  startChar: number,
+  endChar: number
+):
+  | {
+      pageStart: number;
+      pageEnd: number;
+      startCharInPage: number;
+      endCharInPage: number;
+    }
+  | undefined {
+  const overlapping = pages.filter(
+    (page) => page.endChar > startChar && page.startChar < endChar
+  );
+
+  if (overlapping.length === 0) {
+    return undefined;
+  }
+
+  const first = overlapping[0];
+  const last = overlapping[overlapping.length - 1];
+
+  return {
+    pageStart: first.pageNumber,
+    pageEnd: last.pageNumber,
+    startCharInPage: Math.max(startChar - first.startChar, 0),
+    endCharInPage: Math.min(endChar, last.endChar) - last.startChar,
+  };
+}
+
+/**
+ * Format the headings open at a position, e.g. "Part 2 > Definitions"
+ */
+function findHeadingPath(headings: DocumentHeading[], position: number): string | undefined {
+  const open: DocumentHeading[] = [];
+  for (const heading of headings) {
+    if (heading.startChar > position) {
+      break;
+    }
+    while (open.length > 0 && open[open.length - 1].level >= heading.level) {
+      open.pop();
+    }
+    open.push(heading);
+  }
+  return formatSectionPath(open.map((heading) => heading.text));
+}
+
+interface TextSpan {
+  content: string;
+  startChar: number;
+  endChar: number;
+}
 
+/**
+ * Split text with overlapping recursive splits, locating each split in the text.
+ * Offsets are shifted by baseOffset when the text is a slice of a larger document.
+ */
+async function splitRecursively(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number,
+  baseOffset: number = 0
+): Promise<TextSpan[]> {
   // Create text splitter optimized for legal documents
   const splitter = new RecursiveCharacterTextSplitter({
     chunkSize,
@@ -154,39 +911,276 @@ export async function chunkDocument(
 
   const chunks = await splitter.createDocuments([text]);
 
-  return chunks.map((chunk, index) => ({
-    content: chunk.pageContent,
-    metadata: {
-      chunkIndex: index,
-      startChar: index * (chunkSize - chunkOverlap),
-      endChar: index * (chunkSize - chunkOverlap) + chunk.pageContent.length,
-      filename,
-    },
-  }));
+  // Chunks are trimmed substrings in document order and overlap the previous
+  // chunk by at most chunkOverlap characters, so locate each one from there
+  let previousStart = -1;
+  let previousEnd = 0;
+
+  return chunks.map((chunk) => {
+    const searchFrom = Math.max(previousStart + 1, previousEnd - chunkOverlap);
+    let found = text.indexOf(chunk.pageContent, searchFrom);
+    if (found === -1) {
+      found = text.indexOf(chunk.pageContent, previousStart + 1);
+    }
+    const startChar = found === -1 ? searchFrom : found;
+    const endChar = startChar + chunk.pageContent.length;
+    previousStart = startChar;
+    previousEnd = endChar;
+
+    return {
+      content: chunk.pageContent,
+      startChar: baseOffset + startChar,
+      endChar: baseOffset + endChar,
+    };
+  });
+}
+
+/**
+ * Position in the source text of a position in cleaned text
+ */
+export function toSourceOffset(sourceMap: SourceMap, position: number): number {
+  // Last run starting at or before the position
+  let low = 0;
+  let high = sourceMap.cleanStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (sourceMap.cleanStarts[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return sourceMap.sourceStarts[low] + position - sourceMap.cleanStarts[low];
 }
 
+/**
+ * Position in cleaned text of a position in the source text: the first cleaned
+ * character at or after it, or the end of the cleaned text
+ */
+function toCleanedOffset(sourceMap: SourceMap, position: number): number {
+  const { cleanStarts, sourceStarts, length } = sourceMap;
+  const runEnd = (run: number) =>
+    sourceStarts[run] + (run + 1 < cleanStarts.length ? cleanStarts[run + 1] : length) - cleanStarts[run];
+
+  // First run ending after the position
+  let low = 0;
+  let high = cleanStarts.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (runEnd(middle) <= position) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  if (low === cleanStarts.length) {
+    return length;
+  }
+  return cleanStarts[low] + Math.max(0, position - sourceStarts[low]);
+}
+
+/**
+ * Remove table ranges from a segment, returning the trimmed pieces left over
+ */
+function cutTables(
+  text: string,
+  segment: { startChar: number; endChar: number },
+  tables: Array<{ startChar: number; endChar: number }>
+): Array<{ startChar: number; endChar: number }> {
+  const pieces: Array<{ startChar: number; endChar: number }> = [];
+  let from = segment.startChar;
+
+  const push = (startChar: number, endChar: number) => {
+    const content = text.slice(startChar, endChar);
+    const trimmedStart = startChar + (content.length - content.trimStart().length);
+    const trimmedEnd = startChar + content.trimEnd().length;
+    if (trimmedEnd > trimmedStart) {
+      pieces.push({ startChar: trimmedStart, endChar: trimmedEnd });
+    }
+  };
+
+  for (const table of tables) {
+    if (table.endChar <= from || table.startChar >= segment.endChar) continue;
+    push(from, Math.max(from, table.startChar));
+    from = Math.max(from, table.endChar);
+  }
+  push(from, segment.endChar);
+
+  return pieces;
+}
+
+/**
+ * Chunk document text for vector storage
+ * Splits along legal structure (articles, sections, clauses, recitals, exhibits)
+ * so clauses stay intact; clauses longer than chunkSize fall back to
+ * overlapping splits that keep the clause's section path.
+ *
+ * Tables become chunks of their own, rendered with their column headers on
+ * every row. They may run to twice chunkSize to stay whole; longer tables are
+ * split by rows.
+ *
+ * When text has been cleaned, pass the sourceMap from cleanProcessedDocument so
+ * chunk ranges, pages, headings and tables refer to the extracted text rather
+ * than the cleaned one.
+ */
+export async function chunkDocument(
+  text: string,
+  filename: string,
+  options: {
+    chunkSize?: number;
+    chunkOverlap?: number;
+    pages?: PageSpan[];
+    headings?: DocumentHeading[];
+    tables?: DocumentTable[];
+    sourceMap?: SourceMap;
+  } = {}
+): Promise<DocumentChunk[]> {
+  const { chunkSize = 1000, chunkOverlap = 200, pages, headings, sourceMap } = options;
+
+  // Table ranges in the chunked text
+  const tables = (options.tables || [])
+    .map((table) => ({
+      table,
+      startChar: sourceMap ? toCleanedOffset(sourceMap, table.startChar) : table.startChar,
+      endChar: sourceMap ? toCleanedOffset(sourceMap, table.endChar) : table.endChar,
+    }))
+    .filter((table) => table.endChar > table.startChar)
+    .sort((a, b) => a.startChar - b.startChar);
+
+  type Span = TextSpan & { path: string[]; pathEnd: string[]; table?: DocumentChunk["metadata"]["table"] };
+  const spans: Span[] = [];
+  let current: { startChar: number; endChar: number; path: string[]; pathEnd: string[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      spans.push({
+        ...current,
+        content: text.slice(current.startChar, current.endChar),
+      });
+      current = null;
+    }
+  };
+
+  // Clause pieces outside tables, and the tables themselves, in document order
+  const segments = parseLegalStructure(text);
+  const units: Array<{
+    startChar: number;
+    endChar: number;
+    path: string[];
+    table?: DocumentTable;
+  }> = [
+    ...segments.flatMap((segment) =>
+      cutTables(text, segment, tables).map((piece) => ({ ...piece, path: segment.path }))
+    ),
+    ...tables.map((table) => ({
+      ...table,
+      path:
+        segments.find(
+          (segment) => segment.startChar <= table.startChar && table.startChar < segment.endChar
+        )?.path ?? [],
+    })),
+  ].sort((a, b) => a.startChar - b.startChar);
+
+  for (const unit of units) {
+    const { table } = unit;
+    if (table) {
+      flush();
+      const parts = renderTableChunks(table, chunkSize * 2);
+      spans.push(
+        ...parts.map((part) => ({
+          content: part.content,
+          startChar: unit.startChar,
+          endChar: unit.endChar,
+          path: unit.path,
+          pathEnd: unit.path,
+          table: {
+            headers: table.headers,
+            rows: table.rows.slice(part.rowStart, part.rowEnd),
+            ...(parts.length > 1 && { rowStart: part.rowStart }),
+          },
+        }))
+      );
+      continue;
+    }
+
+    if (unit.endChar - unit.startChar > chunkSize) {
+      flush();
+      const pieces = await splitRecursively(
+        text.slice(unit.startChar, unit.endChar),
+        chunkSize,
+        chunkOverlap,
+        unit.startChar
+      );
+      spans.push(
+        ...pieces.map((piece) => ({ ...piece, path: unit.path, pathEnd: unit.path }))
+      );
+      continue;
+    }
+
+    // Merge short neighbouring clauses, but never across articles or exhibits
+    const fitsCurrent =
+      current !== null &&
+      current.path[0] === unit.path[0] &&
+      unit.endChar - current.startChar <= chunkSize;
+
+    if (current && fitsCurrent) {
+      current.endChar = unit.endChar;
+      current.pathEnd = unit.path;
+    } else {
+      flush();
+      current = {
+        startChar: unit.startChar,
+        endChar: unit.endChar,
+        path: unit.path,
+        pathEnd: unit.path,
+      };
+    }
+  }
+  flush();
+
+  return spans.map((span, index) => {
+    const sectionPath = formatSectionPath(span.path);
+    const sectionPathEnd = formatSectionPath(span.pathEnd);
+    // Spans are trimmed, so their last character maps to real source text
+    const startChar = sourceMap ? toSourceOffset(sourceMap, span.startChar) : span.startChar;
+    const endChar = sourceMap ? toSourceOffset(sourceMap, span.endChar - 1) + 1 : span.endChar;
+    const heading = headings && findHeadingPath(headings, startChar);
+
+    return {
+      content: span.content,
+      metadata: {
+        chunkIndex: index,
+        startChar,
+        endChar,
+        filename,
+        ...(pages && findPageRange(pages, startChar, endChar)),
+        ...(sectionPath && { sectionPath }),
+        ...(sectionPathEnd && sectionPathEnd !== sectionPath && { sectionPathEnd }),
+        ...(heading && { heading }),
+        ...(span.table && { table: span.table }),
+      },
+    };
+  });
+}
+
+// Largest file sent in a single upload request; larger files use resumable uploads
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
 /**
  * Validate file size and type
  */
 export function validateFile(file: File): { valid: boolean; error?: string } {
-  const maxSize = 10 * 1024 * 1024; // 10MB
-  const allowedTypes = [
-    "application/pdf",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "text/plain",
-  ];
-
-  if (file.size > maxSize) {
+  if (file.size > MAX_FILE_SIZE) {
     return {
       valid: false,
-      error: "File size exceeds 10MB limit",
+      error: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit for a single upload. Use a resumable upload (/api/documents/uploads) for larger files.`,
     };
   }
 
-  if (!allowedTypes.includes(file.type)) {
+  if (!findExtractor(file.type, file.name)) {
     return {
       valid: false,
-      error: "File type not supported. Please upload PDF, DOCX, or TXT files.",
+      error: `File type not supported. Please upload ${getSupportedFileTypes().labels.join(", ")} files.`,
     };
   }
 
@@ -194,19 +1188,125 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
 }
 
 /**
- * Clean and normalize text for legal documents
+ * Where cleaned text came from in the source, as runs of characters copied
+ * unchanged: run i starts at cleaned position cleanStarts[i] and source
+ * position sourceStarts[i], and lasts until the next run starts. Only edits
+ * start new runs, so the map stays small for long documents.
  */
-export function cleanLegalText(text: string): string {
-  return text
-    // Remove excessive whitespace
-    .replace(/\s+/g, " ")
+export interface SourceMap {
+  // Length of the cleaned text
+  length: number;
+  cleanStarts: number[];
+  sourceStarts: number[];
+}
+
+interface MappedText {
+  text: string;
+  sourceMap: SourceMap;
+}
+
+/**
+ * Regex replace that keeps track of where the remaining characters came from.
+ * Replacement characters map to the characters of the match they replace.
+ */
+function replaceMapped(
+  mapped: MappedText,
+  pattern: RegExp,
+  replacement: string
+): MappedText {
+  const previous = mapped.sourceMap;
+  const cleanStarts: number[] = [];
+  const sourceStarts: number[] = [];
+  const parts: string[] = [];
+  let length = 0;
+  // Run of the previous map holding the next position copied; copies only move forward
+  let run = 0;
+
+  // Append characters from..to of the previous text, splitting at its runs
+  const copy = (from: number, to: number) => {
+    let position = from;
+    while (position < to) {
+      while (run + 1 < previous.cleanStarts.length && previous.cleanStarts[run + 1] <= position) {
+        run++;
+      }
+      const runEnd = run + 1 < previous.cleanStarts.length ? previous.cleanStarts[run + 1] : previous.length;
+      const end = Math.min(to, runEnd);
+      const source = previous.sourceStarts[run] + position - previous.cleanStarts[run];
+
+      // Extend the last run when the source continues where it ended
+      const last = cleanStarts.length - 1;
+      if (last < 0 || sourceStarts[last] + length - cleanStarts[last] !== source) {
+        cleanStarts.push(length);
+        sourceStarts.push(source);
+      }
+      length += end - position;
+      position = end;
+    }
+  };
+
+  let last = 0;
+  for (const match of mapped.text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    parts.push(mapped.text.slice(last, index), replacement);
+    copy(last, index);
+    for (let i = 0; i < replacement.length; i++) {
+      const position = index + Math.min(i, match[0].length - 1);
+      copy(position, position + 1);
+    }
+    last = index + match[0].length;
+  }
+  parts.push(mapped.text.slice(last));
+  copy(last, mapped.text.length);
+
+  return { text: parts.join(""), sourceMap: { length, cleanStarts, sourceStarts } };
+}
+
+/**
+ * Clean text while mapping every cleaned character back to the original
+ */
+function cleanLegalTextMapped(source: string): MappedText {
+  const steps: Array<[RegExp, string]> = [
+    [/\r\n?/g, "\n"],
+    // Remove excessive whitespace within lines
+    [/[^\S\n]+/g, " "],
+    [/ *\n */g, "\n"],
     // Remove page numbers (common pattern)
-    .replace(/\n\s*\d+\s*\n/g, "\n")
+    [/\n\d+\n/g, "\n"],
+    // Collapse runs of blank lines
+    [/\n{3,}/g, "\n\n"],
     // Normalize quotes
-    .replace(/[""]/g, '"')
-    .replace(/['']/g, "'")
+    [/[""]/g, '"'],
+    [/['']/g, "'"],
     // Remove zero-width spaces
-    .replace(/[\u200B-\u200D\uFEFF]/g, "")
+    [/[\u200B-\u200D\uFEFF]/g, ""],
     // Trim
-    .trim();
+    [/^\s+|\s+$/g, ""],
+  ];
+
+  return steps.reduce<MappedText>(
+    (mapped, [pattern, replacement]) => replaceMapped(mapped, pattern, replacement),
+    {
+      text: source,
+      sourceMap: { length: source.length, cleanStarts: [0], sourceStarts: [0] },
+    }
+  );
+}
+
+/**
+ * Clean and normalize text for legal documents
+ * Line breaks are kept so headings and clause numbers stay at line starts
+ */
+export function cleanLegalText(text: string): string {
+  return cleanLegalTextMapped(text).text;
+}
+
+/**
+ * Clean a processed document's text, returning a map from the cleaned text to
+ * the extracted text so chunks can point back at the source
+ */
+export function cleanProcessedDocument(processed: ProcessedDocument): {
+  text: string;
+  sourceMap: SourceMap;
+} {
+  return cleanLegalTextMapped(processed.text);
 }
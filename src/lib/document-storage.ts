@@ -0,0 +1,225 @@
+/**
+ * Original upload storage (Supabase Storage)
+ * Originals are kept so documents can be reprocessed when the pipeline changes
+ * and downloaded or previewed in the app. Large files from resumable uploads
+ * stay in the parts they were uploaded in, under a storage path ending in "/",
+ * and are read back part by part.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase";
+
+const ORIGINALS_BUCKET = "documents";
+const MAX_PARTS = 10000;
+
+export interface OriginalFile {
+  stream: ReadableStream<Uint8Array>;
+  size: number;
+}
+
+function isPartedPath(storagePath: string): boolean {
+  return storagePath.endsWith("/");
+}
+
+function originalPartName(partNumber: number): string {
+  return `part-${String(partNumber).padStart(5, "0")}`;
+}
+
+/**
+ * Storage key for a document's original file: <userId>/<documentId>/<filename>
+ */
+function originalFilePath(userId: string, documentId: string, filename: string): string {
+  // ZIP bundle entries carry their folder path in the filename
+  const basename = filename.split("/").pop() || "original";
+  const safeName = basename.replace(/[^\w.\- ]+/g, "_");
+  return `${userId}/${documentId}/${safeName}`;
+}
+
+/**
+ * Save a document's original bytes and return the storage path
+ */
+export async function storeOriginalFile(
+  userId: string,
+  documentId: string,
+  filename: string,
+  buffer: Buffer,
+  contentType: string
+): Promise<string> {
+  const path = originalFilePath(userId, documentId, filename);
+
+  const { error } = await supabaseAdmin.storage
+    .from(ORIGINALS_BUCKET)
+    .upload(path, buffer, { contentType, upsert: true });
+
+  if (error) {
+    console.error("Error storing original file:", error);
+    throw new Error("Failed to store original file");
+  }
+
+  return path;
+}
+
+/**
+ * Move the parts of a resumable upload, given in order, to a document's
+ * original file folder and return its storage path. Moving leaves the bytes
+ * where they are, so this is quick however large the file is.
+ */
+export async function moveToOriginalParts(
+  partPaths: string[],
+  userId: string,
+  documentId: string,
+  filename: string
+): Promise<string> {
+  const folder = `${originalFilePath(userId, documentId, filename)}.parts/`;
+
+  for (let i = 0; i < partPaths.length; i++) {
+    const { error } = await supabaseAdmin.storage
+      .from(ORIGINALS_BUCKET)
+      .move(partPaths[i], `${folder}${originalPartName(i + 1)}`);
+
+    if (error) {
+      console.error("Error moving original file part:", error);
+      throw new Error("Failed to store original file");
+    }
+  }
+
+  return folder;
+}
+
+/**
+ * Parts of an original kept in parts, in order, with their sizes
+ */
+async function listOriginalParts(folder: string): Promise<Array<{ path: string; size: number }>> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(ORIGINALS_BUCKET)
+    .list(folder.slice(0, -1), { limit: MAX_PARTS + 1 });
+
+  if (error) {
+    console.error("Error listing original file parts:", error);
+    throw new Error("Failed to read original file");
+  }
+
+  return (data || [])
+    .filter((file) => /^part-\d+$/.test(file.name))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((file) => ({ path: `${folder}${file.name}`, size: Number(file.metadata?.size ?? 0) }));
+}
+
+async function downloadBlob(path: string): Promise<Blob> {
+  const { data, error } = await supabaseAdmin.storage.from(ORIGINALS_BUCKET).download(path);
+
+  if (error || !data) {
+    console.error("Error downloading original file:", error);
+    throw new Error("Failed to download original file");
+  }
+
+  return data;
+}
+
+/**
+ * Load a document's original bytes. An original kept in parts is read one part
+ * at a time into a single buffer, so it is only held in memory once.
+ */
+export async function downloadOriginalFile(storagePath: string): Promise<Buffer> {
+  if (!isPartedPath(storagePath)) {
+    return Buffer.from(await (await downloadBlob(storagePath)).arrayBuffer());
+  }
+
+  const parts = await listOriginalParts(storagePath);
+  const buffer = Buffer.alloc(parts.reduce((total, part) => total + part.size, 0));
+  let offset = 0;
+  for (const part of parts) {
+    const bytes = new Uint8Array(await (await downloadBlob(part.path)).arrayBuffer());
+    if (offset + bytes.length > buffer.length) {
+      throw new Error("Failed to download original file: parts changed while reading");
+    }
+    buffer.set(bytes, offset);
+    offset += bytes.length;
+  }
+
+  if (offset !== buffer.length) {
+    throw new Error("Failed to download original file: parts changed while reading");
+  }
+  return buffer;
+}
+
+/**
+ * Open a document's original file for streaming to the client. An original
+ * kept in parts is downloaded a part at a time as the client reads it.
+ */
+export async function openOriginalFile(storagePath: string): Promise<OriginalFile> {
+  if (!isPartedPath(storagePath)) {
+    const file = await downloadBlob(storagePath);
+    return { stream: file.stream(), size: file.size };
+  }
+
+  const parts = await listOriginalParts(storagePath);
+  let nextPart = 0;
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (nextPart >= parts.length) {
+        controller.close();
+        return;
+      }
+      try {
+        const part = await downloadBlob(parts[nextPart].path);
+        controller.enqueue(new Uint8Array(await part.arrayBuffer()));
+        nextPart++;
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return { stream, size: parts.reduce((total, part) => total + part.size, 0) };
+}
+
+/**
+ * Remove original files, e.g. after their documents are deleted.
+ * Failures are logged rather than thrown since the documents are already gone.
+ */
+export async function deleteOriginalFiles(storagePaths: string[]): Promise<void> {
+  const paths: string[] = [];
+  for (const storagePath of storagePaths) {
+    if (!isPartedPath(storagePath)) {
+      paths.push(storagePath);
+      continue;
+    }
+    try {
+      paths.push(...(await listOriginalParts(storagePath)).map((part) => part.path));
+    } catch (error) {
+      console.error("Error deleting original files:", error);
+    }
+  }
+
+  if (paths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.storage.from(ORIGINALS_BUCKET).remove(paths);
+  if (error) {
+    console.error("Error deleting original files:", error);
+  }
+}
+
+/**
+ * Response headers for serving an original file as a download or inline preview
+ */
+export function originalFileHeaders(
+  filename: string,
+  contentType: string,
+  disposition: "attachment" | "inline",
+  size?: number
+): Record<string, string> {
+  const basename = filename.split("/").pop() || "document";
+  const asciiName = basename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+
+  return {
+    "Content-Type": contentType,
+    "Content-Disposition": `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(basename)}`,
+    "Cache-Control": "private, no-store",
+    "X-Content-Type-Options": "nosniff",
+    // Uploaded HTML must not run scripts on our origin when previewed
+    "Content-Security-Policy": "sandbox",
+    ...(size !== undefined && { "Content-Length": String(size) }),
+  };
+}
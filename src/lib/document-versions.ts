@@ -0,0 +1,200 @@
+/**
+ * Document versions: content hashing, duplicate detection and version chains
+ */
+
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabase";
+
+// What to do when an upload matches an existing document by content or title
+export const DUPLICATE_ACTIONS = ["skip", "replace", "version"] as const;
+export type DuplicateAction = (typeof DUPLICATE_ACTIONS)[number];
+
+export interface ExistingDocument {
+  id: string;
+  title: string;
+  filename: string;
+  version_group_id: string | null;
+  version_number: number;
+  previous_version_id: string | null;
+  is_latest: boolean;
+}
+
+export interface VersionFields {
+  version_group_id: string | null;
+  version_number: number;
+  previous_version_id: string | null;
+  is_latest: boolean;
+}
+
+const EXISTING_DOCUMENT_COLUMNS =
+  "id, title, filename, version_group_id, version_number, previous_version_id, is_latest";
+
+/**
+ * SHA-256 of a file's bytes
+ */
+export function hashContent(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Find a document with identical content, or else the latest version of a
+ * document with the same title
+ */
+export async function findExistingDocument(
+  userId: string,
+  contentHash: string,
+  title: string
+): Promise<{ document: ExistingDocument; match: "content" | "title" } | null> {
+  const { data: sameContent } = await supabaseAdmin
+    .from("documents")
+    .select(EXISTING_DOCUMENT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("content_hash", contentHash)
+    .order("version_number", { ascending: false })
+    .limit(1);
+
+  if (sameContent && sameContent.length > 0) {
+    return { document: sameContent[0], match: "content" };
+  }
+
+  const { data: sameTitle } = await supabaseAdmin
+    .from("documents")
+    .select(EXISTING_DOCUMENT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("title", title)
+    .eq("is_latest", true)
+    .limit(1);
+
+  if (sameTitle && sameTitle.length > 0) {
+    return { document: sameTitle[0], match: "title" };
+  }
+
+  return null;
+}
+
+/**
+ * Version fields for a document that takes over an existing document's place.
+ * Like a new version, it becomes the latest once it has been processed.
+ */
+export function replacementVersionFields(existing: ExistingDocument): VersionFields {
+  return {
+    version_group_id: existing.version_group_id,
+    version_number: existing.version_number,
+    previous_version_id: existing.previous_version_id,
+    is_latest: false,
+  };
+}
+
+/**
+ * Version fields for a new version added to an existing document's chain.
+ * The new version becomes the latest once it has been processed.
+ */
+export async function nextVersionFields(existing: ExistingDocument): Promise<VersionFields> {
+  const groupId = existing.version_group_id ?? existing.id;
+
+  // The first version starts the chain
+  if (!existing.version_group_id) {
+    await supabaseAdmin
+      .from("documents")
+      .update({ version_group_id: groupId })
+      .eq("id", existing.id);
+  }
+
+  const { data: newest } = await supabaseAdmin
+    .from("documents")
+    .select("id, version_number")
+    .eq("version_group_id", groupId)
+    .order("version_number", { ascending: false })
+    .limit(1);
+
+  const previous = newest?.[0] ?? existing;
+
+  return {
+    version_group_id: groupId,
+    version_number: previous.version_number + 1,
+    previous_version_id: previous.id,
+    is_latest: false,
+  };
+}
+
+/**
+ * Make a processed document the latest in its version chain, unless a newer
+ * version already exists (e.g. when an older version is reprocessed)
+ */
+export async function promoteLatestVersion(documentId: string): Promise<void> {
+  const { data: document, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, version_group_id, version_number")
+    .eq("id", documentId)
+    .single();
+
+  if (error || !document) {
+    console.error("Supabase error loading document version:", error);
+    throw new Error("Failed to load document version");
+  }
+
+  // A replacement for a document outside any chain is simply the latest
+  if (!document.version_group_id) {
+    await markLatest(document.id);
+    return;
+  }
+
+  const { data: newer, error: newerError } = await supabaseAdmin
+    .from("documents")
+    .select("id")
+    .eq("version_group_id", document.version_group_id)
+    .gt("version_number", document.version_number)
+    .limit(1);
+
+  if (newerError) {
+    console.error("Supabase error checking for newer versions:", newerError);
+    throw new Error("Failed to check for newer versions");
+  }
+  if (newer && newer.length > 0) {
+    return;
+  }
+
+  const { error: demoteError } = await supabaseAdmin
+    .from("documents")
+    .update({ is_latest: false })
+    .eq("version_group_id", document.version_group_id)
+    .neq("id", document.id);
+
+  if (demoteError) {
+    console.error("Supabase error demoting previous versions:", demoteError);
+    throw new Error("Failed to demote previous versions");
+  }
+
+  await markLatest(document.id);
+}
+
+async function markLatest(documentId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("documents")
+    .update({ is_latest: true })
+    .eq("id", documentId);
+
+  if (error) {
+    console.error("Supabase error promoting latest version:", error);
+    throw new Error("Failed to promote latest version");
+  }
+}
+
+/**
+ * Documents superseded by a newer version, excluded from chat retrieval by default
+ */
+export async function getSupersededDocumentIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from("documents")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("is_latest", false)
+    .not("version_group_id", "is", null);
+
+  if (error) {
+    console.error("Error fetching superseded documents:", error);
+    throw new Error("Failed to fetch document versions");
+  }
+
+  return (data || []).map((document) => document.id);
+}
@@ -0,0 +1,188 @@
+/**
+ * Document record lifecycle
+ */
+
+import { supabaseAdmin } from "@/lib/supabase";
+import { deleteOriginalFiles } from "@/lib/document-storage";
+import {
+  findExistingDocument,
+  nextVersionFields,
+  promoteLatestVersion,
+  replacementVersionFields,
+  type DuplicateAction,
+  type VersionFields,
+} from "@/lib/document-versions";
+import type { IngestionContext, IngestionInput } from "@/lib/ingestion-pipeline";
+import { deleteIngestionJobFiles } from "@/lib/ingestion-queue";
+import { deleteDocumentVectors } from "@/lib/vector-store";
+
+export interface UploadResult {
+  filename: string;
+  documentId?: string;
+  status: "accepted" | "rejected" | "skipped";
+  error?: string;
+  versionNumber?: number;
+}
+
+/**
+ * Create the document record for an uploaded file and queue it for ingestion.
+ * Identical or same-titled uploads are skipped, replace the existing
+ * document, or join its version chain, depending on duplicateAction. A
+ * replaced document is kept until its replacement has been processed, so a
+ * failed upload does not lose it. enqueue stores the original file and queues
+ * the ingestion job.
+ */
+export async function createUploadedDocument(
+  userId: string,
+  upload: {
+    filename: string;
+    fileType: string;
+    fileSize: number;
+    contentHash: string;
+    duplicateAction: DuplicateAction;
+    context: IngestionContext;
+  },
+  enqueue: (input: IngestionInput) => Promise<unknown>
+): Promise<UploadResult> {
+  const { filename, fileType, fileSize, contentHash, duplicateAction, context } = upload;
+  const title = filename.replace(/\.[^/.]+$/, "");
+
+  const existing = await findExistingDocument(userId, contentHash, title);
+  let versionFields: VersionFields | undefined;
+
+  if (existing && duplicateAction === "skip") {
+    return {
+      filename,
+      documentId: existing.document.id,
+      status: "skipped",
+      error:
+        existing.match === "content"
+          ? `Identical to existing document "${existing.document.filename}"`
+          : `A document titled "${title}" already exists`,
+    };
+  }
+  if (existing && duplicateAction === "replace") {
+    versionFields = replacementVersionFields(existing.document);
+  }
+  if (existing && duplicateAction === "version") {
+    versionFields = await nextVersionFields(existing.document);
+  }
+
+  const { data: document, error: dbError } = await supabaseAdmin
+    .from("documents")
+    .insert({
+      user_id: userId,
+      title,
+      filename,
+      file_type: fileType,
+      file_size: fileSize,
+      content_hash: contentHash,
+      ...versionFields,
+      status: "processing",
+    })
+    .select()
+    .single();
+
+  if (dbError || !document) {
+    console.error("Error creating document record:", dbError);
+    return { filename, status: "rejected", error: "Failed to create document record" };
+  }
+
+  try {
+    await enqueue({
+      documentId: document.id,
+      userId,
+      filename,
+      fileType,
+      context:
+        existing && duplicateAction === "replace"
+          ? { ...context, replacesDocumentId: existing.document.id }
+          : context,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Failed to queue document";
+    await supabaseAdmin
+      .from("documents")
+      .update({ status: "failed", metadata: { error: errorMessage } })
+      .eq("id", document.id);
+    return { filename, documentId: document.id, status: "rejected", error: errorMessage };
+  }
+
+  return {
+    filename,
+    documentId: document.id,
+    status: "accepted",
+    ...(versionFields && { versionNumber: versionFields.version_number }),
+  };
+}
+
+/**
+ * Delete a document with its attachments, chunks, vectors, stored original
+ * files and ingestion checkpoints. Returns false if the document was not found.
+ */
+export async function deleteDocument(documentId: string, userId: string): Promise<boolean> {
+  const { data: document, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, storage_path, version_group_id, is_latest")
+    .eq("id", documentId)
+    .eq("user_id", userId)
+    .single();
+
+  if (error || !document) {
+    return false;
+  }
+
+  // Attachments are child documents and are deleted with their parent
+  const documents: Array<{ id: string; storage_path: string | null }> = [document];
+  let parentIds = [document.id];
+  while (parentIds.length > 0) {
+    const { data: children } = await supabaseAdmin
+      .from("documents")
+      .select("id, storage_path")
+      .in("parent_document_id", parentIds);
+    documents.push(...(children || []));
+    parentIds = (children || []).map((child) => child.id);
+  }
+
+  const documentIds = documents.map((doc) => doc.id);
+
+  for (const id of documentIds) {
+    await deleteDocumentVectors(id, userId);
+  }
+  await deleteIngestionJobFiles(documentIds);
+
+  // Chunks, jobs and child documents cascade from the document row
+  const { error: dbError } = await supabaseAdmin
+    .from("documents")
+    .delete()
+    .eq("id", document.id)
+    .eq("user_id", userId);
+
+  if (dbError) {
+    console.error("Supabase error deleting document:", dbError);
+    throw new Error("Failed to delete document");
+  }
+
+  await deleteOriginalFiles(
+    documents
+      .map((doc) => doc.storage_path)
+      .filter((path): path is string => Boolean(path))
+  );
+
+  // Deleting the latest version hands that role back to the newest remaining one
+  if (document.version_group_id && document.is_latest) {
+    const { data: remaining } = await supabaseAdmin
+      .from("documents")
+      .select("id")
+      .eq("version_group_id", document.version_group_id)
+      .eq("status", "completed")
+      .order("version_number", { ascending: false })
+      .limit(1);
+
+    if (remaining && remaining.length > 0) {
+      await promoteLatestVersion(remaining[0].id);
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,120 @@
+/**
+ * Email parsing for .eml messages and .mbox mailboxes
+ * Headers are pulled out for document metadata; attachments are returned
+ * separately so the pipeline can index each one as its own document
+ */
+
+import { simpleParser, type AddressObject } from "mailparser";
+import { htmlToText } from "@/lib/text-formats";
+
+export interface EmailHeaders {
+  from?: string;
+  to?: string;
+  cc?: string;
+  date?: string;
+  subject?: string;
+  messageId?: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  headers: EmailHeaders;
+  body: string;
+  attachments: EmailAttachment[];
+}
+
+function formatAddresses(
+  addresses: AddressObject | AddressObject[] | undefined
+): string | undefined {
+  if (!addresses) {
+    return undefined;
+  }
+  const list = Array.isArray(addresses) ? addresses : [addresses];
+  return list.map((address) => address.text).join(", ") || undefined;
+}
+
+/**
+ * Parse a single RFC 822 message
+ */
+export async function parseEmail(buffer: Buffer): Promise<ParsedEmail> {
+  const mail = await simpleParser(buffer, { skipTextToHtml: true });
+
+  const headers: EmailHeaders = {
+    from: formatAddresses(mail.from),
+    to: formatAddresses(mail.to),
+    cc: formatAddresses(mail.cc),
+    date: mail.date?.toISOString(),
+    subject: mail.subject,
+    messageId: mail.messageId,
+  };
+
+  const body = mail.text?.trim() || (mail.html ? htmlToText(mail.html) : "");
+
+  // Inline images referenced from the HTML body (logos, signatures) are not attachments
+  const attachments = mail.attachments
+    .filter((attachment) => !attachment.related)
+    .map((attachment, index) => ({
+      filename: attachment.filename || `attachment-${index + 1}`,
+      contentType: attachment.contentType,
+      content: attachment.content,
+    }));
+
+  return { headers, body, attachments };
+}
+
+/**
+ * Split an mbox mailbox into its individual messages.
+ * Messages start with a "From " separator line; quoted ">From " lines are unescaped.
+ */
+export function splitMbox(buffer: Buffer): Buffer[] {
+  const lines = buffer.toString("latin1").split(/\r?\n/);
+  const messages: string[][] = [];
+  let current: string[] | null = null;
+
+  lines.forEach((line, index) => {
+    const startsMessage =
+      line.startsWith("From ") && (index === 0 || lines[index - 1] === "");
+
+    if (startsMessage) {
+      current = [];
+      messages.push(current);
+    } else if (current) {
+      current.push(line.replace(/^>(>*From )/, "$1"));
+    }
+  });
+
+  // latin1 round-trips the original bytes, leaving charset decoding to the parser
+  return messages.map((message) => Buffer.from(message.join("\n"), "latin1"));
+}
+
+/**
+ * Describe an email for citations, e.g. "Email from Jane Doe on 2024-03-01 (Re: Lease)"
+ */
+export function describeEmail(headers: EmailHeaders, noun: string = "Email"): string {
+  const parts = [noun];
+  if (headers.from) parts.push(`from ${headers.from}`);
+  if (headers.date) parts.push(`on ${headers.date.slice(0, 10)}`);
+  if (headers.subject) parts.push(`(${headers.subject})`);
+  return parts.join(" ");
+}
+
+/**
+ * Render headers as the opening lines of the indexed text, so retrieval
+ * can match on sender, recipients, date and subject
+ */
+export function formatEmailHeaders(headers: EmailHeaders): string {
+  return [
+    headers.from && `From: ${headers.from}`,
+    headers.to && `To: ${headers.to}`,
+    headers.cc && `Cc: ${headers.cc}`,
+    headers.date && `Date: ${headers.date}`,
+    headers.subject && `Subject: ${headers.subject}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,208 @@
+/**
+ * Embedding cache
+ * Re-uploads, reprocessing and boilerplate clauses shared across contracts
+ * produce the same text again and again. Embeddings are cached in Supabase,
+ * keyed by model, input type and a SHA-256 hash of the normalised text, so
+ * each distinct text is only embedded once per model. The text itself is not
+ * stored.
+ *
+ * Configuration:
+ * - EMBEDDING_CACHE_ENABLED=false turns the cache off
+ * - EMBEDDING_CACHE_MAX_ENTRIES caps the cache size (default 200000)
+ * - EMBEDDING_CACHE_TTL_DAYS evicts entries unused for this long (default 90)
+ */
+
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export type EmbeddingInputType = "search_document" | "search_query";
+
+const DEFAULT_MAX_ENTRIES = 200000;
+const DEFAULT_TTL_DAYS = 90;
+
+export interface EmbeddingCacheStats {
+  day: string;
+  model: string;
+  inputType: EmbeddingInputType;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export function isEmbeddingCacheEnabled(): boolean {
+  return process.env.EMBEDDING_CACHE_ENABLED !== "false";
+}
+
+/**
+ * Text as it is hashed for the cache key: Unicode NFC with whitespace
+ * collapsed, so text that differs only in line breaks or spacing shares an
+ * entry. Providers are still sent the text as written.
+ */
+export function normaliseEmbeddingText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(normaliseEmbeddingText(text)).digest("hex");
+}
+
+/**
+ * Cached embeddings for the texts, in order, with undefined for misses. The
+ * cache only saves calls, so a failing lookup counts as all misses.
+ */
+export async function getCachedEmbeddings(
+  model: string,
+  inputType: EmbeddingInputType,
+  texts: string[]
+): Promise<Array<number[] | undefined>> {
+  const hashes = texts.map(hashText);
+  const uniqueHashes = Array.from(new Set(hashes));
+
+  const { data, error } = await supabaseAdmin
+    .from("embedding_cache")
+    .select("text_hash, embedding")
+    .eq("model", model)
+    .eq("input_type", inputType)
+    .in("text_hash", uniqueHashes);
+
+  if (error) {
+    console.error("Error reading embedding cache:", error);
+    return texts.map(() => undefined);
+  }
+
+  const cached = new Map<string, number[]>(
+    (data || []).map((row: { text_hash: string; embedding: number[] }) => [row.text_hash, row.embedding])
+  );
+  const hits = hashes.filter((hash) => cached.has(hash)).length;
+
+  // Awaited, since a serverless function can be stopped as soon as it responds
+  await recordCacheUse(model, inputType, hits, texts.length - hits, Array.from(cached.keys()));
+
+  return hashes.map((hash) => cached.get(hash));
+}
+
+/**
+ * Count hits and misses, and mark the entries hit as used so eviction keeps
+ * them. Failures are logged since they only affect metrics and eviction order.
+ */
+async function recordCacheUse(
+  model: string,
+  inputType: EmbeddingInputType,
+  hits: number,
+  misses: number,
+  hitHashes: string[]
+): Promise<void> {
+  const [{ error: statsError }, touchResult] = await Promise.all([
+    supabaseAdmin.rpc("record_embedding_cache_stats", {
+      p_model: model,
+      p_input_type: inputType,
+      p_hits: hits,
+      p_misses: misses,
+    }),
+    hitHashes.length > 0
+      ? supabaseAdmin.rpc("touch_embedding_cache", {
+          p_model: model,
+          p_input_type: inputType,
+          p_text_hashes: hitHashes,
+        })
+      : undefined,
+  ]);
+  if (statsError) {
+    console.error("Error recording embedding cache stats:", statsError);
+  }
+  if (touchResult?.error) {
+    console.error("Error updating embedding cache entries:", touchResult.error);
+  }
+}
+
+/**
+ * Store freshly generated embeddings. Entries already cached, e.g. by a
+ * concurrent job embedding the same clause, are left as they are.
+ */
+export async function cacheEmbeddings(
+  model: string,
+  inputType: EmbeddingInputType,
+  texts: string[],
+  embeddings: number[][]
+): Promise<void> {
+  // One row per hash, since a batch may repeat a text
+  const rows = new Map<string, { model: string; input_type: string; text_hash: string; embedding: number[] }>();
+  texts.forEach((text, i) => {
+    const textHash = hashText(text);
+    rows.set(textHash, { model, input_type: inputType, text_hash: textHash, embedding: embeddings[i] });
+  });
+  if (rows.size === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from("embedding_cache")
+    .upsert(Array.from(rows.values()), {
+      onConflict: "model,input_type,text_hash",
+      ignoreDuplicates: true,
+    });
+
+  if (error) {
+    console.error("Error writing embedding cache:", error);
+  }
+}
+
+/**
+ * Evict entries unused for EMBEDDING_CACHE_TTL_DAYS, then the least recently
+ * used beyond EMBEDDING_CACHE_MAX_ENTRIES. Returns the number evicted.
+ */
+export async function evictEmbeddingCache(): Promise<number> {
+  const maxEntries = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES;
+  const maxAgeDays = Number(process.env.EMBEDDING_CACHE_TTL_DAYS) || DEFAULT_TTL_DAYS;
+
+  const { data, error } = await supabaseAdmin.rpc("evict_embedding_cache", {
+    max_entries: maxEntries,
+    max_age_days: maxAgeDays,
+  });
+
+  if (error) {
+    console.error("Error evicting embedding cache:", error);
+    throw new Error("Failed to evict embedding cache");
+  }
+
+  return Number(data) || 0;
+}
+
+/**
+ * Daily hit rates for the last few days, newest first, with the cache's
+ * approximate size
+ */
+export async function getEmbeddingCacheStats(
+  days: number = 30
+): Promise<{ entries: number; stats: EmbeddingCacheStats[] }> {
+  const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString().slice(0, 10);
+
+  const [{ data, error }, { count, error: countError }] = await Promise.all([
+    supabaseAdmin
+      .from("embedding_cache_stats")
+      .select("*")
+      .gte("day", since)
+      .order("day", { ascending: false }),
+    supabaseAdmin.from("embedding_cache").select("*", { count: "estimated", head: true }),
+  ]);
+
+  if (error || countError) {
+    console.error("Error fetching embedding cache stats:", error || countError);
+    throw new Error("Failed to fetch embedding cache stats");
+  }
+
+  const stats = (data || []).map((row) => {
+    const hits = Number(row.hits);
+    const misses = Number(row.misses);
+    return {
+      day: row.day,
+      model: row.model,
+      inputType: row.input_type as EmbeddingInputType,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    };
+  });
+
+  return { entries: count || 0, stats };
+}
@@ -1,8 +1,38 @@
 /**
- * Embeddings service using Cohere API (free tier)
- * Alternative: Can use Together.ai or other providers
+ * Embeddings service
+ * Providers are pluggable and chosen with EMBEDDING_PROVIDER:
+ * - "cohere" (default): embed-english-v3.0, with embed-multilingual-v3.0 for
+ *   documents in other languages
+ * - "openai": OPENAI_EMBEDDING_MODEL (default text-embedding-3-small)
+ * - "local": deterministic hashed embeddings computed offline, for
+ *   development and tests
+ * Each vector and document records the model id it was embedded with, since
+ * vectors from different models cannot be compared. Embeddings from remote
+ * providers are cached (see embedding-cache.ts).
  */
 
+import { supabaseAdmin, type Database } from "@/lib/supabase";
+import {
+  cacheEmbeddings,
+  getCachedEmbeddings,
+  isEmbeddingCacheEnabled,
+  normaliseEmbeddingText,
+  type EmbeddingInputType,
+} from "@/lib/embedding-cache";
+import { logRedactions, maskText, type RedactionCounts } from "@/lib/redaction";
+
+export interface EmbeddingProvider {
+  // Recorded with each vector and document, e.g. "embed-english-v3.0"
+  modelId: string;
+  dimension: number;
+  // Whether the model handles text in languages other than English
+  multilingual: boolean;
+  // Whether embeddings are worth caching; local ones are cheaper to recompute
+  cacheable: boolean;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
 interface EmbeddingResponse {
   embeddings: number[][];
   meta?: {
@@ -11,7 +41,21 @@ interface EmbeddingResponse {
 }
 
 const COHERE_API_URL = "https://api.cohere.ai/v1/embed";
-const COHERE_API_KEY = process.env.COHERE_API_KEY;
+// Vectors indexed before the model was recorded were embedded with this one
+export const LEGACY_EMBEDDING_MODEL = "embed-english-v3.0";
+
+const COHERE_MODELS: Record<string, { dimension: number; multilingual: boolean }> = {
+  "embed-english-v3.0": { dimension: 1024, multilingual: false }, // free tier
+  "embed-multilingual-v3.0": { dimension: 1024, multilingual: true },
+};
+
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+const LOCAL_EMBEDDING_DIMENSION = 1024;
 
 /**
  * Helper function to add timeout to fetch requests
@@ -41,136 +85,387 @@ async function fetchWithTimeout(
 }
 
 /**
- * Generate embeddings for text chunks using Cohere with retry logic
+ * Cohere embed API with retry logic
  */
-export async function generateEmbeddings(
-  texts: string[],
-  retries: number = 3
-): Promise<number[][]> {
-  if (!COHERE_API_KEY) {
-    throw new Error("COHERE_API_KEY is not configured");
+export function createCohereProvider(model: string = LEGACY_EMBEDDING_MODEL): EmbeddingProvider {
+  const settings = COHERE_MODELS[model];
+  if (!settings) {
+    throw new Error(`Unknown Cohere embedding model: ${model}`);
   }
 
-  if (texts.length === 0) {
-    return [];
-  }
+  const embed = async (
+    texts: string[],
+    inputType: EmbeddingInputType,
+    timeoutMs: number,
+    retries: number
+  ): Promise<number[][]> => {
+    const apiKey = process.env.COHERE_API_KEY;
+    if (!apiKey) {
+      throw new Error("COHERE_API_KEY is not configured");
+    }
 
-  let lastError: Error | null = null;
+    let lastError: Error | null = null;
 
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      const response = await fetchWithTimeout(
-        COHERE_API_URL,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${COHERE_API_KEY}`,
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      try {
+        const response = await fetchWithTimeout(
+          COHERE_API_URL,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify({
+              texts,
+              model,
+              input_type: inputType,
+              truncate: "END",
+            }),
           },
-          body: JSON.stringify({
-            texts,
-            model: "embed-english-v3.0", // 1024 dimensions, free tier
-            input_type: "search_document", // For indexing documents
-            truncate: "END",
-          }),
-        },
-        30000 // 30 second timeout
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        // Don't retry on 4xx errors (client errors)
-        if (response.status >= 400 && response.status < 500) {
+          timeoutMs
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
           throw new Error(`Cohere API error: ${response.status} - ${errorText}`);
         }
-        // Retry on 5xx errors (server errors)
-        throw new Error(`Cohere API error: ${response.status} - ${errorText}`);
-      }
 
-      const data: EmbeddingResponse = await response.json();
-      if (!data.embeddings || data.embeddings.length !== texts.length) {
-        throw new Error("Invalid response from Cohere API");
-      }
-      return data.embeddings;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      // Don't retry on certain errors
-      if (lastError.message.includes("timeout") && attempt < retries) {
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000); // Exponential backoff, max 5s
-        console.warn(`Embedding generation attempt ${attempt} failed, retrying in ${delay}ms...`);
+        const data: EmbeddingResponse = await response.json();
+        if (!data.embeddings || data.embeddings.length !== texts.length) {
+          throw new Error("Invalid response from Cohere API");
+        }
+        return data.embeddings;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (attempt === retries) {
+          break;
+        }
+
+        // Exponential backoff, max 5s
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        console.warn(`Cohere embedding attempt ${attempt} failed, retrying in ${delay}ms...`);
         await new Promise((resolve) => setTimeout(resolve, delay));
-        continue;
       }
-      
-      if (attempt === retries) {
-        console.error(`Error generating embeddings after ${retries} attempts:`, lastError);
-        throw lastError;
-      }
-      
-      // Wait before retry
-      const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
-      await new Promise((resolve) => setTimeout(resolve, delay));
     }
+
+    throw lastError || new Error("Failed to generate embeddings");
+  };
+
+  return {
+    modelId: model,
+    ...settings,
+    cacheable: true,
+    embedDocuments: (texts) => embed(texts, "search_document", 30000, 3),
+    embedQuery: async (text) => (await embed([text], "search_query", 15000, 1))[0],
+  };
+}
+
+/**
+ * OpenAI embeddings via LangChain, which batches and retries requests
+ */
+export function createOpenAIProvider(
+  model: string = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small"
+): EmbeddingProvider {
+  const dimension = OPENAI_DIMENSIONS[model];
+  if (!dimension) {
+    throw new Error(`Unknown OpenAI embedding model: ${model}`);
   }
 
-  throw lastError || new Error("Failed to generate embeddings");
+  const client = async () => {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY is not configured");
+    }
+    const { OpenAIEmbeddings } = await import("@langchain/openai");
+    return new OpenAIEmbeddings({
+      model,
+      apiKey: process.env.OPENAI_API_KEY,
+      timeout: 30000,
+      maxRetries: 3,
+    });
+  };
+
+  return {
+    modelId: model,
+    dimension,
+    multilingual: true,
+    cacheable: true,
+    embedDocuments: async (texts) => (await client()).embedDocuments(texts),
+    embedQuery: async (text) => (await client()).embedQuery(text),
+  };
 }
 
 /**
- * Generate embedding for a single query
+ * FNV-1a hash of a string
  */
-export async function generateQueryEmbedding(query: string): Promise<number[]> {
-  if (!COHERE_API_KEY) {
-    throw new Error("COHERE_API_KEY is not configured");
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return hash >>> 0;
+}
 
-  if (!query || query.trim().length === 0) {
-    throw new Error("Query cannot be empty");
+/**
+ * Offline embeddings for development and tests: words and word pairs are
+ * hashed into a fixed-size vector. The same text always gives the same
+ * vector, and texts sharing words score as similar, without any API calls.
+ */
+export function createLocalProvider(dimension: number = LOCAL_EMBEDDING_DIMENSION): EmbeddingProvider {
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const hash = hashToken(feature);
+      vector[hash % dimension] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    // Vector stores reject all-zero vectors, e.g. for empty text
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map((value) => value / norm);
+  };
+
+  return {
+    modelId: `local-hash-${dimension}`,
+    dimension,
+    multilingual: true,
+    cacheable: false,
+    embedDocuments: async (texts) => texts.map(embed),
+    embedQuery: async (text) => embed(text),
+  };
+}
+
+let embeddingProviders: EmbeddingProvider[] | undefined;
+
+/**
+ * The configured providers, default first. Cohere has a second, multilingual
+ * model for documents that are not in English.
+ */
+export function getEmbeddingProviders(): EmbeddingProvider[] {
+  if (embeddingProviders) {
+    return embeddingProviders;
   }
 
-  try {
-    const response = await fetchWithTimeout(
-      COHERE_API_URL,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${COHERE_API_KEY}`,
-        },
-        body: JSON.stringify({
-          texts: [query],
-          model: "embed-english-v3.0",
-          input_type: "search_query", // For search queries
-          truncate: "END",
-        }),
-      },
-      15000 // 15 second timeout for queries
+  const name = process.env.EMBEDDING_PROVIDER || "cohere";
+  switch (name) {
+    case "cohere":
+      embeddingProviders = Object.keys(COHERE_MODELS).map((model) => createCohereProvider(model));
+      break;
+    case "openai":
+      embeddingProviders = [createOpenAIProvider()];
+      break;
+    case "local":
+      embeddingProviders = [createLocalProvider()];
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+
+  return embeddingProviders;
+}
+
+/**
+ * Override the embedding providers, e.g. with a local provider in tests
+ */
+export function setEmbeddingProviders(providers: EmbeddingProvider[]): void {
+  embeddingProviders = providers;
+}
+
+/**
+ * The provider for a model id, or the default provider. Vectors can only be
+ * queried with the model that produced them, so a model that is not
+ * configured is an error rather than a fallback.
+ */
+export function getEmbeddingProvider(modelId?: string): EmbeddingProvider {
+  const providers = getEmbeddingProviders();
+  if (!modelId) {
+    return providers[0];
+  }
+
+  const provider = providers.find((candidate) => candidate.modelId === modelId);
+  if (!provider) {
+    throw new Error(
+      `Embedding model ${modelId} is not available with EMBEDDING_PROVIDER=${process.env.EMBEDDING_PROVIDER || "cohere"}`
     );
+  }
+  return provider;
+}
+
+/**
+ * Environment variable the configured provider needs but is missing, if any
+ */
+export function missingEmbeddingConfiguration(): string | undefined {
+  const name = process.env.EMBEDDING_PROVIDER || "cohere";
+  if (name === "cohere" && !process.env.COHERE_API_KEY) {
+    return "COHERE_API_KEY";
+  }
+  if (name === "openai" && !process.env.OPENAI_API_KEY) {
+    return "OPENAI_API_KEY";
+  }
+  return undefined;
+}
+
+/**
+ * Embedding model for a document, given the languages detected in it. English
+ * keeps the default model; anything else needs a multilingual one.
+ */
+export function embeddingModelFor(languages: Array<string | undefined>): string {
+  const providers = getEmbeddingProviders();
+  const needsMultilingual = languages.some(
+    (language) => language !== undefined && language !== "en"
+  );
+  const provider = needsMultilingual
+    ? providers.find((candidate) => candidate.multilingual) || providers[0]
+    : providers[0];
+  return provider.modelId;
+}
+
+/**
+ * Embed texts, taking what the cache has and embedding the remaining texts
+ * once per cache key (see normaliseEmbeddingText)
+ */
+async function embedWithCache(
+  provider: EmbeddingProvider,
+  inputType: EmbeddingInputType,
+  texts: string[],
+  embed: (texts: string[]) => Promise<number[][]>
+): Promise<number[][]> {
+  if (!provider.cacheable || !isEmbeddingCacheEnabled()) {
+    return embed(texts);
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Cohere API error: ${response.status} - ${error}`);
+  const cached = await getCachedEmbeddings(provider.modelId, inputType, texts);
+  const keys = texts.map(normaliseEmbeddingText);
+  // The first text as written for each key the cache did not have
+  const missing = new Map<string, string>();
+  keys.forEach((key, i) => {
+    if (!cached[i] && !missing.has(key)) {
+      missing.set(key, texts[i]);
     }
+  });
+  if (missing.size === 0) {
+    return cached as number[][];
+  }
+
+  const missingTexts = Array.from(missing.values());
+  const fresh = await embed(missingTexts);
+  if (fresh.length !== missingTexts.length) {
+    throw new Error(`Expected ${missingTexts.length} embeddings from ${provider.modelId}, got ${fresh.length}`);
+  }
+  await cacheEmbeddings(provider.modelId, inputType, missingTexts, fresh);
+
+  const embedded = new Map(Array.from(missing.keys()).map((key, i) => [key, fresh[i]]));
+  return keys.map((key, i) => cached[i] || embedded.get(key)!);
+}
+
+/**
+ * Generate embeddings for text chunks
+ */
+export async function generateEmbeddings(texts: string[], model?: string): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const provider = getEmbeddingProvider(model);
+
+  // Sensitive values are masked before the text leaves our infrastructure
+  const counts: RedactionCounts = {};
+  const maskedTexts = texts.map((text) => maskText(text, counts));
+  logRedactions("document embeddings", counts);
 
-    const data: EmbeddingResponse = await response.json();
-    if (!data.embeddings || data.embeddings.length === 0) {
-      throw new Error("Invalid response from Cohere API");
+  try {
+    const embeddings = await embedWithCache(provider, "search_document", maskedTexts, (pending) =>
+      provider.embedDocuments(pending)
+    );
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings from ${provider.modelId}, got ${embeddings.length}`);
     }
-    return data.embeddings[0];
+    return embeddings;
+  } catch (error) {
+    console.error(`Error generating embeddings with ${provider.modelId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generate embedding for a single query
+ */
+export async function generateQueryEmbedding(query: string, model?: string): Promise<number[]> {
+  if (!query || query.trim().length === 0) {
+    throw new Error("Query cannot be empty");
+  }
+
+  const provider = getEmbeddingProvider(model);
+
+  try {
+    const counts: RedactionCounts = {};
+    const maskedQuery = maskText(query, counts);
+    logRedactions("query embedding", counts);
+
+    const [embedding] = await embedWithCache(provider, "search_query", [maskedQuery], async ([text]) => [
+      await provider.embedQuery(text),
+    ]);
+    return embedding;
   } catch (error) {
     console.error("Error generating query embedding:", error);
     throw error;
   }
 }
 
+/**
+ * Embedding models a user's completed documents were indexed with
+ */
+export async function getDocumentEmbeddingModels(userId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin.rpc("list_document_embedding_models", {
+    p_user_id: userId,
+  });
+  if (error) {
+    console.error("Error fetching document embedding models:", error);
+    throw new Error("Failed to fetch document embedding models");
+  }
+
+  const rows: Database["public"]["Functions"]["list_document_embedding_models"]["Returns"] = data || [];
+  // Documents indexed before the model was recorded used LEGACY_EMBEDDING_MODEL
+  return Array.from(new Set(rows.map((row) => row.embedding_model ?? LEGACY_EMBEDDING_MODEL)));
+}
+
+/**
+ * Embed a query with each of the given models (by default every configured
+ * one), keyed by model id, so it can be matched against documents indexed
+ * with them. Models that are no longer configured are skipped; their
+ * documents need re-indexing before they can be searched.
+ */
+export async function generateQueryEmbeddings(
+  query: string,
+  models: string[] = getEmbeddingProviders().map((provider) => provider.modelId)
+): Promise<Record<string, number[]>> {
+  const configured = new Set(getEmbeddingProviders().map((provider) => provider.modelId));
+  const unavailable = models.filter((model) => !configured.has(model));
+  if (unavailable.length > 0) {
+    console.warn(`Not searching documents indexed with unconfigured models: ${unavailable.join(", ")}`);
+  }
+  const available = models.filter((model) => configured.has(model));
+
+  const embeddings = await Promise.all(available.map((model) => generateQueryEmbedding(query, model)));
+  return Object.fromEntries(available.map((model, i) => [model, embeddings[i]]));
+}
+
 /**
  * Generate embeddings in batches to avoid rate limits
  */
 export async function generateEmbeddingsBatch(
   texts: string[],
   batchSize: number = 96, // Cohere free tier limit
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  model?: string
 ): Promise<number[][]> {
   if (texts.length === 0) {
     return [];
@@ -182,11 +477,11 @@ export async function generateEmbeddingsBatch(
   for (let i = 0; i < texts.length; i += batchSize) {
     const batch = texts.slice(i, i + batchSize);
     const batchNumber = Math.floor(i / batchSize) + 1;
-    
+
     try {
-      const batchEmbeddings = await generateEmbeddings(batch);
+      const batchEmbeddings = await generateEmbeddings(batch, model);
       embeddings.push(...batchEmbeddings);
-      
+
       // Report progress
       if (onProgress) {
         onProgress(batchNumber, totalBatches);
@@ -203,4 +498,4 @@ export async function generateEmbeddingsBatch(
   }
 
   return embeddings;
-}
\ No newline at end of file
+}
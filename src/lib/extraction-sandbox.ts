@@ -0,0 +1,149 @@
+/**
+ * Sandboxed text extraction
+ * Parsers (pdf-parse, mammoth, OCR) run in a worker thread rather than the
+ * ingestion process, so a pathological file cannot hang it: the worker is
+ * terminated once it runs past the time limit or the caller's deadline, and
+ * long documents are rejected by page count before they are rendered.
+ *
+ * The memory limit caps the worker's JavaScript heap only. Native memory
+ * (file buffers, the canvases pages are rendered to for OCR, Tesseract's
+ * WebAssembly memory) is shared with the process and is bounded only by the
+ * page limit, so a file can still use more than the limit outside the heap.
+ *
+ * Configuration:
+ * - EXTRACTION_MAX_MEMORY_MB caps the worker's JavaScript heap (default 1024)
+ * - EXTRACTION_TIMEOUT_SECONDS stops the worker (default 180, OCR is slow)
+ * - EXTRACTION_MAX_PAGES rejects longer documents (default 2000)
+ */
+
+import { Worker } from "worker_threads";
+import { UnprocessableFileError, type ProcessedDocument } from "@/lib/document-processor";
+
+export interface ExtractionLimits {
+  maxMemoryMb: number;
+  timeoutSeconds: number;
+  maxPages: number;
+}
+
+export interface ExtractionRequest {
+  buffer: Uint8Array;
+  filename: string;
+  fileType: string;
+  maxPages: number;
+}
+
+export type ExtractionResponse =
+  | { result: ProcessedDocument }
+  | { error: { message: string; unprocessable: boolean } };
+
+const DEFAULT_LIMITS: ExtractionLimits = {
+  maxMemoryMb: 1024,
+  // For runners without a deadline; the ingest worker route stops extraction
+  // earlier, at the end of its time budget
+  timeoutSeconds: 180,
+  maxPages: 2000,
+};
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  return Number(value) > 0 ? Number(value) : fallback;
+}
+
+/**
+ * Extraction limits from the environment
+ */
+export function getExtractionLimits(): ExtractionLimits {
+  return {
+    maxMemoryMb: positiveNumber(process.env.EXTRACTION_MAX_MEMORY_MB, DEFAULT_LIMITS.maxMemoryMb),
+    timeoutSeconds: positiveNumber(
+      process.env.EXTRACTION_TIMEOUT_SECONDS,
+      DEFAULT_LIMITS.timeoutSeconds
+    ),
+    maxPages: positiveNumber(process.env.EXTRACTION_MAX_PAGES, DEFAULT_LIMITS.maxPages),
+  };
+}
+
+/**
+ * Extract a document's text in a worker thread with memory, time and page
+ * limits. Exceeding a limit rejects with an UnprocessableFileError saying which.
+ * Reaching the caller's deadline (a timestamp in ms) first rejects with a plain
+ * Error instead, since the file may well extract given the full time limit.
+ */
+export function extractInSandbox(
+  buffer: Buffer,
+  filename: string,
+  fileType: string,
+  limits: ExtractionLimits = getExtractionLimits(),
+  deadline?: number
+): Promise<ProcessedDocument> {
+  const request: ExtractionRequest = { buffer, filename, fileType, maxPages: limits.maxPages };
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./extraction-worker.ts", import.meta.url), {
+      workerData: request,
+      resourceLimits: { maxOldGenerationSizeMb: limits.maxMemoryMb },
+    });
+
+    let settled = false;
+    const settle = (done: () => void) => {
+      if (!settled) {
+        settled = true;
+        clearTimeout(timer);
+        done();
+      }
+    };
+
+    // Stopping the worker is what actually ends the work; a timed-out promise would not
+    const timeoutMs = limits.timeoutSeconds * 1000;
+    const remainingMs = deadline !== undefined ? Math.max(0, deadline - Date.now()) : Infinity;
+    const timer = setTimeout(() => {
+      settle(() =>
+        reject(
+          remainingMs < timeoutMs
+            ? new Error("Text extraction did not finish before the worker's deadline")
+            : new UnprocessableFileError(
+                `Text extraction exceeded the ${limits.timeoutSeconds}s time limit`
+              )
+        )
+      );
+      worker.terminate();
+    }, Math.min(timeoutMs, remainingMs));
+
+    worker.on("message", (response: ExtractionResponse) => {
+      settle(() => {
+        if ("error" in response) {
+          const { message, unprocessable } = response.error;
+          reject(unprocessable ? new UnprocessableFileError(message) : new Error(message));
+          return;
+        }
+        // Buffers arrive as plain Uint8Arrays
+        const { result } = response;
+        resolve({
+          ...result,
+          ...(result.attachments && {
+            attachments: result.attachments.map((attachment) => ({
+              ...attachment,
+              content: Buffer.from(attachment.content),
+            })),
+          }),
+        });
+      });
+      worker.terminate();
+    });
+
+    worker.on("error", (error: NodeJS.ErrnoException) => {
+      settle(() =>
+        reject(
+          error.code === "ERR_WORKER_OUT_OF_MEMORY"
+            ? new UnprocessableFileError(
+                `Text extraction exceeded the ${limits.maxMemoryMb}MB memory limit`
+              )
+            : error
+        )
+      );
+    });
+
+    worker.on("exit", (code) => {
+      settle(() => reject(new Error(`Text extraction worker stopped unexpectedly (exit code ${code})`)));
+    });
+  });
+}
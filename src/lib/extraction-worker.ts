@@ -0,0 +1,22 @@
+/**
+ * Worker thread that extracts one document's text; see extraction-sandbox.ts
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { processDocument, UnprocessableFileError } from "@/lib/document-processor";
+import type { ExtractionRequest, ExtractionResponse } from "@/lib/extraction-sandbox";
+
+const { buffer, filename, fileType, maxPages } = workerData as ExtractionRequest;
+
+const respond = (response: ExtractionResponse) => parentPort?.postMessage(response);
+
+processDocument(Buffer.from(buffer), filename, fileType, { maxPages })
+  .then((result) => respond({ result }))
+  .catch((error) =>
+    respond({
+      error: {
+        message: error instanceof Error ? error.message : "Failed to extract text",
+        unprocessable: error instanceof UnprocessableFileError,
+      },
+    })
+  );
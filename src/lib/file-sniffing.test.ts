@@ -0,0 +1,103 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { checkFileFormat, decodeText, detectFileFormat, readZipDirectory } from "@/lib/file-sniffing";
+
+async function zipOf(files: Record<string, string>, compression: "STORE" | "DEFLATE" = "DEFLATE"): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression });
+}
+
+function utf16(text: string, byteOrder: "le" | "be"): Buffer {
+  const le = Buffer.from(text, "utf16le");
+  return byteOrder === "le"
+    ? Buffer.concat([Buffer.from([0xff, 0xfe]), le])
+    : Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from(le).swap16()]);
+}
+
+describe("detectFileFormat", () => {
+  it("recognises formats by their magic bytes", () => {
+    expect(detectFileFormat(Buffer.from("%PDF-1.7\n..."))).toBe("pdf");
+    expect(detectFileFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]))).toBe("png");
+    expect(detectFileFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("jpeg");
+    expect(detectFileFormat(Buffer.from([0x4d, 0x4d, 0x00, 0x2a]))).toBe("tiff");
+    expect(detectFileFormat(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))).toBe("ole");
+    expect(detectFileFormat(Buffer.from("{\\rtf1\\ansi Hello}"))).toBe("rtf");
+  });
+
+  it("accepts a PDF header after leading junk", () => {
+    expect(detectFileFormat(Buffer.concat([Buffer.alloc(200, 0x20), Buffer.from("%PDF-1.4")]))).toBe("pdf");
+  });
+
+  it("tells Word and OpenDocument files from other archives", async () => {
+    const docx = await zipOf({ "[Content_Types].xml": "<Types/>", "word/document.xml": "<w:document/>" });
+    const odt = await zipOf(
+      { mimetype: "application/vnd.oasis.opendocument.text", "content.xml": "<office:document-content/>" },
+      "STORE"
+    );
+    const archive = await zipOf({ "readme.txt": "hello" });
+
+    expect(detectFileFormat(docx)).toBe("docx");
+    expect(detectFileFormat(odt)).toBe("odt");
+    expect(detectFileFormat(archive)).toBe("zip");
+  });
+
+  it("tells text from binary data, including UTF-16 text", () => {
+    expect(detectFileFormat(Buffer.from("Plain contract text\n"))).toBe("text");
+    expect(detectFileFormat(utf16("Contract", "le"))).toBe("text");
+    expect(detectFileFormat(utf16("Contract", "be"))).toBe("text");
+    expect(detectFileFormat(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x00, 0x00]))).toBe("binary");
+  });
+});
+
+describe("checkFileFormat", () => {
+  it("accepts content that matches the claimed format", () => {
+    expect(checkFileFormat(Buffer.from("%PDF-1.7"), "pdf", "PDF")).toBeUndefined();
+  });
+
+  it("explains a mismatch", () => {
+    expect(checkFileFormat(Buffer.from("MZ\x00\x00binary"), "pdf", "PDF")).toBe(
+      "File content does not match its PDF type (found binary data)"
+    );
+  });
+
+  it("accepts the start of a Word document as far as it can tell", async () => {
+    const docx = await zipOf({ "word/document.xml": "<w:document>" + "x".repeat(10000) + "</w:document>" }, "STORE");
+
+    expect(checkFileFormat(docx.subarray(0, 1024), "docx", "Word")).toBeUndefined();
+    expect(checkFileFormat(await zipOf({ "readme.txt": "hello" }), "docx", "Word")).toBe(
+      "File content does not match its Word type (found ZIP archive)"
+    );
+  });
+});
+
+describe("readZipDirectory", () => {
+  it("reads entry names and compressed sizes from the central directory", async () => {
+    const buffer = await zipOf({ "a.txt": "a".repeat(10000), "folder/b.txt": "b" });
+
+    const entries = readZipDirectory(buffer);
+    expect(entries?.map((entry) => entry.name)).toEqual(["a.txt", "folder/", "folder/b.txt"]);
+    expect(entries?.[0].compressedSize).toBeGreaterThan(0);
+    expect(entries?.[0].compressedSize).toBeLessThan(10000);
+  });
+
+  it("gives up without the end of the archive", async () => {
+    const buffer = await zipOf({ "a.txt": "a".repeat(1000) });
+
+    expect(readZipDirectory(buffer.subarray(0, 40))).toBeUndefined();
+  });
+});
+
+describe("decodeText", () => {
+  it("decodes by the byte order mark and drops it", () => {
+    expect(decodeText(utf16("§ 1 Définitions", "le"))).toBe("§ 1 Définitions");
+    expect(decodeText(utf16("§ 1 Définitions", "be"))).toBe("§ 1 Définitions");
+    expect(decodeText(Buffer.from("\uFEFF§ 1 Définitions", "utf8"))).toBe("§ 1 Définitions");
+  });
+
+  it("reads text without a byte order mark as UTF-8", () => {
+    expect(decodeText(Buffer.from("Clause 2 – Fees", "utf8"))).toBe("Clause 2 – Fees");
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * File type detection from content
+ * Browsers report a file's type from its name, so a renamed or crafted file
+ * can claim to be anything. Files are checked against the signature ("magic
+ * bytes") of the format they claim before any parser sees them.
+ */
+
+export type FileFormat =
+  | "pdf"
+  | "docx"
+  | "odt"
+  | "zip"
+  | "ole"
+  | "rtf"
+  | "png"
+  | "jpeg"
+  | "tiff"
+  | "text"
+  | "binary";
+
+const FORMAT_NAMES: Record<FileFormat, string> = {
+  pdf: "PDF",
+  docx: "Word document",
+  odt: "OpenDocument text",
+  zip: "ZIP archive",
+  ole: "legacy Office document",
+  rtf: "RTF document",
+  png: "PNG image",
+  jpeg: "JPEG image",
+  tiff: "TIFF image",
+  text: "plain text",
+  binary: "binary data",
+};
+
+const SIGNATURES: Array<{ format: FileFormat; bytes: number[] }> = [
+  { format: "png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { format: "jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { format: "tiff", bytes: [0x49, 0x49, 0x2a, 0x00] }, // little-endian
+  { format: "tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] }, // big-endian
+  { format: "ole", bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] }, // .doc
+  { format: "zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { format: "zip", bytes: [0x50, 0x4b, 0x05, 0x06] }, // empty archive
+  { format: "rtf", bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66] }, // {\rtf
+];
+
+// PDF readers accept a header anywhere in the first 1024 bytes
+const PDF_HEADER_WINDOW = 1024;
+// Text files are recognised by the absence of NUL bytes at their start
+const TEXT_SAMPLE_BYTES = 8192;
+// ODF packages store their MIME type uncompressed as the first ZIP entry
+const ODT_MIMETYPE_ENTRY = "mimetypeapplication/vnd.oasis.opendocument.text";
+
+// ZIP end of central directory record: signature plus a comment of up to 64KB
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_ENTRY_SIGNATURE = 0x02014b50;
+const ZIP_END_MAX_SIZE = 22 + 0xffff;
+
+export interface ZipDirectoryEntry {
+  name: string;
+  compressedSize: number;
+}
+
+/**
+ * Entries of a ZIP file, read from its central directory, or undefined when
+ * the end of the file is not available (e.g. only the first part of an
+ * upload) or the archive is ZIP64
+ */
+export function readZipDirectory(buffer: Buffer): ZipDirectoryEntry[] | undefined {
+  for (let end = buffer.length - 22; end >= Math.max(0, buffer.length - ZIP_END_MAX_SIZE); end--) {
+    if (buffer.readUInt32LE(end) !== ZIP_END_SIGNATURE) {
+      continue;
+    }
+
+    const directorySize = buffer.readUInt32LE(end + 12);
+    const directoryOffset = buffer.readUInt32LE(end + 16);
+    if (directoryOffset + directorySize > end) {
+      return undefined;
+    }
+
+    const entries: ZipDirectoryEntry[] = [];
+    let position = directoryOffset;
+    while (position + 46 <= directoryOffset + directorySize) {
+      if (buffer.readUInt32LE(position) !== ZIP_ENTRY_SIGNATURE) {
+        return undefined;
+      }
+      const nameLength = buffer.readUInt16LE(position + 28);
+      const extraLength = buffer.readUInt16LE(position + 30);
+      const commentLength = buffer.readUInt16LE(position + 32);
+      entries.push({
+        name: buffer.subarray(position + 46, position + 46 + nameLength).toString("utf-8"),
+        compressedSize: buffer.readUInt32LE(position + 20),
+      });
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+  return undefined;
+}
+
+/**
+ * Detect a file's format from its content. ZIP-based formats need the whole
+ * file to tell a Word document from another archive.
+ */
+export function detectFileFormat(buffer: Buffer): FileFormat {
+  if (buffer.subarray(0, PDF_HEADER_WINDOW).includes("%PDF-")) {
+    return "pdf";
+  }
+
+  const signature = SIGNATURES.find(({ bytes }) =>
+    bytes.every((byte, index) => buffer[index] === byte)
+  );
+  if (signature?.format === "zip") {
+    if (buffer.subarray(30, 30 + ODT_MIMETYPE_ENTRY.length).toString("latin1") === ODT_MIMETYPE_ENTRY) {
+      return "odt";
+    }
+    const names = readZipDirectory(buffer)?.map((entry) => entry.name);
+    if (names?.includes("word/document.xml")) {
+      return "docx";
+    }
+    if (names?.includes("content.xml") && names.includes("META-INF/manifest.xml")) {
+      return "odt";
+    }
+    return "zip";
+  }
+  if (signature) {
+    return signature.format;
+  }
+
+  // UTF-16 text is full of NUL bytes but starts with a byte order mark
+  const sample = buffer.subarray(0, TEXT_SAMPLE_BYTES);
+  return textEncoding(buffer) !== "utf-8" || !sample.includes(0) ? "text" : "binary";
+}
+
+/**
+ * Encoding of a text file from its byte order mark, UTF-8 when it has none
+ */
+function textEncoding(buffer: Buffer): "utf-8" | "utf-16le" | "utf-16be" {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return "utf-16be";
+  }
+  return "utf-8";
+}
+
+/**
+ * Decode a text file in the encoding its byte order mark names, without the mark
+ */
+export function decodeText(buffer: Buffer): string {
+  return new TextDecoder(textEncoding(buffer)).decode(buffer);
+}
+
+export function describeFileFormat(format: FileFormat): string {
+  return FORMAT_NAMES[format];
+}
+
+/**
+ * Check a file's content against the format it claims to be, returning the
+ * reason when they do not match. Given only the start of a file, Word
+ * documents can only be checked as far as being a ZIP archive.
+ */
+export function checkFileFormat(
+  buffer: Buffer,
+  expected: FileFormat,
+  label: string
+): string | undefined {
+  const detected = detectFileFormat(buffer);
+  if (detected === expected) {
+    return undefined;
+  }
+  if (detected === "zip" && expected === "docx" && readZipDirectory(buffer) === undefined) {
+    return undefined;
+  }
+  return `File content does not match its ${label} type (found ${describeFileFormat(detected)})`;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { extractDefinedTerms, findDefinedTermsIn } from "@/lib/glossary";
+
+// Only the parsing is tested, so no database client is needed
+vi.mock("@/lib/supabase", () => ({ supabaseAdmin: {} }));
+
+const DEFINITIONS = `1. DEFINITIONS
+
+"Confidential Information" means any information disclosed by one party to the other that is marked confidential.
+
+"Services" shall have the meaning given in Schedule 1.
+
+This Agreement is made effective as of March 1, 2024 (the "Effective Date") between Acme Corp. (hereinafter referred to as "Acme") and Beta LLC ("Beta").`;
+
+describe("extractDefinedTerms", () => {
+  it("finds explicit and parenthetical definitions in document order", () => {
+    const terms = extractDefinedTerms(DEFINITIONS);
+
+    expect(terms.map((entry) => entry.term)).toEqual([
+      "Confidential Information",
+      "Services",
+      "Effective Date",
+      "Acme",
+      "Beta",
+    ]);
+    expect(terms[0].definition).toBe(
+      '"Confidential Information" means any information disclosed by one party to the other that is marked confidential.'
+    );
+    expect(terms[2].definition).toBe(
+      'This Agreement is made effective as of March 1, 2024 (the "Effective Date")'
+    );
+    expect(terms[4].definition).toBe('and Beta LLC ("Beta")');
+  });
+
+  it("gives ranges of the definitions in the text", () => {
+    for (const entry of extractDefinedTerms(DEFINITIONS)) {
+      expect(DEFINITIONS.slice(entry.startChar, entry.endChar).replace(/\s+/g, " ").trim()).toBe(
+        entry.definition
+      );
+    }
+  });
+
+  it("prefers an explicit definition over an earlier parenthetical one", () => {
+    const text = `The services described below (the "Services").\n\n"Services" means the consulting services in Schedule 1.`;
+
+    const [services] = extractDefinedTerms(text);
+    expect(services.definition).toBe('"Services" means the consulting services in Schedule 1.');
+  });
+
+  it("splits definitions that run together on one line", () => {
+    const text = `"Fees" means the amounts in Schedule 2. "Term" means the period in Section 3.`;
+
+    expect(extractDefinedTerms(text).map((entry) => entry.definition)).toEqual([
+      '"Fees" means the amounts in Schedule 2.',
+      '"Term" means the period in Section 3.',
+    ]);
+  });
+
+  it("ignores quoted sentences that are not terms", () => {
+    const text = `The notice shall read "This agreement is terminated as of today; no further work is due." and be signed.`;
+
+    expect(extractDefinedTerms(text)).toEqual([]);
+  });
+});
+
+describe("findDefinedTermsIn", () => {
+  const glossary = extractDefinedTerms(DEFINITIONS);
+
+  it("matches terms with their capitalisation, including plurals", () => {
+    const found = findDefinedTermsIn(
+      "Acme shall protect all Confidential Information and perform the Services.",
+      glossary
+    );
+    expect(found.map((entry) => entry.term)).toEqual(["Confidential Information", "Services", "Acme"]);
+  });
+
+  it("does not match the same words in lower case or inside other words", () => {
+    expect(findDefinedTermsIn("The services were confidential information of Acmes-Beta.", glossary)).toEqual([]);
+  });
+});
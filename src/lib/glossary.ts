@@ -0,0 +1,231 @@
+/**
+ * Defined terms
+ * Contracts define capitalised terms ("Confidential Information", "Effective
+ * Date") once and use them throughout. Definitions are extracted into a
+ * per-document glossary at ingestion so answers can be given the definition
+ * of every term a retrieved passage uses.
+ */
+
+import { supabaseAdmin } from "@/lib/supabase";
+import type { Source } from "@/lib/groq";
+
+export interface DefinedTerm {
+  term: string;
+  definition: string;
+  // Range of the definition in the document's extracted text
+  startChar: number;
+  endChar: number;
+  pageStart?: number;
+}
+
+// Longest definition kept; the start of a definition carries its meaning
+const MAX_DEFINITION_CHARS = 1000;
+const MAX_TERM_WORDS = 8;
+// Definitions added to the context per source
+const MAX_DEFINITIONS_PER_SOURCE = 8;
+
+const QUOTED_TERM = `["“]([A-Z][^"“”\\n]{0,80}?)["”]`;
+
+// "Confidential Information" means ..., "Term" shall have the meaning ...
+const MEANS_PATTERN = new RegExp(
+  `${QUOTED_TERM}\\s*(?:\\([^)\\n]{0,40}\\)\\s*)?,?\\s*(?:shall\\s+)?(?:means?|mean\\b|has\\s+the\\s+meaning|shall\\s+have\\s+the\\s+meaning|refers\\s+to|includes?)\\b`,
+  "g"
+);
+
+// ... effective as of March 1, 2024 (the "Effective Date")
+const PARENTHETICAL_PATTERN = new RegExp(
+  `\\((?:each\\s+|individually\\s+|collectively,?\\s+)?(?:an?\\s+|the\\s+)?(?:hereinafter(?:\\s+referred\\s+to\\s+as)?\\s+|referred\\s+to\\s+(?:herein\\s+)?as\\s+)?(?:the\\s+)?${QUOTED_TERM}(?:\\s+(?:or|and)\\s+(?:the\\s+)?["“][^"”\\n]{1,80}["”])?\\)`,
+  "g"
+);
+
+function isTerm(term: string): boolean {
+  return term.trim().split(/\s+/).length <= MAX_TERM_WORDS && !/[.;:]$/.test(term.trim());
+}
+
+/**
+ * End of a "means" definition: the end of its paragraph, or the start of the
+ * next quoted definition when definitions run together on one line
+ */
+function definitionEnd(text: string, start: number): number {
+  const paragraphEnd = text.slice(start).search(/\n\s*\n/);
+  let end = paragraphEnd === -1 ? text.length : start + paragraphEnd;
+
+  MEANS_PATTERN.lastIndex = start + 1;
+  const next = MEANS_PATTERN.exec(text);
+  if (next && next.index < end) {
+    end = next.index;
+  }
+  return Math.min(end, start + MAX_DEFINITION_CHARS);
+}
+
+/**
+ * Start of the text a parenthetical definition names: its sentence, or what
+ * follows the previous parenthetical definition in the same sentence
+ */
+function definedPhraseStart(text: string, position: number, previousEnd: number): number {
+  const before = text.slice(Math.max(0, position - MAX_DEFINITION_CHARS), position);
+  const boundary = Math.max(
+    before.lastIndexOf(". "),
+    before.lastIndexOf(".\n"),
+    before.lastIndexOf(";"),
+    before.lastIndexOf("\n\n")
+  );
+  const start = Math.max(
+    position - before.length + (boundary === -1 ? 0 : boundary + 1),
+    previousEnd
+  );
+  const leading = text.slice(start, position).search(/[^\s,]/);
+  return leading === -1 ? start : start + leading;
+}
+
+/**
+ * Extract defined terms from a document's text. Explicit definitions
+ * ("X" means ...) win over parenthetical ones ((the "X")) for the same term.
+ */
+export function extractDefinedTerms(text: string): DefinedTerm[] {
+  const terms = new Map<string, DefinedTerm>();
+
+  for (const match of Array.from(text.matchAll(MEANS_PATTERN))) {
+    const term = match[1].trim();
+    const key = term.toLowerCase();
+    if (!isTerm(term) || terms.has(key)) {
+      continue;
+    }
+    const startChar = match.index!;
+    const endChar = definitionEnd(text, startChar);
+    terms.set(key, { term, definition: text.slice(startChar, endChar).trim(), startChar, endChar });
+  }
+
+  let previousEnd = 0;
+  for (const match of Array.from(text.matchAll(PARENTHETICAL_PATTERN))) {
+    const term = match[1].trim();
+    const key = term.toLowerCase();
+    const startChar = definedPhraseStart(text, match.index!, previousEnd);
+    const endChar = match.index! + match[0].length;
+    previousEnd = endChar;
+    if (!isTerm(term) || terms.has(key)) {
+      continue;
+    }
+    terms.set(key, {
+      term,
+      definition: text.slice(startChar, endChar).replace(/\s+/g, " ").trim(),
+      startChar,
+      endChar,
+    });
+  }
+
+  return Array.from(terms.values()).sort((a, b) => a.startChar - b.startChar);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Defined terms a passage uses. Terms are matched with their capitalisation,
+ * as "Services" is the defined term and "services" is not. Plurals count.
+ */
+export function findDefinedTermsIn(content: string, glossary: DefinedTerm[]): DefinedTerm[] {
+  return glossary.filter((entry) =>
+    new RegExp(`(?<![\\w-])${escapeRegExp(entry.term)}(?:s|es)?(?![\\w-])`).test(content)
+  );
+}
+
+/**
+ * Replace a document's glossary
+ */
+export async function saveDocumentGlossary(
+  documentId: string,
+  glossary: DefinedTerm[]
+): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin
+    .from("document_definitions")
+    .delete()
+    .eq("document_id", documentId);
+  if (deleteError) {
+    throw new Error(`Failed to clear previous definitions: ${deleteError.message}`);
+  }
+
+  if (glossary.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.from("document_definitions").insert(
+    glossary.map((entry) => ({
+      document_id: documentId,
+      term: entry.term,
+      definition: entry.definition,
+      start_char: entry.startChar,
+      end_char: entry.endChar,
+      page_start: entry.pageStart ?? null,
+    }))
+  );
+  if (error) {
+    throw new Error(`Failed to insert definitions: ${error.message}`);
+  }
+}
+
+/**
+ * Glossaries of the given documents, keyed by document id
+ */
+export async function getDocumentGlossaries(
+  documentIds: string[]
+): Promise<Map<string, DefinedTerm[]>> {
+  const glossaries = new Map<string, DefinedTerm[]>();
+  if (documentIds.length === 0) {
+    return glossaries;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("document_definitions")
+    .select("document_id, term, definition, start_char, end_char, page_start")
+    .in("document_id", documentIds)
+    .order("start_char", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching glossaries:", error);
+    throw new Error("Failed to fetch document glossaries");
+  }
+
+  for (const row of data || []) {
+    const glossary = glossaries.get(row.document_id) || [];
+    glossary.push({
+      term: row.term,
+      definition: row.definition,
+      startChar: row.start_char,
+      endChar: row.end_char,
+      ...(row.page_start !== null && { pageStart: row.page_start }),
+    });
+    glossaries.set(row.document_id, glossary);
+  }
+  return glossaries;
+}
+
+/**
+ * Give each source the definitions of the defined terms it uses, except
+ * those the passage itself contains
+ */
+export async function attachDefinitions(sources: Source[]): Promise<Source[]> {
+  const documentIds = Array.from(new Set(sources.map((source) => source.documentId)));
+  const glossaries = await getDocumentGlossaries(documentIds);
+
+  return sources.map((source) => {
+    const glossary = glossaries.get(source.documentId);
+    if (!glossary) {
+      return source;
+    }
+
+    const definitions = findDefinedTermsIn(source.content, glossary)
+      .filter(
+        (entry) =>
+          source.startChar === undefined ||
+          source.endChar === undefined ||
+          entry.startChar >= source.endChar ||
+          entry.endChar <= source.startChar
+      )
+      .slice(0, MAX_DEFINITIONS_PER_SOURCE)
+      .map(({ term, definition }) => ({ term, definition }));
+
+    return definitions.length > 0 ? { ...source, definitions } : source;
+  });
+}
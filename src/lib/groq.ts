@@ -1,4 +1,13 @@
 import Groq from "groq-sdk";
+import type { ChunkReference } from "@/lib/cross-references";
+import type { ClauseChange, ClauseRef } from "@/lib/redline";
+import {
+  createRedactionSession,
+  logRedactions,
+  type RedactionSession,
+} from "@/lib/redaction";
+import { languageName } from "@/lib/language";
+import { formatTableMarkdown, type TableData } from "@/lib/tables";
 
 const groq = new Groq({
   apiKey: process.env.GROQ_API_KEY,
@@ -24,6 +33,26 @@ export interface Source {
   content: string;
   score: number;
   chunkIndex: number;
+  // Range of the passage in the document's extracted text, for highlighting
+  startChar?: number;
+  endChar?: number;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+  heading?: string;
+  table?: TableData;
+  clauseTypes?: string[];
+  origin?: string;
+  // ISO 639-1 code of the passage's language
+  language?: string;
+  // Definitions of the defined terms the passage uses
+  definitions?: Array<{ term: string; definition: string }>;
+  // Case law, statutes and treaties the passage cites
+  citations?: string[];
+  // Sections and exhibits the passage refers to
+  references?: ChunkReference[];
+  // Set on passages added because a retrieved passage refers to them
+  referencedFrom?: { label: string; chunkIndex: number };
 }
 
 /**
@@ -33,7 +62,7 @@ const SYSTEM_PROMPT = `You are a legal information assistant that provides accur
 
 CRITICAL RULES:
 1. NEVER make up or invent information not present in the provided context
-2. ALWAYS cite the specific document and section when making claims
+2. ALWAYS cite the specific document, page and section when making claims
 3. If information is not available in the provided documents, explicitly state: "I don't have information about this in the provided documents"
 4. When analyzing cases, only reference cases that appear in the context
 5. Be precise and accurate - legal information requires exactness
@@ -43,12 +72,58 @@ CRITICAL RULES:
 
 FORMAT YOUR RESPONSES:
 - Use clear, professional language
-- Include inline citations like [Source: filename.pdf, Section X]
+- Include inline citations like [Source: filename.pdf, p. 14, Section 7.2(b)], using the page numbers and sections given for each document
+- For emails and their attachments, cite the origin given, e.g. [Source: email from Jane Doe on 2024-03-01]
+- Read capitalised defined terms with the definitions given for them in that document
+- When asked which authorities the material relies on, list the "Authorities cited" given for the documents, with the documents citing each
+- Passages marked "Referenced context" were not retrieved for the question; they are the sections other passages refer to (e.g. "subject to Section 9.3"), so use them to complete those passages
+- Answer in the language the question is asked in. Quote passages in their original language, and when that differs from the language of your answer, follow the quote with a translation
 - Structure answers with clear reasoning
 - Acknowledge uncertainty when appropriate
 
 Remember: Accuracy and truthfulness are paramount. It's better to say "I don't know" than to provide incorrect information.`;
 
+const PLACEHOLDER_NOTE = `
+
+Some values in the input have been replaced by placeholders such as [CLIENT_1] or [SSN_1]. Copy placeholders exactly as written whenever you refer to those values.`;
+
+/**
+ * Redact sensitive values from the messages of an outbound request, telling
+ * the model about the placeholders when any were used
+ */
+function redactMessages(messages: ChatMessage[], redaction: RedactionSession): ChatMessage[] {
+  const redacted = messages.map((message) => ({
+    ...message,
+    content: redaction.redact(message.content),
+  }));
+  if (Object.keys(redaction.counts()).length === 0) {
+    return redacted;
+  }
+  return redacted.map((message, index) =>
+    index === 0 && message.role === "system"
+      ? { ...message, content: message.content + PLACEHOLDER_NOTE }
+      : message
+  );
+}
+
+/**
+ * Restore placeholders in every string of a parsed JSON reply
+ */
+function restoreValues(value: unknown, redaction: RedactionSession): unknown {
+  if (typeof value === "string") {
+    return redaction.restore(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restoreValues(item, redaction));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restoreValues(item, redaction)])
+    );
+  }
+  return value;
+}
+
 /**
  * Generate a response using Groq with retrieved context
  */
@@ -74,16 +149,18 @@ export async function generateResponse(
       },
     ];
 
-    // Call Groq API
+    // Call Groq API with sensitive values masked
+    const redaction = createRedactionSession();
     const completion = await groq.chat.completions.create({
       model: "llama-3.1-70b-versatile", // Free tier model
-      messages: messages as any,
+      messages: redactMessages(messages, redaction) as any,
       temperature: 0.1, // Low temperature for factual responses
       max_tokens: 2000,
       top_p: 0.9,
     });
 
-    const response = completion.choices[0]?.message?.content || "";
+    logRedactions("chat response", redaction.counts());
+    const response = redaction.restore(completion.choices[0]?.message?.content || "");
 
     return {
       content: response,
@@ -99,6 +176,20 @@ export async function generateResponse(
   }
 }
 
+/**
+ * Format a source's page range for citations, e.g. "p. 14" or "pp. 14-15"
+ */
+export function formatPageRange(source: Pick<Source, "pageStart" | "pageEnd">): string | null {
+  if (source.pageStart === undefined) {
+    return null;
+  }
+
+  const pageEnd = source.pageEnd ?? source.pageStart;
+  return pageEnd === source.pageStart
+    ? `p. ${source.pageStart}`
+    : `pp. ${source.pageStart}-${pageEnd}`;
+}
+
 /**
  * Build context string from retrieved sources
  */
@@ -108,11 +199,51 @@ function buildContext(sources: Source[]): string {
   }
 
   let context = "RELEVANT LEGAL DOCUMENTS:\n\n";
+  // Each document's definition of a term is given once, with the first passage using it
+  const defined = new Set<string>();
 
   sources.forEach((source, index) => {
-    context += `[Document ${index + 1}: ${source.filename}]\n`;
-    context += `Relevance Score: ${(source.score * 100).toFixed(1)}%\n`;
-    context += `Content:\n${source.content}\n\n`;
+    const pages = formatPageRange(source);
+    context += `[Document ${index + 1}: ${source.filename}${pages ? `, ${pages}` : ""}]\n`;
+    if (source.origin) {
+      context += `Origin: ${source.origin}\n`;
+    }
+    if (source.language && source.language !== "en") {
+      context += `Language: ${languageName(source.language)}\n`;
+    }
+    if (source.heading) {
+      context += `Heading: ${source.heading}\n`;
+    }
+    if (source.sectionPath) {
+      context += `Section: ${source.sectionPath}\n`;
+    }
+    if (source.clauseTypes?.length) {
+      context += `Clause types: ${source.clauseTypes.join(", ")}\n`;
+    }
+    if (source.citations?.length) {
+      context += `Authorities cited: ${source.citations.join("; ")}\n`;
+    }
+    if (source.referencedFrom) {
+      const { label, chunkIndex } = source.referencedFrom;
+      const citing = sources.findIndex(
+        (other) => other.documentId === source.documentId && other.chunkIndex === chunkIndex
+      );
+      context += `Referenced context: ${label}, referred to by Document ${citing + 1}\n`;
+    } else {
+      context += `Relevance Score: ${(source.score * 100).toFixed(1)}%\n`;
+    }
+    context += `Content:\n${source.table ? formatTableMarkdown(source.table) : source.content}\n\n`;
+    const definitions = (source.definitions || []).filter(
+      ({ term }) => !defined.has(`${source.documentId}:${term}`)
+    );
+    if (definitions.length > 0) {
+      context += "Defined terms used above (as defined in this document):\n";
+      definitions.forEach(({ term, definition }) => {
+        defined.add(`${source.documentId}:${term}`);
+        context += `- "${term}": ${definition}\n`;
+      });
+      context += "\n";
+    }
     context += "---\n\n";
   });
 
@@ -160,20 +291,27 @@ export async function* generateStreamingResponse(
       },
     ];
 
+    const redaction = createRedactionSession();
     const stream = await groq.chat.completions.create({
       model: "llama-3.1-70b-versatile",
-      messages: messages as any,
+      messages: redactMessages(messages, redaction) as any,
       temperature: 0.1,
       max_tokens: 2000,
       stream: true,
     });
+    logRedactions("streaming chat response", redaction.counts());
 
+    const restorer = redaction.createStreamRestorer();
     for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || "";
+      const content = restorer.push(chunk.choices[0]?.delta?.content || "");
       if (content) {
         yield content;
       }
     }
+    const rest = restorer.flush();
+    if (rest) {
+      yield rest;
+    }
   } catch (error) {
     console.error("Error generating streaming response:", error);
     throw new Error("Failed to generate streaming response");
@@ -222,4 +360,213 @@ export async function analyzeQuery(
       reasoning: "Error analyzing query",
     };
   }
-}
\ No newline at end of file
+}
+// Keep redline prompts well inside the model's context window
+const MAX_REDLINE_CONTEXT_CHARS = 24000;
+
+const REDLINE_SYSTEM_PROMPT = `You are a legal information assistant reviewing a redline between two versions of a legal document.
+
+CRITICAL RULES:
+1. Describe ONLY changes present in the redline provided; never invent changes
+2. Focus on material changes: obligations, rights, amounts, dates, deadlines, liability, termination, governing law and defined terms
+3. Group purely editorial changes (typos, renumbering, formatting) into a single brief note
+4. Cite every change with BOTH versions, using the citations given for it, e.g. [Base: v1.pdf, Section 7.2, p. 3] -> [Revised: v2.pdf, Section 7.3, p. 4]
+5. For inserted or deleted clauses cite the one version that contains it
+6. Never provide legal advice; end with: "This is informational only and not legal advice."`;
+
+/**
+ * Format a clause location for redline citations
+ */
+function formatClauseCitation(label: string, filename: string, ref: ClauseRef): string {
+  const pages = formatPageRange({ pageStart: ref.pageStart, pageEnd: ref.pageEnd });
+  return `[${label}: ${[filename, ref.sectionPath && `Section ${ref.sectionPath}`, pages]
+    .filter(Boolean)
+    .join(", ")}]`;
+}
+
+/**
+ * Build the redline context: each change with citations and [-deleted-]{+inserted+} markup
+ */
+function buildRedlineContext(
+  baseFilename: string,
+  revisedFilename: string,
+  changes: ClauseChange[]
+): string {
+  let context = "";
+  let included = 0;
+  const changed = changes.filter((change) => change.status !== "unchanged");
+
+  for (const change of changed) {
+    const citations = [
+      change.base && formatClauseCitation("Base", baseFilename, change.base),
+      change.revised && formatClauseCitation("Revised", revisedFilename, change.revised),
+    ]
+      .filter(Boolean)
+      .join(" -> ");
+    const markup = change.ops
+      .map((op) =>
+        op.type === "delete" ? `[-${op.text}-]` : op.type === "insert" ? `{+${op.text}+}` : op.text
+      )
+      .join("");
+
+    const entry = `${change.status.toUpperCase()} ${citations}\n${markup}\n\n`;
+    if (context.length + entry.length > MAX_REDLINE_CONTEXT_CHARS) {
+      break;
+    }
+    context += entry;
+    included++;
+  }
+
+  if (included < changed.length) {
+    context += `(${changed.length - included} further changed clauses omitted for length)\n`;
+  }
+
+  return context;
+}
+
+/**
+ * Summarize the material changes between two document versions
+ */
+export async function summarizeRedline(
+  baseFilename: string,
+  revisedFilename: string,
+  changes: ClauseChange[]
+): Promise<GroqResponse> {
+  try {
+    const context = buildRedlineContext(baseFilename, revisedFilename, changes);
+
+    const redaction = createRedactionSession();
+    const completion = await groq.chat.completions.create({
+      model: "llama-3.1-70b-versatile",
+      messages: redactMessages(
+        [
+          { role: "system", content: REDLINE_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `BASE VERSION: ${baseFilename}
+REVISED VERSION: ${revisedFilename}
+
+REDLINE (deletions marked [-like this-], insertions marked {+like this+}):
+
+${context || "No changes."}
+
+Summarize the material changes from the base to the revised version, most significant first, with citations to both versions.
+
+SUMMARY:`,
+          },
+        ],
+        redaction
+      ),
+      temperature: 0.1,
+      max_tokens: 1500,
+    });
+    logRedactions("redline summary", redaction.counts());
+
+    return {
+      content: redaction.restore(completion.choices[0]?.message?.content || ""),
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0,
+      },
+    };
+  } catch (error) {
+    console.error("Error summarizing redline:", error);
+    throw new Error("Failed to generate redline summary from LLM");
+  }
+}
+
+const CONTRACT_FIELDS_PROMPT = `You extract key terms from legal contracts. Answer with a single JSON object with exactly these keys:
+- "parties": array of the contracting parties' legal names, without roles or defined-term labels
+- "effectiveDate": effective date as YYYY-MM-DD, or null
+- "term": the initial term as written (e.g. "three (3) years"), or null
+- "termMonths": the initial term in months as a number, or null
+- "governingLaw": the state or country whose law governs (e.g. "New York", "England and Wales"), or null
+- "jurisdiction": the place whose courts have jurisdiction over disputes, or null
+- "renewalTerms": one sentence summarizing how the contract renews, or null
+- "autoRenews": true if it renews automatically, false if renewal needs action, null if not stated
+- "contractValue": the total contract value or price as a number, or null
+- "currency": ISO 4217 code of contractValue (e.g. "USD"), or null
+
+Use ONLY what the text states. Use null for anything not stated; never guess.`;
+
+/**
+ * Extract key contract terms as JSON; the caller validates the fields
+ */
+export async function extractContractFields(text: string): Promise<unknown> {
+  try {
+    const redaction = createRedactionSession();
+    const completion = await groq.chat.completions.create({
+      model: "llama-3.1-70b-versatile",
+      messages: redactMessages(
+        [
+          { role: "system", content: CONTRACT_FIELDS_PROMPT },
+          { role: "user", content: `CONTRACT TEXT:\n\n${text}` },
+        ],
+        redaction
+      ),
+      temperature: 0,
+      max_tokens: 800,
+      response_format: { type: "json_object" },
+    });
+    logRedactions("contract field extraction", redaction.counts());
+
+    // Parties may come back as placeholders, so restore them after parsing
+    return restoreValues(JSON.parse(completion.choices[0]?.message?.content || "{}"), redaction);
+  } catch (error) {
+    console.error("Error extracting contract fields:", error);
+    throw new Error("Failed to extract contract fields from LLM");
+  }
+}
+
+/**
+ * Label each passage with the clause types (taxonomy ids) it contains
+ */
+export async function classifyClauses(
+  passages: string[],
+  taxonomy: Array<{ id: string; label: string; description: string }>
+): Promise<string[][]> {
+  try {
+    const types = taxonomy
+      .map((type) => `- "${type.id}": ${type.label} (${type.description})`)
+      .join("\n");
+    const numbered = passages
+      .map((passage, index) => `PASSAGE ${index + 1}:\n${passage}`)
+      .join("\n\n---\n\n");
+
+    const redaction = createRedactionSession();
+    const completion = await groq.chat.completions.create({
+      model: "llama-3.1-70b-versatile",
+      messages: redactMessages(
+        [
+          {
+            role: "system",
+            content: `You classify passages from legal documents by the clause types they contain.
+
+CLAUSE TYPES:
+${types}
+
+Answer with a JSON object {"labels": [[...], [...], ...]} holding one array of clause type ids per passage, in order. A passage may have several types or none ([]). Only label a type when the passage actually contains that kind of provision, not when it merely mentions the word. Use only the ids listed above.`,
+          },
+          { role: "user", content: numbered },
+        ],
+        redaction
+      ),
+      temperature: 0,
+      max_tokens: 60 * passages.length + 100,
+      response_format: { type: "json_object" },
+    });
+    logRedactions("clause classification", redaction.counts());
+
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || "{}");
+    if (!Array.isArray(parsed.labels) || parsed.labels.length !== passages.length) {
+      throw new Error("Unexpected classification format");
+    }
+    return parsed.labels.map((labels: unknown) =>
+      Array.isArray(labels) ? labels.filter((label): label is string => typeof label === "string") : []
+    );
+  } catch (error) {
+    console.error("Error classifying clauses:", error);
+    throw new Error("Failed to classify clauses with LLM");
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * Document ingestion pipeline
+ * Extraction, chunking, embedding, vector upsert and chunk storage run as
+ * separate steps with a checkpoint after each, so a retried job resumes from
+ * the last completed step instead of starting over
+ */
+
+import { supabaseAdmin } from "@/lib/supabase";
+import {
+  chunkDocument,
+  cleanProcessedDocument,
+  findPageRange,
+  type DocumentChunk,
+  type ProcessedDocument,
+} from "@/lib/document-processor";
+import {
+  contractMetadataColumns,
+  extractContractMetadata,
+  type ContractMetadata,
+} from "@/lib/contract-metadata";
+import { classifyChunks } from "@/lib/clause-taxonomy";
+import { saveChunkCitations } from "@/lib/citations";
+import { linkCrossReferences } from "@/lib/cross-references";
+import { extractDefinedTerms, saveDocumentGlossary } from "@/lib/glossary";
+import { promoteLatestVersion } from "@/lib/document-versions";
+import { deleteDocument } from "@/lib/documents";
+import { describeEmail, type EmailAttachment } from "@/lib/email-parser";
+import { extractInSandbox, getExtractionLimits } from "@/lib/extraction-sandbox";
+import { generateEmbeddingsBatch, embeddingModelFor, getEmbeddingProvider } from "@/lib/embeddings";
+import { detectLanguage } from "@/lib/language";
+import { upsertVectors, deleteDocumentVectors } from "@/lib/vector-store";
+
+// Bump when extraction, cleaning or chunking changes so stale documents can be reprocessed
+export const PIPELINE_VERSION = "14";
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+
+export const INGESTION_STEPS = [
+  "extracted",
+  "analyzed",
+  "chunked",
+  "classified",
+  "embedded",
+  "upserted",
+  "saved",
+] as const;
+export type IngestionStep = (typeof INGESTION_STEPS)[number];
+
+/**
+ * The runner's time budget ran out between steps. The job is handed back to
+ * the queue and continues from its last checkpoint on the next run.
+ */
+export class IngestionDeadlineError extends Error {
+  constructor(nextStep: IngestionStep) {
+    super(`Time budget ran out before step "${nextStep}"`);
+    this.name = "IngestionDeadlineError";
+  }
+}
+
+export interface IngestionContext {
+  parentDocumentId?: string;
+  origin?: string;
+  depth: number;
+  bundle?: string; // ZIP archive the document was unpacked from
+  replacesDocumentId?: string; // Deleted once this document has been processed
+}
+
+export interface IngestionInput {
+  documentId: string;
+  userId: string;
+  filename: string;
+  fileType: string;
+  context: IngestionContext;
+}
+
+export interface AttachmentSummary {
+  filename: string;
+  documentId?: string;
+  skipped?: string;
+}
+
+/**
+ * Storage and side effects supplied by the job runner
+ */
+export interface PipelineHooks {
+  completedStep: IngestionStep | null; // resume after this step
+  attempt: number;
+  deadline?: number; // when the runner's time is up (ms timestamp); extraction stops by then
+  loadInput(): Promise<Buffer>;
+  loadCheckpoint<T>(step: IngestionStep): Promise<T>;
+  saveCheckpoint(step: IngestionStep, data: unknown): Promise<void>;
+  registerAttachments(
+    attachments: EmailAttachment[],
+    origin: string | undefined
+  ): Promise<AttachmentSummary[]>;
+}
+
+interface ExtractedCheckpoint {
+  text: string;
+  pages?: ProcessedDocument["pages"];
+  headings?: ProcessedDocument["headings"];
+  tables?: ProcessedDocument["tables"];
+  metadata: ProcessedDocument["metadata"];
+  origin?: string;
+  attachments?: AttachmentSummary[];
+}
+
+/**
+ * Settings recorded with each document so its index can be compared to the current pipeline
+ */
+export function getPipelineSettings(embeddingModel: string = getEmbeddingProvider().modelId) {
+  return {
+    version: PIPELINE_VERSION,
+    chunkSize: CHUNK_SIZE,
+    chunkOverlap: CHUNK_OVERLAP,
+    embeddingModel,
+  };
+}
+
+/**
+ * Update the document's progress shown on the documents page
+ */
+export async function updateDocumentProgress(
+  documentId: string,
+  step: string,
+  progress?: number
+): Promise<void> {
+  try {
+    await supabaseAdmin
+      .from("documents")
+      .update({
+        metadata: {
+          processingStep: step,
+          progress: progress,
+          lastUpdate: new Date().toISOString(),
+        },
+      })
+      .eq("id", documentId);
+  } catch (e) {
+    // Don't fail processing if progress update fails
+    console.warn(`[${documentId}] Failed to update progress:`, e);
+  }
+}
+
+/**
+ * Run the remaining pipeline steps for a document and mark it completed
+ */
+export async function runIngestionPipeline(
+  input: IngestionInput,
+  hooks: PipelineHooks
+): Promise<void> {
+  const { documentId, userId, filename, fileType, context } = input;
+  const startTime = Date.now();
+  const updateProgress = (step: string, progress?: number) =>
+    updateDocumentProgress(documentId, step, progress);
+
+  const completed = (step: IngestionStep) =>
+    hooks.completedStep !== null &&
+    INGESTION_STEPS.indexOf(hooks.completedStep) >= INGESTION_STEPS.indexOf(step);
+  // Steps are not interrupted, so only start one while the runner has time left
+  const checkDeadline = (step: IngestionStep) => {
+    if (hooks.deadline !== undefined && Date.now() >= hooks.deadline) {
+      throw new IngestionDeadlineError(step);
+    }
+  };
+
+  if (hooks.completedStep) {
+    console.log(`[${documentId}] Resuming ${filename} after step "${hooks.completedStep}"`);
+  } else {
+    console.log(`[${documentId}] Starting processing for ${filename}`);
+  }
+
+  // Step 1: Extract text from document
+  let extracted: ExtractedCheckpoint;
+  if (completed("extracted")) {
+    extracted = await hooks.loadCheckpoint<ExtractedCheckpoint>("extracted");
+  } else {
+    checkDeadline("extracted");
+    await updateProgress("Extracting text from document...");
+    console.log(`[${documentId}] Extracting text...`);
+
+    const buffer = await hooks.loadInput();
+
+    // Parsers run in a worker with memory, time and page limits
+    const processed = await extractInSandbox(
+      buffer,
+      filename,
+      fileType,
+      getExtractionLimits(),
+      hooks.deadline
+    );
+
+    if (!cleanProcessedDocument(processed).text.trim()) {
+      throw new Error("Document appears to be empty or could not extract text");
+    }
+
+    // Emails are cited by sender and date; their attachments by the email they came in
+    const email = processed.metadata.email;
+    const origin = email ? describeEmail(email) : context.origin;
+    const childOrigin = email ? `Attachment to ${describeEmail(email, "email")}` : origin;
+
+    let attachments: AttachmentSummary[] | undefined;
+    if (processed.attachments && processed.attachments.length > 0) {
+      await updateProgress("Registering attachments...");
+      attachments = await hooks.registerAttachments(processed.attachments, childOrigin);
+    }
+
+    extracted = {
+      text: processed.text,
+      pages: processed.pages,
+      headings: processed.headings,
+      tables: processed.tables,
+      metadata: processed.metadata,
+      origin,
+      attachments,
+    };
+    await hooks.saveCheckpoint("extracted", extracted);
+  }
+
+  // Step 2: Extract key contract terms
+  let contract: ContractMetadata;
+  if (completed("analyzed")) {
+    contract = await hooks.loadCheckpoint<ContractMetadata>("analyzed");
+  } else {
+    checkDeadline("analyzed");
+    await updateProgress("Extracting contract terms...");
+    console.log(`[${documentId}] Extracting contract metadata...`);
+    contract = await extractContractMetadata(extracted.text);
+    await hooks.saveCheckpoint("analyzed", contract);
+  }
+
+  const language = detectLanguage(extracted.text);
+
+  // Step 3: Chunk the document
+  let chunks: DocumentChunk[];
+  if (completed("chunked")) {
+    chunks = await hooks.loadCheckpoint<DocumentChunk[]>("chunked");
+  } else {
+    checkDeadline("chunked");
+    await updateProgress("Chunking document...");
+    const cleaned = cleanProcessedDocument({
+      text: extracted.text,
+      pages: extracted.pages,
+      metadata: extracted.metadata,
+    });
+    console.log(`[${documentId}] Chunking document (${cleaned.text.length} chars)...`);
+
+    chunks = await chunkDocument(cleaned.text, filename, {
+      chunkSize: CHUNK_SIZE,
+      chunkOverlap: CHUNK_OVERLAP,
+      pages: extracted.pages,
+      headings: extracted.headings,
+      tables: extracted.tables,
+      sourceMap: cleaned.sourceMap,
+    });
+
+    if (chunks.length === 0) {
+      throw new Error("No chunks created from document");
+    }
+
+    // Link "subject to Section 9.3" to the chunks holding Section 9.3
+    linkCrossReferences(chunks).forEach((references, index) => {
+      if (references.length > 0) {
+        chunks[index].metadata.references = references;
+      }
+    });
+
+    // Short chunks (headings, signature blocks) take the document's language
+    chunks.forEach((chunk) => {
+      const chunkLanguage = detectLanguage(chunk.content) ?? language;
+      if (chunkLanguage) {
+        chunk.metadata.language = chunkLanguage;
+      }
+    });
+
+    console.log(`[${documentId}] Created ${chunks.length} chunks`);
+    await hooks.saveCheckpoint("chunked", chunks);
+  }
+
+  // Step 4: Label chunks with clause types
+  let clauseTypes: string[][];
+  if (completed("classified")) {
+    clauseTypes = await hooks.loadCheckpoint<string[][]>("classified");
+  } else {
+    checkDeadline("classified");
+    await updateProgress("Classifying clauses...");
+    console.log(`[${documentId}] Classifying ${chunks.length} chunks...`);
+    clauseTypes = await classifyChunks(chunks);
+    await hooks.saveCheckpoint("classified", clauseTypes);
+  }
+  chunks.forEach((chunk, index) => {
+    if (clauseTypes[index]?.length) {
+      chunk.metadata.clauseTypes = clauseTypes[index];
+    }
+  });
+
+  // Step 5: Generate embeddings with progress tracking
+  // Documents with non-English text are embedded with the multilingual model
+  const embeddingModel = embeddingModelFor(chunks.map((chunk) => chunk.metadata.language));
+  let embeddings: number[][];
+  if (completed("embedded")) {
+    embeddings = await hooks.loadCheckpoint<number[][]>("embedded");
+  } else {
+    checkDeadline("embedded");
+    await updateProgress("Generating embeddings...", 0);
+    console.log(
+      `[${documentId}] Generating embeddings for ${chunks.length} chunks with ${embeddingModel}...`
+    );
+
+    embeddings = await generateEmbeddingsBatch(
+      chunks.map((chunk) => chunk.content),
+      96, // batch size
+      (current, total) => {
+        const progress = Math.round((current / total) * 100);
+        updateProgress(`Generating embeddings... ${current}/${total}`, progress);
+      },
+      embeddingModel
+    );
+
+    if (embeddings.length !== chunks.length) {
+      throw new Error(`Embedding count mismatch: expected ${chunks.length}, got ${embeddings.length}`);
+    }
+
+    console.log(`[${documentId}] Generated ${embeddings.length} embeddings`);
+    await hooks.saveCheckpoint("embedded", embeddings);
+  }
+
+  // Step 6: Upsert to vector store
+  let vectorIds: string[];
+  if (completed("upserted")) {
+    vectorIds = await hooks.loadCheckpoint<string[]>("upserted");
+  } else {
+    checkDeadline("upserted");
+    await updateProgress("Saving to vector database...");
+    console.log(`[${documentId}] Upserting vectors to Pinecone...`);
+
+    // A previous attempt may have upserted some vectors before failing
+    if (hooks.attempt > 1) {
+      await deleteDocumentVectors(documentId, userId).catch((error) =>
+        console.warn(`[${documentId}] Failed to clear vectors from previous attempt:`, error)
+      );
+    }
+
+    vectorIds = await Promise.race([
+      upsertVectors(
+        embeddings,
+        chunks,
+        documentId,
+        userId,
+        fileType,
+        extracted.origin,
+        contract,
+        embeddingModel
+      ),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error("Vector upsert timeout (120s)")), 120000)
+      ),
+    ]);
+
+    console.log(`[${documentId}] Upserted ${vectorIds.length} vectors`);
+    await hooks.saveCheckpoint("upserted", vectorIds);
+  }
+
+  // Step 7: Save chunks, citations and defined terms to database
+  if (!completed("saved")) {
+    checkDeadline("saved");
+    await updateProgress("Saving document chunks...");
+    console.log(`[${documentId}] Saving chunks to database...`);
+
+    // Replace any chunks left behind by a previous attempt
+    const { error: deleteError } = await supabaseAdmin
+      .from("document_chunks")
+      .delete()
+      .eq("document_id", documentId);
+    if (deleteError) {
+      throw new Error(`Failed to clear previous chunks: ${deleteError.message}`);
+    }
+
+    const chunkRecords = chunks.map((chunk, index) => ({
+      document_id: documentId,
+      chunk_index: index,
+      content: chunk.content,
+      metadata: chunk.metadata,
+      vector_id: vectorIds[index],
+    }));
+
+    const savedChunks: Array<{ id: string; content: string }> = [];
+    const batchSize = 100;
+    for (let i = 0; i < chunkRecords.length; i += batchSize) {
+      const batch = chunkRecords.slice(i, i + batchSize);
+      const { data, error } = await supabaseAdmin
+        .from("document_chunks")
+        .insert(batch)
+        .select("id, content");
+      if (error) {
+        throw new Error(`Failed to insert chunks batch: ${error.message}`);
+      }
+      savedChunks.push(...(data || []));
+    }
+
+    // Case law, statutes and treaties cited, for the "documents citing X" search
+    const citationCount = await saveChunkCitations(documentId, userId, savedChunks);
+    console.log(`[${documentId}] Saved ${citationCount} citations`);
+
+    // Glossary of defined terms, for the glossary view and answers that use them
+    const glossary = extractDefinedTerms(extracted.text).map((entry) => {
+      const range = extracted.pages && findPageRange(extracted.pages, entry.startChar, entry.endChar);
+      return range ? { ...entry, pageStart: range.pageStart } : entry;
+    });
+    await saveDocumentGlossary(documentId, glossary);
+    console.log(`[${documentId}] Saved ${glossary.length} defined terms`);
+
+    await hooks.saveCheckpoint("saved", null);
+  }
+
+  // Step 8: Update document status to completed
+  await updateProgress("Finalizing...");
+  const processingTime = Math.round((Date.now() - startTime) / 1000);
+
+  const { error: updateError } = await supabaseAdmin
+    .from("documents")
+    .update({
+      status: "completed",
+      total_chunks: chunks.length,
+      pipeline_version: PIPELINE_VERSION,
+      embedding_model: embeddingModel,
+      ...contractMetadataColumns(contract),
+      // Keep the extracted text so chunk offsets can be resolved to passages
+      extracted_text: extracted.text,
+      metadata: {
+        ...extracted.metadata,
+        pages: extracted.pages,
+        ...(extracted.headings && { headings: extracted.headings }),
+        ...(extracted.origin && { origin: extracted.origin }),
+        ...(context.parentDocumentId && { parentDocumentId: context.parentDocumentId }),
+        ...(context.bundle && { bundle: context.bundle }),
+        ...(extracted.attachments && { attachments: extracted.attachments }),
+        ...(language && { language }),
+        pipeline: getPipelineSettings(embeddingModel),
+        totalChunks: chunks.length,
+        wordCount: extracted.metadata.wordCount,
+        processingTimeSeconds: processingTime,
+      },
+    })
+    .eq("id", documentId);
+
+  if (updateError) {
+    throw new Error(`Failed to update document status: ${updateError.message}`);
+  }
+
+  // An upload replacing a document only removes it once the replacement is searchable
+  if (context.replacesDocumentId) {
+    await deleteDocument(context.replacesDocumentId, userId);
+  }
+
+  // A new version only replaces the previous one in chat once it is searchable
+  await promoteLatestVersion(documentId);
+
+  console.log(`[${documentId}] Document processed successfully in ${processingTime}s`);
+}
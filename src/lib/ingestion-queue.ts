@@ -0,0 +1,613 @@
+/**
+ * Durable ingestion job queue
+ * Each upload or reprocess request becomes a row in ingestion_jobs; workers claim
+ * jobs, checkpoint each pipeline step to storage, retry failures with exponential
+ * backoff and pick up jobs whose worker crashed mid-run
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { supabaseAdmin } from "@/lib/supabase";
+import { resolveFileType, UnprocessableFileError } from "@/lib/document-processor";
+import { downloadOriginalFile, storeOriginalFile } from "@/lib/document-storage";
+import { hashContent } from "@/lib/document-versions";
+import type { EmailAttachment } from "@/lib/email-parser";
+import { deleteDocumentVectors } from "@/lib/vector-store";
+import {
+  IngestionDeadlineError,
+  runIngestionPipeline,
+  updateDocumentProgress,
+  type AttachmentSummary,
+  type IngestionContext,
+  type IngestionInput,
+  type IngestionStep,
+} from "@/lib/ingestion-pipeline";
+
+const INGESTION_BUCKET = "ingestion";
+const MAX_ATTEMPTS = Number(process.env.INGESTION_MAX_ATTEMPTS || 5);
+// A running job without a checkpoint for this long is assumed to have lost its worker
+const LOCK_TIMEOUT_SECONDS = 15 * 60;
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 60 * 60;
+
+// Emails nest (mbox > message > forwarded .eml > attachment), so stop somewhere
+const MAX_ATTACHMENT_DEPTH = 3;
+
+export interface IngestionJob {
+  id: string;
+  document_id: string;
+  user_id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  step: IngestionStep | null;
+  payload: {
+    filename: string;
+    fileType: string;
+    context: IngestionContext;
+    storagePath: string; // original file
+  };
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+}
+
+export interface WorkerResult {
+  completed: number;
+  retried: number;
+  failed: number;
+  released: number;
+}
+
+function checkpointPath(jobId: string, step: IngestionStep): string {
+  return `${jobId}/${step}.json`;
+}
+
+async function downloadObject(path: string): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage.from(INGESTION_BUCKET).download(path);
+  if (error || !data) {
+    throw new Error(`Failed to download ${path}: ${error?.message ?? "not found"}`);
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+async function removeJobObjects(jobId: string): Promise<void> {
+  const { data: objects } = await supabaseAdmin.storage.from(INGESTION_BUCKET).list(jobId);
+  if (objects && objects.length > 0) {
+    await supabaseAdmin.storage
+      .from(INGESTION_BUCKET)
+      .remove(objects.map((object) => `${jobId}/${object.name}`));
+  }
+}
+
+/**
+ * Remove stored checkpoints for a set of documents' jobs, before the documents
+ * (and with them the job rows) are deleted
+ */
+export async function deleteIngestionJobFiles(documentIds: string[]): Promise<void> {
+  if (documentIds.length === 0) {
+    return;
+  }
+
+  const { data: jobs } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .select("id")
+    .in("document_id", documentIds);
+
+  for (const job of jobs || []) {
+    await removeJobObjects(job.id);
+  }
+}
+
+/**
+ * Insert a job row for a document whose original file is already stored
+ */
+async function createIngestionJob(input: IngestionInput, storagePath: string): Promise<string> {
+  const { data: job, error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .insert({
+      document_id: input.documentId,
+      user_id: input.userId,
+      payload: {
+        filename: input.filename,
+        fileType: input.fileType,
+        context: input.context,
+        storagePath,
+      },
+      max_attempts: MAX_ATTEMPTS,
+    })
+    .select("id")
+    .single();
+
+  if (error || !job) {
+    console.error("Error creating ingestion job:", error);
+    throw new Error("Failed to queue document for processing");
+  }
+
+  return job.id;
+}
+
+/**
+ * Store an uploaded file as the document's original and queue it for ingestion
+ */
+export async function enqueueIngestionJob(
+  input: IngestionInput,
+  buffer: Buffer
+): Promise<string> {
+  const storagePath = await storeOriginalFile(
+    input.userId,
+    input.documentId,
+    input.filename,
+    buffer,
+    input.fileType
+  );
+
+  return enqueueStoredIngestionJob(input, storagePath);
+}
+
+/**
+ * Queue a document whose original file is already in storage, e.g. one
+ * kept in parts from a resumable upload
+ */
+export async function enqueueStoredIngestionJob(
+  input: IngestionInput,
+  storagePath: string
+): Promise<string> {
+  const { error } = await supabaseAdmin
+    .from("documents")
+    .update({ storage_path: storagePath })
+    .eq("id", input.documentId);
+  if (error) {
+    console.error("Error recording storage path:", error);
+    throw new Error("Failed to store uploaded file");
+  }
+
+  return createIngestionJob(input, storagePath);
+}
+
+/**
+ * Clear a document's chunks and vectors and queue it to be rebuilt from its
+ * original file with the current pipeline settings
+ */
+export async function reprocessDocument(document: {
+  id: string;
+  user_id: string;
+  filename: string;
+  file_type: string;
+  storage_path: string | null;
+  parent_document_id: string | null;
+}): Promise<{ queued: boolean; jobId?: string; error?: string }> {
+  if (!document.storage_path) {
+    return {
+      queued: false,
+      error: "The original file was not kept for this document. Please upload it again.",
+    };
+  }
+
+  const { data: jobs } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .select("status, payload")
+    .eq("document_id", document.id)
+    .order("created_at", { ascending: false });
+
+  if (jobs?.some((job) => job.status === "queued" || job.status === "running")) {
+    return { queued: false, error: "Document is already being processed" };
+  }
+
+  // Reuse the context (parent email, ZIP bundle) the document was first ingested with
+  const context: IngestionContext = jobs?.[0]?.payload?.context ?? {
+    depth: document.parent_document_id ? 1 : 0,
+    ...(document.parent_document_id && { parentDocumentId: document.parent_document_id }),
+  };
+
+  await deleteDocumentVectors(document.id, document.user_id);
+
+  const { error: chunkError } = await supabaseAdmin
+    .from("document_chunks")
+    .delete()
+    .eq("document_id", document.id);
+  if (chunkError) {
+    throw new Error(`Failed to delete document chunks: ${chunkError.message}`);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("documents")
+    .update({
+      status: "processing",
+      total_chunks: 0,
+      metadata: {
+        processingStep: "Queued for reprocessing...",
+        lastUpdate: new Date().toISOString(),
+      },
+    })
+    .eq("id", document.id);
+  if (updateError) {
+    throw new Error(`Failed to update document status: ${updateError.message}`);
+  }
+
+  const jobId = await createIngestionJob(
+    {
+      documentId: document.id,
+      userId: document.user_id,
+      filename: document.filename,
+      fileType: document.file_type,
+      context,
+    },
+    document.storage_path
+  );
+
+  return { queued: true, jobId };
+}
+
+/**
+ * Claim the next due job for this worker, if any
+ */
+export async function claimIngestionJob(workerId: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabaseAdmin.rpc("claim_ingestion_job", {
+    worker_id: workerId,
+    lock_timeout_seconds: LOCK_TIMEOUT_SECONDS,
+  });
+
+  if (error) {
+    console.error("Error claiming ingestion job:", error);
+    throw new Error("Failed to claim ingestion job");
+  }
+
+  return (data as IngestionJob[] | null)?.[0] ?? null;
+}
+
+/**
+ * Create a linked child document and job for each supported attachment.
+ * Children are keyed by content hash, so attachments registered by an earlier
+ * attempt are reused rather than duplicated, and get their job if that attempt
+ * failed before queuing it.
+ */
+async function registerAttachments(
+  job: IngestionJob,
+  attachments: EmailAttachment[],
+  origin: string | undefined
+): Promise<AttachmentSummary[]> {
+  const depth = job.payload.context.depth + 1;
+  const summary: AttachmentSummary[] = [];
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from("documents")
+    .select("id, content_hash, ingestion_jobs(id)")
+    .eq("parent_document_id", job.document_id);
+
+  if (existingError) {
+    console.error(`[${job.document_id}] Error fetching attachment documents:`, existingError);
+    throw new Error("Failed to fetch attachment documents");
+  }
+
+  // Attachment documents by content hash, and whether their job was queued
+  const children = new Map<string, { id: string; queued: boolean }>();
+  for (const child of (existing || []) as Array<{
+    id: string;
+    content_hash: string | null;
+    ingestion_jobs: Array<{ id: string }>;
+  }>) {
+    if (child.content_hash) {
+      children.set(child.content_hash, { id: child.id, queued: child.ingestion_jobs.length > 0 });
+    }
+  }
+
+  for (const attachment of attachments) {
+    const fileType = resolveFileType(attachment.contentType, attachment.filename);
+
+    if (!fileType) {
+      summary.push({ filename: attachment.filename, skipped: "Unsupported file type" });
+      continue;
+    }
+    if (depth > MAX_ATTACHMENT_DEPTH) {
+      summary.push({ filename: attachment.filename, skipped: "Nested too deeply" });
+      continue;
+    }
+
+    const contentHash = hashContent(attachment.content);
+    let child = children.get(contentHash);
+    if (child?.queued) {
+      summary.push({ filename: attachment.filename, documentId: child.id });
+      continue;
+    }
+
+    if (!child) {
+      const { data: created, error } = await supabaseAdmin
+        .from("documents")
+        .insert({
+          user_id: job.user_id,
+          parent_document_id: job.document_id,
+          title: attachment.filename.replace(/\.[^/.]+$/, ""),
+          filename: attachment.filename,
+          file_type: fileType,
+          file_size: attachment.content.length,
+          content_hash: contentHash,
+          status: "processing",
+        })
+        .select("id")
+        .single();
+
+      if (error || !created) {
+        console.error(`[${job.document_id}] Failed to create attachment document:`, error);
+        summary.push({ filename: attachment.filename, skipped: "Failed to create document record" });
+        continue;
+      }
+      child = { id: created.id, queued: false };
+      children.set(contentHash, child);
+    }
+
+    // A failure here fails the parent's attempt; its retry finds the child without a job
+    await enqueueIngestionJob(
+      {
+        documentId: child.id,
+        userId: job.user_id,
+        filename: attachment.filename,
+        fileType,
+        context: { parentDocumentId: job.document_id, origin, depth },
+      },
+      attachment.content
+    );
+    child.queued = true;
+    summary.push({ filename: attachment.filename, documentId: child.id });
+  }
+
+  return summary;
+}
+
+/**
+ * Record a completed step and refresh the job's lock
+ */
+async function saveCheckpoint(
+  job: IngestionJob,
+  workerId: string,
+  step: IngestionStep,
+  data: unknown
+): Promise<void> {
+  if (data !== null) {
+    const { error } = await supabaseAdmin.storage
+      .from(INGESTION_BUCKET)
+      .upload(checkpointPath(job.id, step), JSON.stringify(data), {
+        contentType: "application/json",
+        upsert: true,
+      });
+    if (error) {
+      throw new Error(`Failed to save "${step}" checkpoint: ${error.message}`);
+    }
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .update({ step, locked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to record "${step}" checkpoint: ${error.message}`);
+  }
+  if (!updated || updated.length === 0) {
+    throw new Error("Lost the lock on this job to another worker");
+  }
+}
+
+/**
+ * Hand a job whose runner ran out of time back to the queue, to continue from
+ * its last checkpoint straight away. The attempt it claimed is not counted.
+ */
+async function releaseJob(job: IngestionJob, workerId: string): Promise<"released"> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from("ingestion_jobs")
+    .update({
+      status: "queued",
+      run_at: now,
+      attempts: job.attempts - 1,
+      locked_by: null,
+      locked_at: null,
+      updated_at: now,
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId);
+
+  if (error) {
+    // The lock expires after LOCK_TIMEOUT_SECONDS and another worker reclaims it
+    console.error(`[${job.document_id}] Failed to release ingestion job:`, error);
+  }
+  return "released";
+}
+
+/**
+ * Schedule a retry with exponential backoff, or give up once attempts run out.
+ * Files that cannot be processed as uploaded fail straight away.
+ */
+async function failJob(job: IngestionJob, workerId: string, error: unknown): Promise<"retried" | "failed"> {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  const now = new Date();
+
+  if (job.attempts < job.max_attempts && !(error instanceof UnprocessableFileError)) {
+    const delaySeconds = Math.min(
+      RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1),
+      RETRY_MAX_DELAY_SECONDS
+    );
+
+    await supabaseAdmin
+      .from("ingestion_jobs")
+      .update({
+        status: "queued",
+        run_at: new Date(now.getTime() + delaySeconds * 1000).toISOString(),
+        locked_by: null,
+        locked_at: null,
+        last_error: errorMessage,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", job.id)
+      .eq("locked_by", workerId);
+
+    await updateDocumentProgress(
+      job.document_id,
+      `Retrying in ${delaySeconds}s after error: ${errorMessage} (attempt ${job.attempts} of ${job.max_attempts})`
+    );
+    return "retried";
+  }
+
+  await supabaseAdmin
+    .from("ingestion_jobs")
+    .update({
+      status: "failed",
+      locked_by: null,
+      locked_at: null,
+      last_error: errorMessage,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId);
+
+  try {
+    await supabaseAdmin
+      .from("documents")
+      .update({
+        status: "failed",
+        metadata: {
+          error: errorMessage,
+          failedAt: now.toISOString(),
+          attempts: job.attempts,
+        },
+      })
+      .eq("id", job.document_id);
+  } catch (updateError) {
+    console.error(`[${job.document_id}] Failed to update error status:`, updateError);
+  }
+
+  await removeJobObjects(job.id);
+  return "failed";
+}
+
+/**
+ * Run a claimed job from its last checkpoint to completion. Given a deadline
+ * (ms timestamp), no step starts after it and the job is released to the queue.
+ */
+export async function runIngestionJob(
+  job: IngestionJob,
+  workerId: string,
+  deadline?: number
+): Promise<"completed" | "retried" | "failed" | "released"> {
+  const input: IngestionInput = {
+    documentId: job.document_id,
+    userId: job.user_id,
+    filename: job.payload.filename,
+    fileType: job.payload.fileType,
+    context: job.payload.context,
+  };
+
+  try {
+    if (job.attempts > job.max_attempts) {
+      // Reclaimed after its worker died on the final attempt
+      throw new Error(job.last_error || "Worker stopped responding");
+    }
+
+    await runIngestionPipeline(input, {
+      completedStep: job.step,
+      attempt: job.attempts,
+      deadline,
+      loadInput: () => downloadOriginalFile(job.payload.storagePath),
+      loadCheckpoint: async (step) =>
+        JSON.parse((await downloadObject(checkpointPath(job.id, step))).toString("utf8")),
+      saveCheckpoint: (step, data) => saveCheckpoint(job, workerId, step, data),
+      registerAttachments: (attachments, origin) => registerAttachments(job, attachments, origin),
+    });
+  } catch (error) {
+    if (error instanceof IngestionDeadlineError) {
+      console.log(`[${job.document_id}] ${error.message}, releasing job`);
+      return releaseJob(job, workerId);
+    }
+    console.error(`[${job.document_id}] Ingestion attempt ${job.attempts} failed:`, error);
+    return failJob(job, workerId, error);
+  }
+
+  await supabaseAdmin
+    .from("ingestion_jobs")
+    .update({
+      status: "completed",
+      locked_by: null,
+      locked_at: null,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  await removeJobObjects(job.id);
+  return "completed";
+}
+
+/**
+ * Process jobs until the queue is empty or the time budget runs out
+ */
+export async function runIngestionWorker(
+  options: { workerId?: string; timeBudgetMs?: number } = {}
+): Promise<WorkerResult> {
+  const workerId = options.workerId ?? `worker-${uuidv4()}`;
+  const deadline = Date.now() + (options.timeBudgetMs ?? Infinity);
+  const result: WorkerResult = { completed: 0, retried: 0, failed: 0, released: 0 };
+
+  while (Date.now() < deadline) {
+    const job = await claimIngestionJob(workerId);
+    if (!job) {
+      break;
+    }
+
+    const outcome = await runIngestionJob(
+      job,
+      workerId,
+      Number.isFinite(deadline) ? deadline : undefined
+    );
+    result[outcome]++;
+  }
+
+  return result;
+}
+
+/**
+ * Whether jobs are run inside the web server process. Serverless deployments
+ * (Vercel) use the cron-triggered worker route instead; set INGESTION_RUNNER
+ * to "local" or "worker" to override.
+ */
+export function usesLocalIngestionRunner(): boolean {
+  const runner = process.env.INGESTION_RUNNER || (process.env.VERCEL ? "worker" : "local");
+  return runner === "local";
+}
+
+let localRunner: Promise<void> | null = null;
+let localRunnerRequested = false;
+
+/**
+ * Drain the queue in this process, e.g. during development. Jobs waiting on a
+ * retry are picked up by a follow-up run once their backoff has elapsed.
+ */
+export function startLocalIngestionRunner(): void {
+  localRunnerRequested = true;
+  if (localRunner) {
+    return;
+  }
+
+  localRunner = (async () => {
+    const workerId = `local-${process.pid}`;
+    while (localRunnerRequested) {
+      localRunnerRequested = false;
+      await runIngestionWorker({ workerId });
+    }
+
+    // Wake up again when the next job waiting on a retry becomes due
+    const { data: next } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .select("run_at")
+      .eq("status", "queued")
+      .order("run_at")
+      .limit(1);
+
+    if (next && next.length > 0) {
+      const delay = Math.max(new Date(next[0].run_at).getTime() - Date.now(), 1000);
+      setTimeout(startLocalIngestionRunner, delay).unref();
+    }
+  })()
+    .catch((error) => console.error("Local ingestion runner error:", error))
+    .finally(() => {
+      localRunner = null;
+    });
+}
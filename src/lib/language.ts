@@ -0,0 +1,57 @@
+/**
+ * Language detection
+ * Documents and chunks are tagged with their language (ISO 639-1 code) so
+ * non-English text can be embedded with a multilingual model and answers can
+ * quote sources in their own language. Detection counts common function words,
+ * which is reliable for paragraphs of legal prose in the supported languages.
+ */
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  fr: "French",
+  es: "Spanish",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+};
+
+// Common function words of each language, space-separated
+const FUNCTION_WORDS: Record<string, string> = {
+  en: "the and of to is that for shall be by this with or any as are such will not on which from have has",
+  fr: "le les des du et est qui dans pour par sur une au aux ce cette sont pas avec ou être leur ses présent",
+  es: "el los las del y que por para con una es se su al lo como más sus este esta será cualquier dicho presente",
+  de: "der die das und ist nicht mit den dem ein eine zu von für auf des im sich oder wird sind bei nach durch",
+  it: "il gli della delle dei che di per una sono è nel nella alla del al non come sia ai degli dalla presente qualsiasi",
+  pt: "os da das do dos em para com uma não por ao aos na no pelo pela são seu sua qualquer presente este será",
+  nl: "de het een van en is dat op te met voor zijn niet aan door als bij wordt deze naar worden overeenkomst partij hun",
+};
+
+// Fewer function words than this is too little text to tell
+const MIN_MATCHES = 5;
+
+const WORD_SETS = Object.fromEntries(
+  Object.entries(FUNCTION_WORDS).map(([language, words]) => [language, new Set(words.split(" "))])
+);
+
+/**
+ * Detect the language of a text, or undefined when there is too little text
+ * or it is in none of the supported languages
+ */
+export function detectLanguage(text: string): string | undefined {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = Object.keys(WORD_SETS).map((language) => ({
+    language,
+    matches: words.filter((word) => WORD_SETS[language].has(word)).length,
+  }));
+
+  const best = scores.reduce((top, score) => (score.matches > top.matches ? score : top));
+  return best.matches >= MIN_MATCHES ? best.language : undefined;
+}
+
+/**
+ * Display name of a language code, e.g. "fr" -> "French"
+ */
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code;
+}
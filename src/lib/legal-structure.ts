@@ -0,0 +1,221 @@
+/**
+ * Legal document structure parsing
+ * Recognises articles, numbered sections, lettered clauses, recitals and
+ * schedules/exhibits so documents can be chunked along real section boundaries
+ */
+
+export interface LegalSegment {
+  startChar: number;
+  endChar: number;
+  // Labels from the outermost heading down, e.g. ["Article 7", "7.2", "(b)"]
+  path: string[];
+}
+
+interface HeadingLabel {
+  label: string;
+  rank: number;
+}
+
+// Ranks decide nesting: a heading closes every open heading of equal or higher rank
+const TOP_LEVEL_RANK = 0;
+const LETTER_CLAUSE_RANK = 20;
+const ROMAN_CLAUSE_RANK = 21;
+const NUMBER_CLAUSE_RANK = 22;
+
+const MAX_HEADING_LENGTH = 100;
+
+const ARTICLE_PATTERN = /^(?:ARTICLE|Article)\s+([IVXLC]+|\d+)\b/;
+const ATTACHMENT_PATTERN =
+  /^(SCHEDULE|EXHIBIT|ANNEX|APPENDIX|Schedule|Exhibit|Annex|Appendix)\s+([A-Z]{1,2}|\d+(?:[.-]\d+)?)\b/;
+const RECITALS_PATTERN = /^(?:RECITALS|Recitals|BACKGROUND|Background)[.:]?$/;
+const WHEREAS_PATTERN = /^(?:WHEREAS|Whereas)\b/;
+const OPERATIVE_PATTERN = /^NOW,?\s+THEREFORE\b/i;
+const SECTION_KEYWORD_PATTERN =
+  /^(?:SECTION|Section|Sec\.|§)\s*(\d{1,3}(?:\.\d{1,3})*)((?:\([a-z0-9]{1,4}\))*)/;
+// Bare numbers need a dot ("7." or "7.2") so amounts like "30 Days" are not headings
+const NUMBERED_PATTERN = /^(\d{1,3}(?:\.\d{1,3})+|\d{1,3}(?=\.))\.?\s+(?=[A-Z("\u201C])/;
+const CLAUSE_PATTERN = /^\(([a-z]{1,2}|[ivx]{1,5}|\d{1,2})\)\s/;
+
+const ROMAN_VALUES: Record<string, number> = {
+  I: 1,
+  V: 5,
+  X: 10,
+  L: 50,
+  C: 100,
+};
+
+/**
+ * Convert a Roman numeral to a number, returning null for invalid input
+ */
+export function romanToNumber(roman: string): number | null {
+  let total = 0;
+  const upper = roman.toUpperCase();
+
+  for (let i = 0; i < upper.length; i++) {
+    const value = ROMAN_VALUES[upper[i]];
+    const next = ROMAN_VALUES[upper[i + 1]];
+    if (value === undefined) {
+      return null;
+    }
+    total += next !== undefined && next > value ? -value : value;
+  }
+
+  return total;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Rank a parenthesised clause label like "(b)", "(iv)" or "(3)".
+ * "(i)" directly after "(h)" is the letter i, otherwise a Roman numeral.
+ */
+function clauseRank(clause: string, open: HeadingLabel[]): number {
+  if (/^\d+$/.test(clause)) {
+    return NUMBER_CLAUSE_RANK;
+  }
+
+  if (/^[ivx]+$/.test(clause)) {
+    const top = open[open.length - 1];
+    const followsLetter =
+      top?.rank === LETTER_CLAUSE_RANK &&
+      top.label.length === 3 &&
+      top.label.charCodeAt(1) + 1 === clause.charCodeAt(0);
+    if (!followsLetter || clause.length > 1) {
+      return ROMAN_CLAUSE_RANK;
+    }
+  }
+
+  return LETTER_CLAUSE_RANK;
+}
+
+/**
+ * Identify the heading labels a line opens, if it starts a new structural unit
+ */
+function parseHeading(line: string, open: HeadingLabel[]): HeadingLabel[] | null {
+  const isShort = line.length <= MAX_HEADING_LENGTH;
+
+  const article = isShort && line.match(ARTICLE_PATTERN);
+  if (article) {
+    const number = /^\d+$/.test(article[1])
+      ? Number(article[1])
+      : romanToNumber(article[1]);
+    if (number) {
+      return [{ label: `Article ${number}`, rank: TOP_LEVEL_RANK }];
+    }
+  }
+
+  const attachment = isShort && line.match(ATTACHMENT_PATTERN);
+  if (attachment) {
+    return [
+      {
+        label: `${capitalize(attachment[1])} ${attachment[2]}`,
+        rank: TOP_LEVEL_RANK,
+      },
+    ];
+  }
+
+  if (RECITALS_PATTERN.test(line)) {
+    return [{ label: "Recitals", rank: TOP_LEVEL_RANK }];
+  }
+
+  if (WHEREAS_PATTERN.test(line)) {
+    const inRecitals = open[0]?.label === "Recitals";
+    const recitalCount = inRecitals && open[1] ? Number(open[1].label.split(" ")[1]) : 0;
+    return [
+      ...(inRecitals ? [] : [{ label: "Recitals", rank: TOP_LEVEL_RANK }]),
+      { label: `Recital ${recitalCount + 1}`, rank: 1 },
+    ];
+  }
+
+  if (OPERATIVE_PATTERN.test(line)) {
+    // "NOW, THEREFORE" closes the recitals and starts the operative provisions
+    return [];
+  }
+
+  const section = line.match(SECTION_KEYWORD_PATTERN) || line.match(NUMBERED_PATTERN);
+  if (section) {
+    const number = section[1];
+    const labels: HeadingLabel[] = [
+      { label: number, rank: number.split(".").length },
+    ];
+
+    // Keyword sections may carry clauses inline, e.g. "Section 4.2(b)"
+    const clauses = section[2]?.match(/\([a-z0-9]+\)/g) || [];
+    for (const clause of clauses) {
+      labels.push({ label: clause, rank: clauseRank(clause.slice(1, -1), labels) });
+    }
+
+    return labels;
+  }
+
+  const clause = line.match(CLAUSE_PATTERN);
+  if (clause) {
+    return [{ label: `(${clause[1]})`, rank: clauseRank(clause[1], open) }];
+  }
+
+  return null;
+}
+
+/**
+ * Split text into segments, each starting at a recognised heading and
+ * carrying the path of headings it sits under
+ */
+export function parseLegalStructure(text: string): LegalSegment[] {
+  const segments: LegalSegment[] = [];
+  let open: HeadingLabel[] = [];
+  let segmentStart = 0;
+  let segmentPath: string[] = [];
+
+  const closeSegment = (endChar: number) => {
+    const content = text.slice(segmentStart, endChar);
+    const trimmedEnd = segmentStart + content.trimEnd().length;
+    if (trimmedEnd > segmentStart && content.trim().length > 0) {
+      segments.push({
+        startChar: segmentStart,
+        endChar: trimmedEnd,
+        path: segmentPath,
+      });
+    }
+  };
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const rawLine = text.slice(lineStart, lineEnd);
+    const line = rawLine.trim();
+
+    const headings = line ? parseHeading(line, open) : null;
+    if (headings) {
+      const contentStart = lineStart + (rawLine.length - rawLine.trimStart().length);
+      closeSegment(contentStart);
+
+      if (headings.length === 0) {
+        open = [];
+      }
+      for (const heading of headings) {
+        while (open.length > 0 && open[open.length - 1].rank >= heading.rank) {
+          open.pop();
+        }
+        open.push(heading);
+      }
+
+      segmentStart = contentStart;
+      segmentPath = open.map((heading) => heading.label);
+    }
+
+    lineStart = lineEnd + 1;
+  }
+
+  closeSegment(text.length);
+  return segments;
+}
+
+/**
+ * Format a heading path for display and metadata, e.g. "Article 7 > 7.2 > (b)"
+ */
+export function formatSectionPath(path: string[]): string | undefined {
+  return path.length > 0 ? path.join(" > ") : undefined;
+}
@@ -0,0 +1,172 @@
+/**
+ * OCR service for scanned PDFs and image uploads
+ * Providers are pluggable; the default is a local Tesseract engine (tesseract.js)
+ * reading its language data from disk. English data ships with the app
+ * (@tesseract.js-data/eng); for other OCR_LANGUAGES, set OCR_LANG_PATH to a
+ * directory holding <lang>.traineddata.gz for each of them.
+ */
+
+import type { Canvas } from "@napi-rs/canvas";
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100
+}
+
+export interface OcrProvider {
+  name: string;
+  // Recognize the page images of one document, in order
+  recognize(images: Buffer[]): Promise<OcrResult[]>;
+}
+
+// Pages with fewer extractable characters than this are treated as scanned
+export const OCR_MIN_PAGE_CHARS = Number(process.env.OCR_MIN_PAGE_CHARS || 20);
+
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || "eng";
+const PDF_RENDER_SCALE = 2; // ~144 DPI, enough for Tesseract on typical filings
+
+// Canvas factory pdf.js sets up in Node: @napi-rs/canvas objects standing in for DOM ones
+interface NodeCanvasFactory {
+  create(
+    width: number,
+    height: number
+  ): { canvas: HTMLCanvasElement & Pick<Canvas, "toBuffer">; context: CanvasRenderingContext2D };
+}
+
+/**
+ * Directory with the traineddata of the languages, so nothing is downloaded
+ * at runtime
+ */
+async function getLanguageDataPath(languages: string): Promise<string> {
+  if (process.env.OCR_LANG_PATH) {
+    return process.env.OCR_LANG_PATH;
+  }
+  if (languages !== "eng") {
+    throw new Error(`OCR_LANG_PATH must point to the traineddata for OCR_LANGUAGES=${languages}`);
+  }
+  const english = await import("@tesseract.js-data/eng");
+  return english.default.langPath;
+}
+
+/**
+ * Local OCR engine running Tesseract in-process via WebAssembly. One worker
+ * serves all pages of a document, so the language data is loaded once.
+ */
+export function createTesseractProvider(languages: string = OCR_LANGUAGES): OcrProvider {
+  return {
+    name: "tesseract",
+    async recognize(images: Buffer[]): Promise<OcrResult[]> {
+      if (images.length === 0) {
+        return [];
+      }
+
+      const { createWorker } = await import("tesseract.js");
+      const worker = await createWorker(languages.split("+"), undefined, {
+        langPath: await getLanguageDataPath(languages),
+        gzip: true,
+        cacheMethod: "none",
+      });
+
+      try {
+        const results: OcrResult[] = [];
+        for (const image of images) {
+          const { data } = await worker.recognize(image);
+          results.push({ text: data.text, confidence: data.confidence });
+        }
+        return results;
+      } finally {
+        await worker.terminate();
+      }
+    },
+  };
+}
+
+let ocrProvider: OcrProvider | null | undefined;
+
+/**
+ * Get the configured OCR provider, or null when OCR is disabled (OCR_PROVIDER=none)
+ */
+export function getOcrProvider(): OcrProvider | null {
+  if (ocrProvider !== undefined) {
+    return ocrProvider;
+  }
+
+  const name = process.env.OCR_PROVIDER || "tesseract";
+  switch (name) {
+    case "tesseract":
+      ocrProvider = createTesseractProvider();
+      break;
+    case "none":
+      ocrProvider = null;
+      break;
+    default:
+      throw new Error(`Unknown OCR provider: ${name}`);
+  }
+
+  return ocrProvider;
+}
+
+/**
+ * Override the OCR provider, e.g. to plug in a cloud OCR service
+ */
+export function setOcrProvider(provider: OcrProvider | null): void {
+  ocrProvider = provider;
+}
+
+/**
+ * Render selected PDF pages (1-based) to PNG images for OCR
+ */
+export async function renderPDFPages(
+  buffer: Buffer,
+  pageNumbers: number[]
+): Promise<Map<number, Buffer>> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdfDocument = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+  }).promise;
+
+  const images = new Map<number, Buffer>();
+
+  try {
+    const canvasFactory = pdfDocument.canvasFactory as NodeCanvasFactory;
+
+    for (const pageNumber of pageNumbers) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const { canvas, context } = canvasFactory.create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height)
+      );
+
+      await page.render({ canvas, canvasContext: context, viewport }).promise;
+      images.set(pageNumber, canvas.toBuffer("image/png"));
+      page.cleanup();
+    }
+  } finally {
+    await pdfDocument.destroy();
+  }
+
+  return images;
+}
+
+/**
+ * Split a (possibly multi-page) TIFF into PNG images, one per page
+ */
+export async function renderTIFFPages(buffer: Buffer): Promise<Buffer[]> {
+  const UTIF = (await import("utif")).default;
+  const { createCanvas } = await import("@napi-rs/canvas");
+
+  return UTIF.decode(buffer).map((ifd) => {
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+
+    const canvas = createCanvas(ifd.width, ifd.height);
+    const context = canvas.getContext("2d");
+    const imageData = context.createImageData(ifd.width, ifd.height);
+    imageData.data.set(rgba);
+    context.putImageData(imageData, 0, 0);
+
+    return canvas.toBuffer("image/png");
+  });
+}
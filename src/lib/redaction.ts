@@ -0,0 +1,295 @@
+/**
+ * Redaction of sensitive data before it leaves our infrastructure
+ * Text sent to the embedding and LLM providers has SSNs, account and card
+ * numbers, contact details, addresses and dictionary terms (client names,
+ * matter names) replaced by placeholders. LLM answers are restored before
+ * they are shown to the user.
+ *
+ * Configuration:
+ * - REDACTION_ENABLED=false turns redaction off
+ * - REDACTION_CATEGORIES limits the pattern categories, e.g. "ssn,card_number"
+ * - REDACTION_DICTIONARY_PATH is a JSON file of terms by category, e.g.
+ *   { "client": ["Acme Corporation", "Jane Doe"], "matter": ["Project Falcon"] }
+ */
+
+import fs from "fs";
+
+export interface RedactionCounts {
+  [category: string]: number;
+}
+
+interface SensitiveSpan {
+  category: string;
+  start: number;
+  end: number;
+}
+
+interface RedactionConfig {
+  enabled: boolean;
+  patterns: Array<{ category: string; pattern: RegExp; validate?: (value: string) => boolean }>;
+  dictionary: Array<{ category: string; pattern: RegExp }>;
+}
+
+/**
+ * Luhn checksum, so only plausible card numbers are masked
+ */
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const STREET_TYPES =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Parkway|Pkwy|Highway|Hwy|Square|Sq|Terrace";
+
+// Pattern categories; a capture group limits the mask to part of the match
+const PATTERNS: RedactionConfig["patterns"] = [
+  { category: "ssn", pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  { category: "email", pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}\b/g },
+  {
+    category: "card_number",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isCardNumber,
+  },
+  { category: "iban", pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  {
+    category: "account_number",
+    pattern:
+      /\b(?:account|acct\.?|a\/c|routing|sort\s+code)(?:\s+(?:no\.?|number|#))?\s*[:#]?\s*(\d[\d -]{4,22}\d)\b/gi,
+  },
+  {
+    category: "phone",
+    pattern: /(?<![\w+])(?:\+?1[ .-]?)?(?:\(\d{3}\)\s?|\d{3}[ .-])\d{3}[ .-]\d{4}\b|\+\d{1,3}(?:[ .-]?\d{2,4}){3,5}\b/g,
+  },
+  {
+    category: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,6}\\s+(?:[A-Z][A-Za-z'-]*\\.?\\s+){1,4}(?:${STREET_TYPES})\\b\\.?(?:,?\\s+(?:Suite|Ste\\.?|Apt\\.?|Unit|Floor|#)\\s*[\\w-]+)?(?:,\\s*[A-Z][a-z]+(?:\\s[A-Z][a-z]+)*,?\\s+[A-Z]{2}\\s+\\d{5}(?:-\\d{4})?)?`,
+      "g"
+    ),
+  },
+];
+
+let cachedConfig: RedactionConfig | undefined;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Dictionary terms from REDACTION_DICTIONARY_PATH, longest first so "Acme
+ * Corporation" is masked whole rather than as "Acme"
+ */
+function loadDictionary(): RedactionConfig["dictionary"] {
+  const path = process.env.REDACTION_DICTIONARY_PATH;
+  if (!path) {
+    return [];
+  }
+
+  try {
+    const dictionary = JSON.parse(fs.readFileSync(path, "utf-8"));
+    if (
+      typeof dictionary !== "object" ||
+      dictionary === null ||
+      !Object.values(dictionary).every(
+        (terms) => Array.isArray(terms) && terms.every((term) => typeof term === "string")
+      )
+    ) {
+      throw new Error("expected an object of category -> list of terms");
+    }
+
+    return Object.entries(dictionary as Record<string, string[]>)
+      .flatMap(([category, terms]) =>
+        terms.filter((term) => term.trim()).map((term) => ({ category, term: term.trim() }))
+      )
+      .sort((a, b) => b.term.length - a.term.length)
+      .map(({ category, term }) => ({
+        category: category.toLowerCase(),
+        pattern: new RegExp(
+          `(?<![\\w])${escapeRegExp(term).replace(/\s+/g, "\\s+")}(?![\\w])`,
+          "gi"
+        ),
+      }));
+  } catch (error) {
+    console.error(`Invalid redaction dictionary at ${path}, masking patterns only:`, error);
+    return [];
+  }
+}
+
+/**
+ * Redaction settings from the environment
+ */
+function getRedactionConfig(): RedactionConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const categories = process.env.REDACTION_CATEGORIES?.split(",")
+    .map((category) => category.trim().toLowerCase())
+    .filter(Boolean);
+
+  cachedConfig = {
+    enabled: process.env.REDACTION_ENABLED !== "false",
+    patterns: categories?.length
+      ? PATTERNS.filter(({ category }) => categories.includes(category))
+      : PATTERNS,
+    dictionary: loadDictionary(),
+  };
+  return cachedConfig;
+}
+
+/**
+ * Find the sensitive spans in a text. Overlapping matches keep the one that
+ * starts first, and dictionary terms win over patterns at the same position.
+ */
+export function findSensitiveSpans(text: string): SensitiveSpan[] {
+  const config = getRedactionConfig();
+  if (!config.enabled) {
+    return [];
+  }
+
+  const spans: SensitiveSpan[] = [];
+  for (const { category, pattern } of config.dictionary) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      spans.push({ category, start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  for (const { category, pattern, validate } of config.patterns) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const value = match[1] ?? match[0];
+      if (validate && !validate(value)) {
+        continue;
+      }
+      const start = match.index! + match[0].indexOf(value);
+      spans.push({ category, start, end: start + value.length });
+    }
+  }
+
+  const kept: SensitiveSpan[] = [];
+  for (const span of spans.sort((a, b) => a.start - b.start)) {
+    const last = kept[kept.length - 1];
+    if (!last || span.start >= last.end) {
+      kept.push(span);
+    }
+  }
+  return kept;
+}
+
+function replaceSpans(
+  text: string,
+  spans: SensitiveSpan[],
+  placeholder: (span: SensitiveSpan, value: string) => string
+): string {
+  let result = "";
+  let position = 0;
+  for (const span of spans) {
+    result += text.slice(position, span.start) + placeholder(span, text.slice(span.start, span.end));
+    position = span.end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Mask sensitive spans with their category, e.g. "[SSN]". For text that is
+ * not sent back to us, like embedding input.
+ */
+export function maskText(text: string, counts: RedactionCounts = {}): string {
+  return replaceSpans(text, findSensitiveSpans(text), (span) => {
+    counts[span.category] = (counts[span.category] || 0) + 1;
+    return `[${span.category.toUpperCase()}]`;
+  });
+}
+
+/**
+ * Placeholders for one outbound request. A value gets the same numbered
+ * placeholder (e.g. "[CLIENT_1]") everywhere it appears, so the model can
+ * still tell parties apart, and placeholders in the reply can be restored.
+ */
+export interface RedactionSession {
+  redact(text: string): string;
+  restore(text: string): string;
+  // Restores a streamed reply, holding back placeholders split across chunks
+  createStreamRestorer(): { push(chunk: string): string; flush(): string };
+  counts(): RedactionCounts;
+}
+
+const PLACEHOLDER_PATTERN = /\[([A-Z][A-Z_]*_\d+)\]/g;
+// A placeholder may be cut off at the end of a streamed chunk
+const PARTIAL_PLACEHOLDER_PATTERN = /\[[A-Z_\d]{0,40}$/;
+
+/**
+ * Start a redaction session for one outbound request
+ */
+export function createRedactionSession(): RedactionSession {
+  const placeholders = new Map<string, string>(); // "category:value" -> placeholder
+  const originals = new Map<string, string>(); // placeholder -> value
+  const numbers = new Map<string, number>(); // category -> last number used
+  const counts: RedactionCounts = {};
+
+  const restore = (text: string) =>
+    text.replace(PLACEHOLDER_PATTERN, (placeholder, name) => originals.get(name) ?? placeholder);
+
+  return {
+    redact(text) {
+      return replaceSpans(text, findSensitiveSpans(text), (span, value) => {
+        counts[span.category] = (counts[span.category] || 0) + 1;
+        const key = `${span.category}:${value.replace(/\s+/g, " ").toLowerCase()}`;
+        let placeholder = placeholders.get(key);
+        if (!placeholder) {
+          const number = (numbers.get(span.category) || 0) + 1;
+          numbers.set(span.category, number);
+          placeholder = `${span.category.toUpperCase().replace(/\W/g, "_")}_${number}`;
+          placeholders.set(key, placeholder);
+          originals.set(placeholder, value);
+        }
+        return `[${placeholder}]`;
+      });
+    },
+
+    restore,
+
+    createStreamRestorer() {
+      let pending = "";
+      return {
+        push(chunk) {
+          pending += chunk;
+          const partial = pending.match(PARTIAL_PLACEHOLDER_PATTERN);
+          const cut = partial ? partial.index! : pending.length;
+          const ready = restore(pending.slice(0, cut));
+          pending = pending.slice(cut);
+          return ready;
+        },
+        flush() {
+          const rest = restore(pending);
+          pending = "";
+          return rest;
+        },
+      };
+    },
+
+    counts: () => ({ ...counts }),
+  };
+}
+
+/**
+ * Log the categories masked for an outbound request; never the values
+ */
+export function logRedactions(request: string, counts: RedactionCounts): void {
+  const summary = Object.entries(counts)
+    .map(([category, count]) => `${category}=${count}`)
+    .join(", ");
+  if (summary) {
+    console.log(`[redaction] ${request}: masked ${summary}`);
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Redline comparison between two documents
+ * Clauses are aligned by section path, identical text and similarity (to
+ * catch renumbered clauses), then diffed word by word
+ */
+
+import { findPageRange, type PageSpan } from "@/lib/document-processor";
+import { formatSectionPath, parseLegalStructure } from "@/lib/legal-structure";
+
+export interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface ClauseRef {
+  sectionPath?: string;
+  startChar: number;
+  endChar: number;
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export interface ClauseChange {
+  status: "unchanged" | "modified" | "inserted" | "deleted";
+  base?: ClauseRef;
+  revised?: ClauseRef;
+  ops: DiffOp[]; // Empty for unchanged clauses
+}
+
+export interface Redline {
+  changes: ClauseChange[];
+  stats: Record<ClauseChange["status"], number>;
+}
+
+interface ComparableDocument {
+  text: string;
+  pages?: PageSpan[];
+}
+
+interface Clause {
+  ref: ClauseRef;
+  key: string;
+  text: string; // Whitespace-normalised content
+  body: string; // Content without its leading number, so renumbered clauses still match
+  words: Set<string>;
+}
+
+// Clauses sharing at least this share of words are treated as the same clause
+const MIN_CLAUSE_SIMILARITY = 0.5;
+// Clauses with the same number need less in common, but must not be unrelated
+const MIN_SAME_NUMBER_SIMILARITY = 0.2;
+const LEADING_NUMBER_PATTERN = /^(?:(?:Section|SECTION|Sec\.|§)\s*)?(?:\d+(?:\.\d+)*\.?|\([a-z0-9]{1,4}\))\s*/;
+// Word diffs above this many token comparisons fall back to delete + insert
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split a document into clauses, falling back to paragraphs for unstructured text
+ */
+function splitClauses(document: ComparableDocument): Clause[] {
+  let segments = parseLegalStructure(document.text);
+
+  if (segments.length <= 1) {
+    segments = [];
+    const paragraph = /\S[\s\S]*?(?=\n\s*\n|\s*$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = paragraph.exec(document.text)) !== null) {
+      segments.push({
+        startChar: match.index,
+        endChar: match.index + match[0].length,
+        path: [],
+      });
+    }
+  }
+
+  const seen = new Map<string, number>();
+
+  return segments.map((segment) => {
+    const sectionPath = formatSectionPath(segment.path);
+    const occurrence = seen.get(sectionPath ?? "") ?? 0;
+    seen.set(sectionPath ?? "", occurrence + 1);
+
+    const text = document.text
+      .slice(segment.startChar, segment.endChar)
+      .replace(/\s+/g, " ")
+      .trim();
+    const body = text.replace(LEADING_NUMBER_PATTERN, "");
+    const pageRange = document.pages
+      ? findPageRange(document.pages, segment.startChar, segment.endChar)
+      : undefined;
+
+    return {
+      ref: {
+        ...(sectionPath && { sectionPath }),
+        startChar: segment.startChar,
+        endChar: segment.endChar,
+        ...(pageRange && { pageStart: pageRange.pageStart, pageEnd: pageRange.pageEnd }),
+      },
+      // Unstructured paragraphs have no meaningful key and align by text only
+      key: sectionPath ? `${sectionPath}#${occurrence}` : "",
+      text,
+      body,
+      words: new Set(body.toLowerCase().match(/\w+/g) || []),
+    };
+  });
+}
+
+function similarity(a: Clause, b: Clause): number {
+  if (a.words.size === 0 && b.words.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  a.words.forEach((word) => {
+    if (b.words.has(word)) shared++;
+  });
+  return shared / (a.words.size + b.words.size - shared);
+}
+
+/**
+ * Word-level diff of two strings (longest common subsequence over tokens)
+ */
+export function diffWords(base: string, revised: string): DiffOp[] {
+  const a = base.match(/\s+|\w+|[^\s\w]/g) || [];
+  const b = revised.match(/\s+|\w+|[^\s\w]/g) || [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...(base ? [{ type: "delete" as const, text: base }] : []),
+      ...(revised ? [{ type: "insert" as const, text: revised }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOp["type"], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      ops.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+
+  return ops;
+}
+
+/**
+ * Align the clauses of two documents and produce an insert/delete redline
+ */
+export function compareDocuments(
+  base: ComparableDocument,
+  revised: ComparableDocument
+): Redline {
+  const baseClauses = splitClauses(base);
+  const revisedClauses = splitClauses(revised);
+
+  // revisedIndex -> baseIndex
+  const pairs = new Map<number, number>();
+  const pairedBase = new Set<number>();
+
+  const pair = (find: (clause: Clause, candidate: Clause) => boolean) => {
+    revisedClauses.forEach((clause, revisedIndex) => {
+      if (pairs.has(revisedIndex)) return;
+      const baseIndex = baseClauses.findIndex(
+        (candidate, index) => !pairedBase.has(index) && find(clause, candidate)
+      );
+      if (baseIndex !== -1) {
+        pairs.set(revisedIndex, baseIndex);
+        pairedBase.add(baseIndex);
+      }
+    });
+  };
+
+  // 1. Identical text, in place first, then wherever it moved to or however it was renumbered
+  pair((clause, candidate) => clause.key === candidate.key && clause.body === candidate.body);
+  pair((clause, candidate) => clause.body === candidate.body);
+  // 2. Same section number
+  pair(
+    (clause, candidate) =>
+      clause.key !== "" &&
+      clause.key === candidate.key &&
+      similarity(clause, candidate) >= MIN_SAME_NUMBER_SIMILARITY
+  );
+  // 3. Renumbered or reworded clauses, best match first
+  revisedClauses.forEach((clause, revisedIndex) => {
+    if (pairs.has(revisedIndex)) return;
+    let best = -1;
+    let bestScore = MIN_CLAUSE_SIMILARITY;
+    baseClauses.forEach((candidate, baseIndex) => {
+      if (pairedBase.has(baseIndex)) return;
+      const score = similarity(clause, candidate);
+      if (score >= bestScore) {
+        best = baseIndex;
+        bestScore = score;
+      }
+    });
+    if (best !== -1) {
+      pairs.set(revisedIndex, best);
+      pairedBase.add(best);
+    }
+  });
+
+  // Emit in revised order, placing deleted clauses where they sat in the base
+  const changes: ClauseChange[] = [];
+  let nextBase = 0;
+  const emitDeletedBefore = (limit: number) => {
+    for (; nextBase < limit; nextBase++) {
+      if (!pairedBase.has(nextBase)) {
+        const clause = baseClauses[nextBase];
+        changes.push({
+          status: "deleted",
+          base: clause.ref,
+          ops: [{ type: "delete", text: clause.text }],
+        });
+      }
+    }
+  };
+
+  revisedClauses.forEach((clause, revisedIndex) => {
+    const baseIndex = pairs.get(revisedIndex);
+
+    if (baseIndex === undefined) {
+      changes.push({
+        status: "inserted",
+        revised: clause.ref,
+        ops: [{ type: "insert", text: clause.text }],
+      });
+      return;
+    }
+
+    emitDeletedBefore(baseIndex);
+    nextBase = Math.max(nextBase, baseIndex + 1);
+
+    const baseClause = baseClauses[baseIndex];
+    const unchanged = baseClause.text === clause.text;
+    changes.push({
+      status: unchanged ? "unchanged" : "modified",
+      base: baseClause.ref,
+      revised: clause.ref,
+      ops: unchanged ? [] : diffWords(baseClause.text, clause.text),
+    });
+  });
+  emitDeletedBefore(baseClauses.length);
+
+  const stats = { unchanged: 0, modified: 0, inserted: 0, deleted: 0 };
+  changes.forEach((change) => stats[change.status]++);
+
+  return { changes, stats };
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  UPLOAD_PART_SIZE,
+  createUploadSession,
+  expectedPartSize,
+  getUploadSizeLimit,
+  listMissingParts,
+  uploadPartPaths,
+  type UploadSession,
+} from "@/lib/resumable-uploads";
+
+const supabase = vi.hoisted(() => ({
+  plan: "free" as string | null,
+  storedParts: [] as Array<{ name: string; metadata: { size: number } }>,
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  supabaseAdmin: {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: async () => ({ data: { plan: supabase.plan }, error: null }) }),
+      }),
+      insert: () => {
+        throw new Error("No upload session should be created");
+      },
+    }),
+    storage: {
+      from: () => ({ list: async () => ({ data: supabase.storedParts, error: null }) }),
+    },
+  },
+}));
+
+const MB = 1024 * 1024;
+
+function session(fileSize: number): UploadSession {
+  return {
+    id: "upload",
+    userId: "user",
+    filename: "transcript.pdf",
+    fileType: "application/pdf",
+    fileSize,
+    partSize: UPLOAD_PART_SIZE,
+    totalParts: Math.ceil(fileSize / UPLOAD_PART_SIZE),
+    duplicateAction: "skip",
+    status: "uploading",
+    documentId: null,
+    expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+  };
+}
+
+describe("part sizes", () => {
+  it("expects full parts except for a shorter last part", () => {
+    const upload = session(2 * UPLOAD_PART_SIZE + 100);
+
+    expect(upload.totalParts).toBe(3);
+    expect(expectedPartSize(upload, 1)).toBe(UPLOAD_PART_SIZE);
+    expect(expectedPartSize(upload, 2)).toBe(UPLOAD_PART_SIZE);
+    expect(expectedPartSize(upload, 3)).toBe(100);
+  });
+
+  it("keeps parts under the serverless request body limit", () => {
+    expect(UPLOAD_PART_SIZE).toBeLessThan(4.5 * MB);
+  });
+
+  it("lists the part paths in order", () => {
+    expect(uploadPartPaths(session(UPLOAD_PART_SIZE + 1))).toEqual([
+      "user/uploads/upload/part-00001",
+      "user/uploads/upload/part-00002",
+    ]);
+  });
+});
+
+describe("listMissingParts", () => {
+  it("counts parts that are absent or incomplete as missing", async () => {
+    const upload = session(3 * UPLOAD_PART_SIZE);
+    supabase.storedParts = [
+      { name: "part-00001", metadata: { size: UPLOAD_PART_SIZE } },
+      { name: "part-00003", metadata: { size: UPLOAD_PART_SIZE - 1 } },
+      { name: ".emptyFolderPlaceholder", metadata: { size: 0 } },
+    ];
+
+    expect(await listMissingParts(upload)).toEqual([2, 3]);
+  });
+});
+
+describe("getUploadSizeLimit", () => {
+  beforeEach(() => {
+    supabase.plan = "free";
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("depends on the user's plan", async () => {
+    expect(await getUploadSizeLimit("user")).toBe(100 * MB);
+    supabase.plan = "Pro";
+    expect(await getUploadSizeLimit("user")).toBe(200 * MB);
+  });
+
+  it("gives unknown plans the default plan's limit", async () => {
+    supabase.plan = "legacy";
+    expect(await getUploadSizeLimit("user")).toBe(100 * MB);
+    supabase.plan = null;
+    expect(await getUploadSizeLimit("user")).toBe(100 * MB);
+  });
+
+  it("takes overrides from the environment, up to what ingestion can buffer", async () => {
+    vi.stubEnv("UPLOAD_SIZE_LIMITS_MB", "free=20, team=150, enterprise=4096, broken");
+
+    expect(await getUploadSizeLimit("user")).toBe(20 * MB);
+    supabase.plan = "team";
+    expect(await getUploadSizeLimit("user")).toBe(150 * MB);
+    supabase.plan = "enterprise";
+    expect(await getUploadSizeLimit("user")).toBe(250 * MB);
+  });
+});
+
+describe("createUploadSession", () => {
+  it("rejects files that need too many parts", async () => {
+    await expect(
+      createUploadSession("user", {
+        filename: "huge.pdf",
+        fileType: "application/pdf",
+        fileSize: 10001 * UPLOAD_PART_SIZE,
+        duplicateAction: "skip",
+      })
+    ).rejects.toThrow("File needs more than 10000 parts");
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * Resumable multi-part uploads
+ * Files too large for a single request (trial transcripts, discovery
+ * productions) are uploaded in parts: the client starts an upload session,
+ * PUTs each part, and completes the session once every part is stored. Parts
+ * are streamed to storage as they arrive, so a dropped connection only loses
+ * the part in flight, and the session reports which parts it has so the
+ * client can send the rest. Completing hashes the parts and moves them, as
+ * they are, to the document's original file for ingestion.
+ *
+ * The largest upload depends on the user's plan; UPLOAD_SIZE_LIMITS_MB
+ * overrides the defaults, e.g. "free=100,pro=200,enterprise=250", up to
+ * MAX_SIZE_LIMIT_MB.
+ */
+
+import { createHash } from "crypto";
+import { supabaseAdmin } from "@/lib/supabase";
+import type { DuplicateAction } from "@/lib/document-versions";
+
+const UPLOADS_BUCKET = "documents";
+
+// Serverless request bodies are capped at 4.5MB, so parts stay under that
+export const UPLOAD_PART_SIZE = 4 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const UPLOAD_SESSION_TTL_HOURS = 24;
+// Longer than completing can run (the complete route's maxDuration), so a
+// session still "completing" after this was left behind by a failed request
+const COMPLETING_TIMEOUT_MINUTES = 10;
+
+// Ingestion holds the whole file in memory (the download, the copy handed to
+// the extraction worker and the parser's own), so no plan goes above this
+// within a 2 GB serverless function
+const MAX_SIZE_LIMIT_MB = 250;
+
+const DEFAULT_PLAN = "free";
+const DEFAULT_SIZE_LIMITS_MB: Record<string, number> = {
+  free: 100,
+  pro: 200,
+  enterprise: MAX_SIZE_LIMIT_MB,
+};
+
+export type UploadSessionStatus = "uploading" | "completing" | "completed" | "aborted";
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  filename: string;
+  fileType: string;
+  fileSize: number;
+  partSize: number;
+  totalParts: number;
+  duplicateAction: DuplicateAction;
+  status: UploadSessionStatus;
+  documentId: string | null;
+  expiresAt: string;
+}
+
+interface UploadSessionRow {
+  id: string;
+  user_id: string;
+  filename: string;
+  file_type: string;
+  file_size: number;
+  part_size: number;
+  total_parts: number;
+  duplicate_action: string;
+  status: string;
+  document_id: string | null;
+  expires_at: string;
+}
+
+function toUploadSession(row: UploadSessionRow): UploadSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    filename: row.filename,
+    fileType: row.file_type,
+    fileSize: Number(row.file_size),
+    partSize: row.part_size,
+    totalParts: row.total_parts,
+    duplicateAction: row.duplicate_action as DuplicateAction,
+    status: row.status as UploadSessionStatus,
+    documentId: row.document_id,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Storage folder of an upload's parts: <userId>/uploads/<uploadId>
+ */
+function uploadFolder(session: UploadSession): string {
+  return `${session.userId}/uploads/${session.id}`;
+}
+
+function partPath(session: UploadSession, partNumber: number): string {
+  return `${uploadFolder(session)}/part-${String(partNumber).padStart(5, "0")}`;
+}
+
+/**
+ * Size limits by plan in bytes, from UPLOAD_SIZE_LIMITS_MB over the defaults,
+ * capped at MAX_SIZE_LIMIT_MB
+ */
+function getSizeLimits(): Record<string, number> {
+  const limits = { ...DEFAULT_SIZE_LIMITS_MB };
+  for (const entry of (process.env.UPLOAD_SIZE_LIMITS_MB || "").split(",")) {
+    const [plan, megabytes] = entry.split("=").map((part) => part.trim());
+    if (plan && Number(megabytes) > 0) {
+      limits[plan.toLowerCase()] = Number(megabytes);
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(limits).map(([plan, megabytes]) => [
+      plan,
+      Math.min(megabytes, MAX_SIZE_LIMIT_MB) * 1024 * 1024,
+    ])
+  );
+}
+
+/**
+ * Largest file the user's plan allows, in bytes. Unknown plans get the
+ * default plan's limit.
+ */
+export async function getUploadSizeLimit(userId: string): Promise<number> {
+  const { data: user, error } = await supabaseAdmin
+    .from("users")
+    .select("plan")
+    .eq("id", userId)
+    .single();
+
+  if (error) {
+    console.error("Error fetching user plan:", error);
+    throw new Error("Failed to fetch upload limit");
+  }
+
+  const limits = getSizeLimits();
+  return limits[user?.plan?.toLowerCase()] ?? limits[DEFAULT_PLAN];
+}
+
+/**
+ * Start an upload session for a file of the given size
+ */
+export async function createUploadSession(
+  userId: string,
+  upload: {
+    filename: string;
+    fileType: string;
+    fileSize: number;
+    duplicateAction: DuplicateAction;
+  }
+): Promise<UploadSession> {
+  const totalParts = Math.max(1, Math.ceil(upload.fileSize / UPLOAD_PART_SIZE));
+  if (totalParts > MAX_PARTS) {
+    throw new Error(`File needs more than ${MAX_PARTS} parts`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .insert({
+      user_id: userId,
+      filename: upload.filename,
+      file_type: upload.fileType,
+      file_size: upload.fileSize,
+      part_size: UPLOAD_PART_SIZE,
+      total_parts: totalParts,
+      duplicate_action: upload.duplicateAction,
+      expires_at: new Date(Date.now() + UPLOAD_SESSION_TTL_HOURS * 3600 * 1000).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error("Error creating upload session:", error);
+    throw new Error("Failed to start upload");
+  }
+
+  return toUploadSession(data);
+}
+
+/**
+ * A user's upload session, or null if there is none with this id
+ */
+export async function getUploadSession(
+  uploadId: string,
+  userId: string
+): Promise<UploadSession | null> {
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .select("*")
+    .eq("id", uploadId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching upload session:", error);
+    throw new Error("Failed to fetch upload");
+  }
+
+  return data ? toUploadSession(data) : null;
+}
+
+export function isUploadExpired(session: UploadSession): boolean {
+  return new Date(session.expiresAt).getTime() < Date.now();
+}
+
+/**
+ * Size a part must have: partSize, except for a shorter last part
+ */
+export function expectedPartSize(session: UploadSession, partNumber: number): number {
+  return partNumber < session.totalParts
+    ? session.partSize
+    : session.fileSize - session.partSize * (session.totalParts - 1);
+}
+
+/**
+ * Stream a part to storage. Sending a part again replaces it, so a part
+ * whose upload was interrupted can simply be retried.
+ */
+export async function storeUploadPart(
+  session: UploadSession,
+  partNumber: number,
+  body: ReadableStream<Uint8Array> | Buffer
+): Promise<void> {
+  const { error } = await supabaseAdmin.storage
+    .from(UPLOADS_BUCKET)
+    .upload(partPath(session, partNumber), body, {
+      contentType: "application/octet-stream",
+      upsert: true,
+    });
+
+  if (error) {
+    console.error(`Error storing part ${partNumber} of upload ${session.id}:`, error);
+    throw new Error("Failed to store upload part");
+  }
+}
+
+/**
+ * The first part of an upload, for checking the file's content type before
+ * the upload is completed
+ */
+export async function readUploadHead(session: UploadSession): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(UPLOADS_BUCKET)
+    .download(partPath(session, 1));
+
+  if (error || !data) {
+    console.error(`Error reading first part of upload ${session.id}:`, error);
+    throw new Error("Failed to read upload");
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Parts stored so far with their sizes, keyed by part number
+ */
+async function listStoredParts(session: UploadSession): Promise<Map<number, number>> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(UPLOADS_BUCKET)
+    .list(uploadFolder(session), { limit: MAX_PARTS + 1 });
+
+  if (error) {
+    console.error("Error listing upload parts:", error);
+    throw new Error("Failed to list upload parts");
+  }
+
+  const parts = new Map<number, number>();
+  for (const file of data || []) {
+    const match = file.name.match(/^part-(\d+)$/);
+    if (match) {
+      parts.set(Number(match[1]), Number(file.metadata?.size ?? 0));
+    }
+  }
+  return parts;
+}
+
+/**
+ * Part numbers received in full, so the client can resume with the others
+ */
+export async function listReceivedParts(session: UploadSession): Promise<number[]> {
+  const parts = await listStoredParts(session);
+  return Array.from(parts.entries())
+    .filter(([partNumber, size]) => size === expectedPartSize(session, partNumber))
+    .map(([partNumber]) => partNumber)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Part numbers not yet received in full; the upload can be completed once there are none
+ */
+export async function listMissingParts(session: UploadSession): Promise<number[]> {
+  const received = new Set(await listReceivedParts(session));
+  return Array.from({ length: session.totalParts }, (_, i) => i + 1).filter(
+    (partNumber) => !received.has(partNumber)
+  );
+}
+
+/**
+ * Storage paths of an upload's parts in order, e.g. to keep them as the
+ * document's original file. Call once listMissingParts is empty.
+ */
+export function uploadPartPaths(session: UploadSession): string[] {
+  return Array.from({ length: session.totalParts }, (_, i) => partPath(session, i + 1));
+}
+
+/**
+ * SHA-256 of the whole file, reading one part at a time so the file is never
+ * held in memory. Call once listMissingParts is empty.
+ */
+export async function hashUploadParts(session: UploadSession): Promise<string> {
+  const hash = createHash("sha256");
+
+  for (const path of uploadPartPaths(session)) {
+    const { data, error } = await supabaseAdmin.storage.from(UPLOADS_BUCKET).download(path);
+    if (error || !data) {
+      console.error(`Error reading ${path} of upload ${session.id}:`, error);
+      throw new Error("Failed to read upload");
+    }
+    hash.update(new Uint8Array(await data.arrayBuffer()));
+  }
+
+  return hash.digest("hex");
+}
+
+/**
+ * Move a session to a new status. Only succeeds from the given status, so two
+ * requests cannot both complete the same upload; returns whether it did.
+ */
+export async function updateUploadSessionStatus(
+  session: UploadSession,
+  from: UploadSessionStatus,
+  to: UploadSessionStatus,
+  documentId?: string
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .update({
+      status: to,
+      ...(documentId && { document_id: documentId }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", session.id)
+    .eq("status", from)
+    .select("id");
+
+  if (error) {
+    console.error("Error updating upload session:", error);
+    throw new Error("Failed to update upload");
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Remove whatever is left in an upload's folder.
+ * Failures are logged since the parts expire with the session anyway.
+ */
+export async function deleteUploadFiles(session: UploadSession): Promise<void> {
+  const { data } = await supabaseAdmin.storage
+    .from(UPLOADS_BUCKET)
+    .list(uploadFolder(session), { limit: MAX_PARTS + 1 });
+
+  const paths = (data || []).map((file) => `${uploadFolder(session)}/${file.name}`);
+  if (paths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.storage.from(UPLOADS_BUCKET).remove(paths);
+  if (error) {
+    console.error(`Error deleting files of upload ${session.id}:`, error);
+  }
+}
+
+/**
+ * Reopen a user's uploads whose completion was abandoned, then abort their
+ * expired, unfinished uploads and delete their parts
+ */
+export async function cleanupExpiredUploads(userId: string): Promise<void> {
+  // Hand sessions whose completion never finished back to the client to retry
+  const { error: staleError } = await supabaseAdmin
+    .from("upload_sessions")
+    .update({ status: "uploading", updated_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("status", "completing")
+    .lt("updated_at", new Date(Date.now() - COMPLETING_TIMEOUT_MINUTES * 60 * 1000).toISOString());
+
+  if (staleError) {
+    console.error("Error resetting stale upload completions:", staleError);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("upload_sessions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("status", "uploading")
+    .lt("expires_at", new Date().toISOString());
+
+  if (error) {
+    console.error("Error fetching expired uploads:", error);
+    return;
+  }
+
+  for (const row of data || []) {
+    const session = toUploadSession(row);
+    await deleteUploadFiles(session);
+    await updateUploadSessionStatus(session, "uploading", "aborted");
+  }
+}
@@ -30,6 +30,7 @@ export interface Database {
           password_hash: string | null;
           email_verified: string | null;
           image: string | null;
+          plan: string;
           created_at: string;
           updated_at: string;
         };
@@ -40,6 +41,7 @@ export interface Database {
           password_hash?: string | null;
           email_verified?: string | null;
           image?: string | null;
+          plan?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -50,6 +52,7 @@ export interface Database {
           password_hash?: string | null;
           email_verified?: string | null;
           image?: string | null;
+          plan?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -58,11 +61,31 @@ export interface Database {
         Row: {
           id: string;
           user_id: string;
+          parent_document_id: string | null;
           title: string;
           filename: string;
           file_type: string;
           file_size: number | null;
           storage_path: string | null;
+          extracted_text: string | null;
+          pipeline_version: string | null;
+          embedding_model: string | null;
+          content_hash: string | null;
+          version_group_id: string | null;
+          version_number: number;
+          previous_version_id: string | null;
+          is_latest: boolean;
+          parties: string[];
+          party_names: string[];
+          effective_date: string | null;
+          term_description: string | null;
+          term_months: number | null;
+          governing_law: string | null;
+          jurisdiction: string | null;
+          renewal_terms: string | null;
+          auto_renews: boolean | null;
+          contract_value: number | null;
+          contract_currency: string | null;
           status: string;
           metadata: any;
           total_chunks: number;
@@ -72,11 +95,31 @@ export interface Database {
         Insert: {
           id?: string;
           user_id: string;
+          parent_document_id?: string | null;
           title: string;
           filename: string;
           file_type: string;
           file_size?: number | null;
           storage_path?: string | null;
+          extracted_text?: string | null;
+          pipeline_version?: string | null;
+          embedding_model?: string | null;
+          content_hash?: string | null;
+          version_group_id?: string | null;
+          version_number?: number;
+          previous_version_id?: string | null;
+          is_latest?: boolean;
+          parties?: string[];
+          party_names?: string[];
+          effective_date?: string | null;
+          term_description?: string | null;
+          term_months?: number | null;
+          governing_law?: string | null;
+          jurisdiction?: string | null;
+          renewal_terms?: string | null;
+          auto_renews?: boolean | null;
+          contract_value?: number | null;
+          contract_currency?: string | null;
           status?: string;
           metadata?: any;
           total_chunks?: number;
@@ -86,11 +129,31 @@ export interface Database {
         Update: {
           id?: string;
           user_id?: string;
+          parent_document_id?: string | null;
           title?: string;
           filename?: string;
           file_type?: string;
           file_size?: number | null;
           storage_path?: string | null;
+          extracted_text?: string | null;
+          pipeline_version?: string | null;
+          embedding_model?: string | null;
+          content_hash?: string | null;
+          version_group_id?: string | null;
+          version_number?: number;
+          previous_version_id?: string | null;
+          is_latest?: boolean;
+          parties?: string[];
+          party_names?: string[];
+          effective_date?: string | null;
+          term_description?: string | null;
+          term_months?: number | null;
+          governing_law?: string | null;
+          jurisdiction?: string | null;
+          renewal_terms?: string | null;
+          auto_renews?: boolean | null;
+          contract_value?: number | null;
+          contract_currency?: string | null;
           status?: string;
           metadata?: any;
           total_chunks?: number;
@@ -127,6 +190,228 @@ export interface Database {
           created_at?: string;
         };
       };
+      document_definitions: {
+        Row: {
+          id: string;
+          document_id: string;
+          term: string;
+          definition: string;
+          start_char: number;
+          end_char: number;
+          page_start: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          term: string;
+          definition: string;
+          start_char: number;
+          end_char: number;
+          page_start?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          document_id?: string;
+          term?: string;
+          definition?: string;
+          start_char?: number;
+          end_char?: number;
+          page_start?: number | null;
+          created_at?: string;
+        };
+      };
+      citations: {
+        Row: {
+          id: string;
+          document_id: string;
+          chunk_id: string;
+          user_id: string;
+          kind: string;
+          citation: string;
+          raw_text: string;
+          case_name: string | null;
+          court: string | null;
+          year: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          chunk_id: string;
+          user_id: string;
+          kind: string;
+          citation: string;
+          raw_text: string;
+          case_name?: string | null;
+          court?: string | null;
+          year?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          document_id?: string;
+          chunk_id?: string;
+          user_id?: string;
+          kind?: string;
+          citation?: string;
+          raw_text?: string;
+          case_name?: string | null;
+          court?: string | null;
+          year?: number | null;
+          created_at?: string;
+        };
+      };
+      upload_sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          filename: string;
+          file_type: string;
+          file_size: number;
+          part_size: number;
+          total_parts: number;
+          duplicate_action: string;
+          status: string;
+          document_id: string | null;
+          expires_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          filename: string;
+          file_type: string;
+          file_size: number;
+          part_size: number;
+          total_parts: number;
+          duplicate_action?: string;
+          status?: string;
+          document_id?: string | null;
+          expires_at: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          filename?: string;
+          file_type?: string;
+          file_size?: number;
+          part_size?: number;
+          total_parts?: number;
+          duplicate_action?: string;
+          status?: string;
+          document_id?: string | null;
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      embedding_cache: {
+        Row: {
+          model: string;
+          input_type: string;
+          text_hash: string;
+          embedding: number[];
+          hit_count: number;
+          created_at: string;
+          last_used_at: string;
+        };
+        Insert: {
+          model: string;
+          input_type: string;
+          text_hash: string;
+          embedding: number[];
+          hit_count?: number;
+          created_at?: string;
+          last_used_at?: string;
+        };
+        Update: {
+          model?: string;
+          input_type?: string;
+          text_hash?: string;
+          embedding?: number[];
+          hit_count?: number;
+          created_at?: string;
+          last_used_at?: string;
+        };
+      };
+      embedding_cache_stats: {
+        Row: {
+          day: string;
+          model: string;
+          input_type: string;
+          hits: number;
+          misses: number;
+        };
+        Insert: {
+          day?: string;
+          model: string;
+          input_type: string;
+          hits?: number;
+          misses?: number;
+        };
+        Update: {
+          day?: string;
+          model?: string;
+          input_type?: string;
+          hits?: number;
+          misses?: number;
+        };
+      };
+      ingestion_jobs: {
+        Row: {
+          id: string;
+          document_id: string;
+          user_id: string;
+          status: string;
+          step: string | null;
+          payload: any;
+          attempts: number;
+          max_attempts: number;
+          run_at: string;
+          locked_by: string | null;
+          locked_at: string | null;
+          last_error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          user_id: string;
+          status?: string;
+          step?: string | null;
+          payload?: any;
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          document_id?: string;
+          user_id?: string;
+          status?: string;
+          step?: string | null;
+          payload?: any;
+          attempts?: number;
+          max_attempts?: number;
+          run_at?: string;
+          locked_by?: string | null;
+          locked_at?: string | null;
+          last_error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       conversations: {
         Row: {
           id: string;
@@ -180,5 +465,29 @@ export interface Database {
         };
       };
     };
+    Functions: {
+      list_cited_authorities: {
+        Args: {
+          p_user_id: string;
+          p_kind?: string | null;
+        };
+        Returns: Array<{
+          kind: string;
+          citation: string;
+          case_name: string | null;
+          court: string | null;
+          year: number | null;
+          document_count: number;
+        }>;
+      };
+      list_document_embedding_models: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Array<{
+          embedding_model: string | null;
+        }>;
+      };
+    };
   };
-}
\ No newline at end of file
+}
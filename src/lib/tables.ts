@@ -0,0 +1,173 @@
+/**
+ * Tables in extracted documents
+ * Detection of column layouts in PDF text, header-aware rendering for
+ * embedding, and Markdown rendering for display
+ */
+
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * A table found during extraction, with the range of its rendering in the extracted text
+ */
+export interface DocumentTable extends TableData {
+  startChar: number;
+  endChar: number;
+  pageNumber?: number;
+}
+
+/**
+ * A positioned run of text on a PDF page (pdf.js text content item)
+ */
+export interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TableCell {
+  text: string;
+  left: number;
+  right: number;
+}
+
+const MIN_TABLE_COLUMNS = 2;
+// Header plus at least two rows, so two-column letterheads are not taken for tables
+const MIN_TABLE_LINES = 3;
+// Gaps wider than this many font heights separate cells rather than words
+const CELL_GAP_RATIO = 1.2;
+
+/**
+ * Split a line of positioned text into cells at wide horizontal gaps
+ */
+function splitCells(items: PositionedText[]): TableCell[] {
+  const cells: TableCell[] = [];
+  const sorted = [...items].filter((item) => item.str.trim()).sort((a, b) => a.x - b.x);
+
+  for (const item of sorted) {
+    const last = cells[cells.length - 1];
+    const gap = last ? item.x - last.right : Infinity;
+    if (last && gap <= Math.max(item.height, 1) * CELL_GAP_RATIO) {
+      last.text += (gap > 0.5 && !last.text.endsWith(" ") ? " " : "") + item.str;
+      last.right = Math.max(last.right, item.x + item.width);
+    } else {
+      cells.push({ text: item.str, left: item.x, right: item.x + item.width });
+    }
+  }
+
+  return cells.map((cell) => ({ ...cell, text: cell.text.replace(/\s+/g, " ").trim() }));
+}
+
+/**
+ * Whether each cell of a line sits under the matching column of the header line
+ */
+function alignsWith(cells: TableCell[], columns: TableCell[]): boolean {
+  if (cells.length !== columns.length) {
+    return false;
+  }
+  return cells.every((cell, index) => {
+    const column = columns[index];
+    const next = columns[index + 1];
+    const previous = columns[index - 1];
+    // Right-aligned amounts may start left of their header, but not in another column
+    return (
+      cell.right > column.left &&
+      (!next || cell.left < next.left) &&
+      (!previous || cell.left > previous.right)
+    );
+  });
+}
+
+/**
+ * Find runs of lines that share a column layout. Returns the cells of every
+ * line, and the [first, last] line index of each table.
+ */
+export function detectTableLines(lines: PositionedText[][]): {
+  cells: string[][];
+  tables: Array<{ firstLine: number; lastLine: number }>;
+} {
+  const lineCells = lines.map(splitCells);
+  const tables: Array<{ firstLine: number; lastLine: number }> = [];
+
+  let start = 0;
+  while (start < lineCells.length) {
+    const columns = lineCells[start];
+    let end = start;
+    // Header cells are labels; a numeric first row is more likely pleading line numbers or data
+    const isHeader =
+      columns.length >= MIN_TABLE_COLUMNS && columns.every((cell) => /[a-z]/i.test(cell.text));
+    if (isHeader) {
+      while (end + 1 < lineCells.length && alignsWith(lineCells[end + 1], columns)) {
+        end++;
+      }
+    }
+
+    if (end - start + 1 >= MIN_TABLE_LINES) {
+      tables.push({ firstLine: start, lastLine: end });
+      start = end + 1;
+    } else {
+      start++;
+    }
+  }
+
+  return { cells: lineCells.map((cells) => cells.map((cell) => cell.text)), tables };
+}
+
+/**
+ * Render rows so each line stands on its own: "Header: value | Header: value"
+ */
+function renderRows(headers: string[], rows: string[][]): string[] {
+  return rows.map((row) =>
+    row
+      .map((cell, column) => (headers[column] && cell ? `${headers[column]}: ${cell}` : cell))
+      .filter(Boolean)
+      .join(" | ")
+  );
+}
+
+/**
+ * Render a table as text for embedding, split into parts of at most maxChars
+ * that each repeat the column headers. Returns the rows each part covers.
+ */
+export function renderTableChunks(
+  table: TableData,
+  maxChars: number
+): Array<{ content: string; rowStart: number; rowEnd: number }> {
+  const title = `Table with columns: ${table.headers.filter(Boolean).join(" | ")}`;
+  const lines = renderRows(table.headers, table.rows);
+  const parts: Array<{ content: string; rowStart: number; rowEnd: number }> = [];
+
+  let content = title;
+  let rowStart = 0;
+  lines.forEach((line, index) => {
+    if (index > rowStart && content.length + line.length + 1 > maxChars) {
+      parts.push({ content, rowStart, rowEnd: index });
+      content = title;
+      rowStart = index;
+    }
+    content += `\n${line}`;
+  });
+  parts.push({ content, rowStart, rowEnd: lines.length });
+
+  return parts;
+}
+
+/**
+ * Render a table as a Markdown table
+ */
+export function formatTableMarkdown(table: TableData): string {
+  const width = Math.max(table.headers.length, ...table.rows.map((row) => row.length));
+  const escape = (cell: string | undefined) => (cell ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ");
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => escape(cells[index])).join(" | ")} |`;
+
+  return [
+    line(table.headers),
+    `|${" --- |".repeat(width)}`,
+    ...table.rows.map(line),
+  ].join("\n");
+}
@@ -0,0 +1,799 @@
+/**
+ * Plain-text conversion for markup and word-processor formats
+ * (RTF, HTML, Markdown and OpenDocument XML)
+ */
+
+import { parse, HTMLElement, Node, NodeType } from "node-html-parser";
+import type { DocumentTable, TableData } from "@/lib/tables";
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decode XML character references and the predefined entities
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// --------------------
+// RTF
+// --------------------
+
+// Groups whose content is formatting data or metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "fldinst",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "xmlnstbl",
+  "generator",
+]);
+
+// TextDecoder labels of the \ansicpg code pages that are not "windows-<number>"
+const RTF_CODE_PAGES: Record<number, string> = {
+  932: "shift_jis",
+  936: "gbk",
+  949: "euc-kr",
+  950: "big5",
+  10000: "macintosh",
+};
+
+// Windows-1252 bytes 0x80-0x9F (curly quotes, dashes, euro, trademark), where it
+// differs from Latin-1. Node's windows-1252 TextDecoder decodes them as Latin-1.
+const WINDOWS_1252_HIGH =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) =>
+    byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte)
+  ).join("");
+}
+
+/**
+ * Decoder for the document's \ansicpg code page, falling back to Windows-1252,
+ * the RTF default
+ */
+function rtfDecoder(codePage: number): (bytes: Uint8Array) => string {
+  if (codePage !== 1252) {
+    try {
+      const decoder = new TextDecoder(RTF_CODE_PAGES[codePage] ?? `windows-${codePage}`);
+      return (bytes) => decoder.decode(bytes);
+    } catch {
+      // Unsupported code page
+    }
+  }
+  return decodeWindows1252;
+}
+
+/**
+ * Convert RTF to plain text, keeping paragraph and line breaks
+ */
+export function rtfToText(rtf: string): string {
+  const groups: Array<{ skip: boolean; unicodeSkip: number }> = [];
+  let current = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0; // fallback characters to drop after a \u escape
+  let decode = rtfDecoder(1252);
+  let text = "";
+
+  const emit = (value: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!current.skip) {
+      text += value;
+    }
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === "{") {
+      groups.push(current);
+      current = { ...current };
+      i++;
+    } else if (char === "}") {
+      current = groups.pop() ?? { skip: false, unicodeSkip: 1 };
+      i++;
+    } else if (char === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i += 2;
+      } else if (next === "'" && pendingSkip > 0) {
+        pendingSkip--;
+        i += 4;
+      } else if (next === "'") {
+        // Consecutive \'hh bytes are decoded together, as multi-byte code pages need
+        const bytes: number[] = [];
+        while (rtf[i] === "\\" && rtf[i + 1] === "'") {
+          bytes.push(parseInt(rtf.slice(i + 2, i + 4), 16));
+          i += 4;
+        }
+        emit(decode(new Uint8Array(bytes)));
+      } else if (next === "*") {
+        current.skip = true;
+        i += 2;
+      } else if (next === "~") {
+        emit(" ");
+        i += 2;
+      } else if (next === "_") {
+        emit("-");
+        i += 2;
+      } else if (next === "\n" || next === "\r") {
+        emit("\n");
+        i += 2;
+      } else {
+        const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40));
+        if (!match) {
+          i += 2;
+          continue;
+        }
+        i += 1 + match[0].length;
+
+        const word = match[1];
+        const param = match[2] !== undefined ? Number(match[2]) : undefined;
+
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          current.skip = true;
+        } else if (word === "par" || word === "line" || word === "sect" || word === "page") {
+          emit("\n");
+        } else if (word === "tab" || word === "cell") {
+          emit("\t");
+        } else if (word === "row") {
+          emit("\n");
+        } else if (word === "ansicpg" && param !== undefined) {
+          decode = rtfDecoder(param);
+        } else if (word === "uc" && param !== undefined) {
+          current.unicodeSkip = param;
+        } else if (word === "u" && param !== undefined) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = current.unicodeSkip;
+        }
+      }
+    } else {
+      if (char !== "\r" && char !== "\n") {
+        emit(char);
+      }
+      i++;
+    }
+  }
+
+  return text;
+}
+
+// --------------------
+// HTML
+// --------------------
+
+const HTML_SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "head",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "nav",
+]);
+
+const HTML_BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "main",
+  "aside",
+  "blockquote",
+  "pre",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "ul",
+  "ol",
+  "dl",
+  "dt",
+  "dd",
+  "table",
+  "hr",
+  "figure",
+  "figcaption",
+  "address",
+]);
+
+/**
+ * Render an HTML node tree to text, one block element per line
+ */
+function renderHtmlNode(node: Node, listIndex?: { value: number }): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text.replace(/\s+/g, " ");
+  }
+
+  if (!(node instanceof HTMLElement)) {
+    return "";
+  }
+
+  const tag = node.rawTagName?.toLowerCase() ?? "";
+  if (HTML_SKIPPED_TAGS.has(tag)) {
+    return "";
+  }
+
+  if (tag === "br") {
+    return "\n";
+  }
+
+  if (tag === "pre") {
+    return `\n${node.text}\n`;
+  }
+
+  if (tag === "tr") {
+    const cells = node.childNodes
+      .filter((child): child is HTMLElement => child instanceof HTMLElement)
+      .filter((cell) => ["td", "th"].includes(cell.rawTagName?.toLowerCase()))
+      .map((cell) => renderHtmlChildren(cell).replace(/\s+/g, " ").trim());
+    return `\n${cells.join(" | ")}`;
+  }
+
+  const ordered = tag === "ol" ? { value: Number(node.getAttribute("start") || 1) } : undefined;
+  const content = renderHtmlChildren(node, ordered ?? (tag === "ul" ? undefined : listIndex));
+
+  if (tag === "li") {
+    const marker = listIndex ? `${listIndex.value++}. ` : "- ";
+    return `\n${marker}${content.trim()}`;
+  }
+
+  return HTML_BLOCK_TAGS.has(tag) ? `\n${content}\n` : content;
+}
+
+function renderHtmlChildren(node: HTMLElement, listIndex?: { value: number }): string {
+  return node.childNodes.map((child) => renderHtmlNode(child, listIndex)).join("");
+}
+
+/**
+ * Convert an HTML page to plain text, dropping scripts, styles and navigation
+ */
+export function htmlToText(html: string): string {
+  const root = parse(html, { comment: false });
+  const body = root.querySelector("body") ?? root;
+
+  return renderHtmlChildren(body)
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// --------------------
+// Markdown
+// --------------------
+
+/**
+ * Convert Markdown to plain text, keeping headings and list items on their own lines
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    // Drop code fences but keep their content
+    .replace(/^```.*$/gm, "")
+    // Heading markers and blockquotes
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    // Images and links keep their visible text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    // Emphasis and inline code
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/`([^`]+)`/g, "$1")
+    // Horizontal rules and table separator rows
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "")
+    .replace(/^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/gm, "");
+}
+
+// --------------------
+// OpenDocument
+// --------------------
+
+/**
+ * Convert the content.xml of an OpenDocument text file to plain text
+ */
+export function odtXmlToText(xml: string): string {
+  const body = xml.match(/<office:body[^>]*>([\s\S]*)<\/office:body>/)?.[1] ?? xml;
+
+  return decodeXmlEntities(
+    body
+      .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, "")
+      .replace(/<text:tab\s*\/>/g, "\t")
+      .replace(/<text:line-break\s*\/>/g, "\n")
+      .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_, count) => " ".repeat(Number(count)))
+      .replace(/<text:s\s*\/>/g, " ")
+      .replace(/<\/text:(p|h)>/g, "\n")
+      .replace(/<\/table:table-cell>/g, " | ")
+      .replace(/<\/table:table-row>/g, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/ \| \n/g, "\n")
+    .trim();
+}
+
+// --------------------
+// DOCX
+// --------------------
+
+/**
+ * A heading in a document's extracted text
+ */
+export interface DocumentHeading {
+  level: number; // 1-6
+  text: string;
+  startChar: number;
+  endChar: number;
+}
+
+interface DocxNumberingLevel {
+  start: number;
+  format: string; // w:numFmt, e.g. "decimal", "lowerLetter", "bullet"
+  text: string; // w:lvlText, e.g. "%1.%2"
+  legal: boolean; // w:isLgl: show every level as a decimal
+}
+
+interface DocxNumbering {
+  abstractNums: Map<string, Map<number, DocxNumberingLevel>>;
+  nums: Map<string, { abstractNumId: string; startOverrides: Map<number, number> }>;
+  // Paragraph style -> the list level it is linked to
+  styleLevels: Map<string, { abstractNumId: string; level: number }>;
+}
+
+function xmlAttribute(xml: string, element: string, attribute = "w:val"): string | undefined {
+  const match = xml.match(new RegExp(`<${element}\\b[^>]*?\\s${attribute}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+function parseDocxNumbering(xml: string): DocxNumbering {
+  const numbering: DocxNumbering = { abstractNums: new Map(), nums: new Map(), styleLevels: new Map() };
+
+  for (const [, attributes, body] of Array.from(
+    xml.matchAll(/<w:abstractNum\b([^>]*)>([\s\S]*?)<\/w:abstractNum>/g)
+  )) {
+    const abstractNumId = xmlAttribute(`<w:abstractNum${attributes}>`, "w:abstractNum", "w:abstractNumId");
+    if (abstractNumId === undefined) {
+      continue;
+    }
+    const levels = new Map<number, DocxNumberingLevel>();
+    for (const [lvl] of Array.from(body.matchAll(/<w:lvl\b[\s\S]*?<\/w:lvl>/g))) {
+      const level = Number(xmlAttribute(lvl, "w:lvl", "w:ilvl") ?? 0);
+      levels.set(level, {
+        start: Number(xmlAttribute(lvl, "w:start") ?? 1),
+        format: xmlAttribute(lvl, "w:numFmt") ?? "decimal",
+        text: xmlAttribute(lvl, "w:lvlText") ?? "",
+        legal: /<w:isLgl\b(?![^>]*w:val="(?:0|false)")/.test(lvl),
+      });
+      const style = xmlAttribute(lvl, "w:pStyle");
+      if (style !== undefined) {
+        numbering.styleLevels.set(style, { abstractNumId, level });
+      }
+    }
+    numbering.abstractNums.set(abstractNumId, levels);
+  }
+
+  for (const [num] of Array.from(xml.matchAll(/<w:num\b[\s\S]*?<\/w:num>/g))) {
+    const numId = xmlAttribute(num, "w:num", "w:numId");
+    const abstractNumId = xmlAttribute(num, "w:abstractNumId");
+    if (numId === undefined || abstractNumId === undefined) {
+      continue;
+    }
+    const startOverrides = new Map<number, number>();
+    for (const [override] of Array.from(num.matchAll(/<w:lvlOverride\b[\s\S]*?<\/w:lvlOverride>/g))) {
+      const start = xmlAttribute(override, "w:startOverride");
+      if (start !== undefined) {
+        startOverrides.set(Number(xmlAttribute(override, "w:lvlOverride", "w:ilvl") ?? 0), Number(start));
+      }
+    }
+    numbering.nums.set(numId, { abstractNumId, startOverrides });
+  }
+
+  return numbering;
+}
+
+function toLetters(value: number): string {
+  // Word repeats the letter past z: aa, bb, ...
+  const letter = String.fromCharCode(97 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+    [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"],
+  ];
+  let roman = "";
+  for (const [amount, numeral] of numerals) {
+    for (; value >= amount; value -= amount) {
+      roman += numeral;
+    }
+  }
+  return roman;
+}
+
+function formatListNumber(value: number, format: string): string {
+  if (value < 1) {
+    return String(value);
+  }
+  switch (format) {
+    case "lowerLetter":
+      return toLetters(value);
+    case "upperLetter":
+      return toLetters(value).toUpperCase();
+    case "lowerRoman":
+      return toRoman(value);
+    case "upperRoman":
+      return toRoman(value).toUpperCase();
+    case "decimalZero":
+      return String(value).padStart(2, "0");
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Resolve the list number Word displays in front of each paragraph of a DOCX
+ * file (e.g. "1.", "2.1", "(a)"), in the order the paragraphs appear in
+ * word/document.xml. Paragraphs without a number, and bulleted ones, are null.
+ * mammoth reads which paragraphs are list items but drops their numbers.
+ */
+export function resolveDocxListLabels(documentXml: string, numberingXml: string): Array<string | null> {
+  const numbering = parseDocxNumbering(numberingXml);
+  // Word counts per abstract list, so separate w:num instances of it continue
+  // the same sequence unless they override a level's start
+  const counters = new Map<string, number[]>();
+  const startedNums = new Set<string>();
+  const starts = new Map<string, Map<number, number>>();
+
+  const paragraphs = Array.from(documentXml.matchAll(/<w:p(?=[\s>/])[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g));
+  return paragraphs.map(([, body = ""]) => {
+    const properties = body.match(/^\s*<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] ?? "";
+    const numId = xmlAttribute(properties, "w:numId");
+    const ilvl = xmlAttribute(properties, "w:ilvl");
+    const style = xmlAttribute(properties, "w:pStyle");
+
+    // The same precedence mammoth uses to decide whether the paragraph is a list item
+    let reference: { abstractNumId: string; level: number; numId?: string } | undefined;
+    const styleLevel = style !== undefined ? numbering.styleLevels.get(style) : undefined;
+    if (numId !== undefined && ilvl !== undefined) {
+      const num = numbering.nums.get(numId);
+      reference = num && { abstractNumId: num.abstractNumId, level: Number(ilvl), numId };
+    } else if (styleLevel) {
+      reference = styleLevel;
+    } else if (numId !== undefined) {
+      const num = numbering.nums.get(numId);
+      reference = num && { abstractNumId: num.abstractNumId, level: 0, numId };
+    }
+
+    const levels = reference && numbering.abstractNums.get(reference.abstractNumId);
+    const level = reference && levels?.get(reference.level);
+    if (!reference || !levels || !level || level.format === "bullet") {
+      return null;
+    }
+
+    const { abstractNumId } = reference;
+    const levelStarts = starts.get(abstractNumId) ?? new Map<number, number>();
+    starts.set(abstractNumId, levelStarts);
+    const values = counters.get(abstractNumId) ?? [];
+    counters.set(abstractNumId, values);
+
+    if (reference.numId !== undefined && !startedNums.has(reference.numId)) {
+      startedNums.add(reference.numId);
+      numbering.nums.get(reference.numId)?.startOverrides.forEach((start, overridden) => {
+        levelStarts.set(overridden, start);
+        values.length = Math.min(values.length, overridden);
+      });
+    }
+
+    const startOf = (index: number) => levelStarts.get(index) ?? levels.get(index)?.start ?? 1;
+    values[reference.level] =
+      values[reference.level] === undefined ? startOf(reference.level) : values[reference.level] + 1;
+    // A number at one level restarts every level below it
+    values.length = reference.level + 1;
+
+    return level.text.replace(/%([1-9])/g, (_, digit: string) => {
+      const index = Number(digit) - 1;
+      const format = level.legal ? "decimal" : levels.get(index)?.format ?? "decimal";
+      return formatListNumber(values[index] ?? startOf(index), format);
+    });
+  });
+}
+
+interface DocxBlock {
+  text: string;
+  headingLevel?: number;
+  // Follows the previous block on the next line rather than after a blank line
+  tight?: boolean;
+  tableIndex?: number;
+}
+
+interface DocxRenderState {
+  blocks: DocxBlock[];
+  footnotes: Map<string, string>; // note id -> text
+  pending: Array<{ label: string; id: string }>; // referenced but not yet placed
+  tableDepth: number;
+  tables: TableData[];
+}
+
+const NOTE_ID_PATTERN = /^(?:footnote|endnote)-[\w-]+$/;
+
+function isElement(node: Node): node is HTMLElement {
+  return node instanceof HTMLElement;
+}
+
+function tagOf(node: HTMLElement): string {
+  return node.rawTagName?.toLowerCase() ?? "";
+}
+
+/**
+ * Render inline content, replacing note references with their [n] markers
+ */
+function renderDocxInline(node: Node, state: DocxRenderState): string {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text.replace(/\s+/g, " ");
+  }
+  if (!isElement(node)) {
+    return "";
+  }
+
+  const tag = tagOf(node);
+  if (tag === "br") {
+    return "\n";
+  }
+
+  const href = tag === "a" ? node.getAttribute("href") : undefined;
+  const noteId = href?.startsWith("#") ? href.slice(1) : undefined;
+  if (noteId && state.footnotes.has(noteId)) {
+    const label = node.text.replace(/[[\]\s]/g, "");
+    state.pending.push({ label, id: noteId });
+    return `[${label}]`;
+  }
+
+  // Paragraphs inside table cells and notes run together on one line
+  return node.childNodes
+    .map((child) => {
+      const text = renderDocxInline(child, state);
+      return isElement(child) && tagOf(child) === "p" ? ` ${text} ` : text;
+    })
+    .join("");
+}
+
+/**
+ * Place the text of notes referenced so far directly after the referencing block
+ */
+function flushDocxNotes(state: DocxRenderState) {
+  if (state.tableDepth > 0) {
+    return;
+  }
+  for (const { label, id } of state.pending) {
+    state.blocks.push({ text: `[${label}] ${state.footnotes.get(id)}`, tight: true });
+  }
+  state.pending = [];
+}
+
+function pushDocxBlock(state: DocxRenderState, block: DocxBlock) {
+  const text = block.text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+  if (text) {
+    state.blocks.push({ ...block, text });
+  }
+}
+
+/**
+ * Render a table one row per line. Rows under a header row read as
+ * "Header: value | Header: value" so each line stands on its own in a chunk.
+ */
+function renderDocxTable(table: HTMLElement, state: DocxRenderState) {
+  state.tableDepth++;
+
+  const rows = table
+    .querySelectorAll("tr")
+    .filter((row) => row.closest("table") === table)
+    .map((row) => {
+      const cells = row.childNodes.filter(isElement).filter((cell) => ["td", "th"].includes(tagOf(cell)));
+      return {
+        isHeader: cells.length > 0 && cells.every((cell) => tagOf(cell) === "th"),
+        cells: cells.map((cell) => renderDocxInline(cell, state).replace(/\s+/g, " ").trim()),
+      };
+    });
+
+  const header = rows[0]?.isHeader ? rows[0].cells : null;
+  const body = header && rows.length > 1 ? rows.slice(1) : rows;
+
+  // Nested tables are rendered inline in their cell, so only top-level tables are recorded
+  const tableIndex = state.tableDepth === 1 && rows.length > 1 ? state.tables.length : undefined;
+  if (tableIndex !== undefined) {
+    // Word rarely marks header rows, so take the first row when none is marked
+    state.tables.push({
+      headers: rows[0].cells,
+      rows: rows.slice(1).map((row) => row.cells),
+    });
+  }
+
+  body.forEach((row, index) => {
+    const cells = header
+      ? row.cells.map((cell, column) => (header[column] ? `${header[column]}: ${cell}` : cell))
+      : row.cells;
+    pushDocxBlock(state, {
+      text: cells.filter((cell) => cell && !cell.endsWith(": ")).join(" | "),
+      tight: index > 0,
+      tableIndex,
+    });
+  });
+
+  state.tableDepth--;
+  flushDocxNotes(state);
+}
+
+/**
+ * Render a list. Numbered items already start with the number Word shows
+ * (see resolveDocxListLabels); bulleted items are marked with "-".
+ */
+function renderDocxList(list: HTMLElement, state: DocxRenderState) {
+  const marker = tagOf(list) === "ul" ? "- " : "";
+
+  for (const item of list.childNodes.filter(isElement)) {
+    if (tagOf(item) !== "li") {
+      renderDocxBlock(item, state);
+      continue;
+    }
+
+    const nested = item.childNodes.filter(
+      (child): child is HTMLElement => isElement(child) && ["ol", "ul", "table"].includes(tagOf(child))
+    );
+    const content = item.childNodes
+      .filter((child) => !nested.includes(child as HTMLElement))
+      .map((child) => renderDocxInline(child, state))
+      .join("");
+
+    pushDocxBlock(state, { text: `${marker}${content.trim()}` });
+    flushDocxNotes(state);
+
+    for (const child of nested) {
+      renderDocxBlock(child, state);
+    }
+  }
+}
+
+function renderDocxBlock(node: Node, state: DocxRenderState) {
+  if (!isElement(node)) {
+    pushDocxBlock(state, { text: renderDocxInline(node, state) });
+    return;
+  }
+
+  const tag = tagOf(node);
+  const heading = tag.match(/^h([1-6])$/);
+
+  if (tag === "p" || heading) {
+    pushDocxBlock(state, {
+      text: renderDocxInline(node, state),
+      ...(heading && { headingLevel: Number(heading[1]) }),
+    });
+    flushDocxNotes(state);
+  } else if (tag === "ol" || tag === "ul") {
+    renderDocxList(node, state);
+  } else if (tag === "table") {
+    renderDocxTable(node, state);
+  } else if (HTML_BLOCK_TAGS.has(tag) || tag === "" || tag === "body") {
+    node.childNodes.forEach((child) => renderDocxBlock(child, state));
+  } else {
+    pushDocxBlock(state, { text: renderDocxInline(node, state) });
+    flushDocxNotes(state);
+  }
+}
+
+/**
+ * Convert mammoth's HTML for a DOCX file to text that keeps its structure:
+ * headings on their own lines (returned with their positions), list items
+ * with Word's numbers, tables as one line per row (returned with their cells and
+ * positions), and each footnote or endnote placed directly after the
+ * paragraph that references it
+ */
+export function docxHtmlToText(html: string): {
+  text: string;
+  headings: DocumentHeading[];
+  tables: DocumentTable[];
+} {
+  const root = parse(html, { comment: false });
+
+  // mammoth appends all notes as list items at the end; take them out of the flow
+  const footnotes = new Map<string, string>();
+  for (const item of root.querySelectorAll("li")) {
+    const id = item.getAttribute("id");
+    if (!id || !NOTE_ID_PATTERN.test(id)) {
+      continue;
+    }
+    item.querySelectorAll("a").forEach((link) => {
+      if (link.getAttribute("href")?.startsWith("#")) link.remove();
+    });
+    const list = item.parentNode;
+    item.remove();
+    if (list && list.childNodes.filter(isElement).length === 0) {
+      list.remove();
+    }
+    footnotes.set(id, item.text.replace(/\s+/g, " ").trim());
+  }
+
+  const state: DocxRenderState = {
+    blocks: [],
+    footnotes,
+    pending: [],
+    tableDepth: 0,
+    tables: [],
+  };
+  root.childNodes.forEach((child) => renderDocxBlock(child, state));
+  flushDocxNotes(state);
+
+  let text = "";
+  const headings: DocumentHeading[] = [];
+  const tables = new Map<number, DocumentTable>();
+  for (const block of state.blocks) {
+    if (text) {
+      text += block.tight ? "\n" : "\n\n";
+    }
+    if (block.tableIndex !== undefined) {
+      const table = tables.get(block.tableIndex);
+      if (table) {
+        table.endChar = text.length + block.text.length;
+      } else {
+        tables.set(block.tableIndex, {
+          ...state.tables[block.tableIndex],
+          startChar: text.length,
+          endChar: text.length + block.text.length,
+        });
+      }
+    }
+    if (block.headingLevel) {
+      headings.push({
+        level: block.headingLevel,
+        text: block.text.replace(/\n/g, " "),
+        startChar: text.length,
+        endChar: text.length + block.text.length,
+      });
+    }
+    text += block.text;
+  }
+
+  return { text, headings, tables: Array.from(tables.values()) };
+}
@@ -1,5 +1,14 @@
 import { Pinecone } from "@pinecone-database/pinecone";
 import { v4 as uuidv4 } from "uuid";
+import {
+  contractVectorFilter,
+  contractVectorMetadata,
+  type ContractFilter,
+  type ContractMetadata,
+} from "@/lib/contract-metadata";
+import type { ChunkReference } from "@/lib/cross-references";
+import { getEmbeddingProvider, getEmbeddingProviders, LEGACY_EMBEDDING_MODEL } from "@/lib/embeddings";
+import type { TableData } from "@/lib/tables";
 
 // Initialize Pinecone client
 const pinecone = new Pinecone({
@@ -16,6 +25,20 @@ export interface VectorMetadata {
   filename: string;
   fileType: string;
   timestamp: string;
+  startChar?: number;
+  endChar?: number;
+  pageStart?: number;
+  pageEnd?: number;
+  sectionPath?: string;
+  heading?: string;
+  table?: TableData;
+  clauseTypes?: string[];
+  references?: ChunkReference[];
+  language?: string;
+  // Model the vector was embedded with; vectors without it used LEGACY_EMBEDDING_MODEL
+  embeddingModel?: string;
+  // Where the document came from, e.g. "Email from Jane Doe on 2024-03-01 (Lease)"
+  origin?: string;
 }
 
 export interface ScoredVector {
@@ -25,17 +48,28 @@ export interface ScoredVector {
 }
 
 /**
- * Get or create Pinecone index
+ * Get or create Pinecone index. Vectors from every configured embedding model
+ * share the index, so the model's dimension must match the index's. Defaults
+ * to the default provider's model.
  */
-export async function getOrCreateIndex() {
+export async function getOrCreateIndex(model?: string) {
+  const { modelId, dimension } = getEmbeddingProvider(model);
+
   try {
     const indexes = await pinecone.listIndexes();
-    const indexExists = indexes.indexes?.some((idx) => idx.name === indexName);
+    const existing = indexes.indexes?.find((idx) => idx.name === indexName);
+
+    if (existing && existing.dimension !== dimension) {
+      throw new Error(
+        `Pinecone index ${indexName} has dimension ${existing.dimension}, but ${modelId} produces ${dimension}. ` +
+          "Use a separate PINECONE_INDEX_NAME for this embedding provider."
+      );
+    }
 
-    if (!indexExists) {
+    if (!existing) {
       await pinecone.createIndex({
         name: indexName,
-        dimension: 1024, // Cohere embed-english-v3.0 dimension
+        dimension,
         metric: "cosine",
         spec: {
           serverless: {
@@ -66,20 +100,35 @@ export async function upsertVectors(
     metadata: {
       chunkIndex: number;
       filename: string;
+      startChar: number;
+      endChar: number;
+      pageStart?: number;
+      pageEnd?: number;
+      sectionPath?: string;
+      heading?: string;
+      table?: TableData;
+      clauseTypes?: string[];
+      references?: ChunkReference[];
+      language?: string;
     };
   }>,
   documentId: string,
   userId: string,
-  fileType: string
+  fileType: string,
+  origin?: string,
+  contract?: ContractMetadata,
+  embeddingModel: string = getEmbeddingProvider().modelId
 ): Promise<string[]> {
   try {
-    const index = await getOrCreateIndex();
+    const index = await getOrCreateIndex(embeddingModel);
     const vectorIds: string[] = [];
 
     // Prepare vectors for upsert
     const vectors = embeddings.map((embedding, i) => {
       const vectorId = uuidv4();
       vectorIds.push(vectorId);
+      const { pageStart, pageEnd, sectionPath, heading, table, clauseTypes, references, language } =
+        chunks[i].metadata;
 
       return {
         id: vectorId,
@@ -89,9 +138,28 @@ export async function upsertVectors(
           userId,
           chunkIndex: chunks[i].metadata.chunkIndex,
           content: chunks[i].content,
+          startChar: chunks[i].metadata.startChar,
+          endChar: chunks[i].metadata.endChar,
           filename: chunks[i].metadata.filename,
           fileType,
           timestamp: new Date().toISOString(),
+          // Pinecone rejects null metadata values, so only set pages when known
+          ...(pageStart !== undefined && { pageStart }),
+          ...(pageEnd !== undefined && { pageEnd }),
+          ...(sectionPath !== undefined && { sectionPath }),
+          ...(heading !== undefined && { heading }),
+          // Metadata values must be flat, so table rows are stored as JSON
+          ...(table !== undefined && {
+            table: JSON.stringify({ headers: table.headers, rows: table.rows }),
+          }),
+          ...(clauseTypes !== undefined && { clauseTypes }),
+          ...(references !== undefined && { references: JSON.stringify(references) }),
+          ...(language !== undefined && { language }),
+          // Queries must be embedded with the same model to match this vector
+          embeddingModel,
+          ...(origin !== undefined && { origin }),
+          // Contract terms let retrieval be filtered like the documents list
+          ...(contract && contractVectorMetadata(contract)),
         },
       };
     });
@@ -134,6 +202,50 @@ export async function upsertVectors(
   }
 }
 
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function isTableData(value: unknown): value is TableData {
+  const table = value as TableData | null;
+  return (
+    typeof table === "object" &&
+    table !== null &&
+    isStringArray(table.headers) &&
+    Array.isArray(table.rows) &&
+    table.rows.every(isStringArray)
+  );
+}
+
+function isChunkReferences(value: unknown): value is ChunkReference[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (reference: ChunkReference | null) =>
+        typeof reference === "object" &&
+        reference !== null &&
+        typeof reference.label === "string" &&
+        Array.isArray(reference.chunkIndexes) &&
+        reference.chunkIndexes.every((index) => typeof index === "number")
+    )
+  );
+}
+
+/**
+ * Parse a metadata field stored as JSON, dropping it when it is malformed
+ * (e.g. truncated or written by an older version) rather than failing the query
+ */
+function parseJsonMetadata<T>(value: unknown, isValid: (parsed: unknown) => parsed is T): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(String(value));
+    return isValid(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Query vectors from Pinecone
  */
@@ -144,17 +256,46 @@ export async function queryVectors(
     topK?: number;
     minScore?: number;
     documentIds?: string[];
+    excludeDocumentIds?: string[];
+    contractFilter?: ContractFilter;
+    clauseTypes?: string[]; // Only chunks labelled with any of these clause types
+    embeddingModel?: string; // Model the query was embedded with
   } = {}
 ): Promise<ScoredVector[]> {
   try {
-    const { topK = 5, minScore = 0.7, documentIds } = options;
-    const index = await getOrCreateIndex();
+    const {
+      topK = 5,
+      minScore = 0.7,
+      documentIds,
+      excludeDocumentIds,
+      contractFilter,
+      clauseTypes,
+      embeddingModel = getEmbeddingProvider().modelId,
+    } = options;
+    const index = await getOrCreateIndex(embeddingModel);
 
     // Build filter
     const filter: any = { userId: { $eq: userId } };
     if (documentIds && documentIds.length > 0) {
       filter.documentId = { $in: documentIds };
+    } else if (excludeDocumentIds && excludeDocumentIds.length > 0) {
+      filter.documentId = { $nin: excludeDocumentIds };
+    }
+    if (contractFilter) {
+      Object.assign(filter, contractVectorFilter(contractFilter));
+    }
+    if (clauseTypes && clauseTypes.length > 0) {
+      filter.clauseTypes = { $in: clauseTypes };
     }
+    // Vectors indexed before embeddingModel was recorded used LEGACY_EMBEDDING_MODEL
+    filter.embeddingModel =
+      embeddingModel === LEGACY_EMBEDDING_MODEL
+        ? {
+            $nin: getEmbeddingProviders()
+              .map((provider) => provider.modelId)
+              .filter((model) => model !== LEGACY_EMBEDDING_MODEL),
+          }
+        : { $eq: embeddingModel };
 
     // Query vectors
     const queryResponse = await index.query({
@@ -181,6 +322,18 @@ export async function queryVectors(
     filename: String(md.filename || ''),
     fileType: String(md.fileType || ''),
     timestamp: String(md.timestamp || new Date().toISOString()),
+    startChar: md.startChar !== undefined ? Number(md.startChar) : undefined,
+    endChar: md.endChar !== undefined ? Number(md.endChar) : undefined,
+    pageStart: md.pageStart !== undefined ? Number(md.pageStart) : undefined,
+    pageEnd: md.pageEnd !== undefined ? Number(md.pageEnd) : undefined,
+    sectionPath: md.sectionPath !== undefined ? String(md.sectionPath) : undefined,
+    heading: md.heading !== undefined ? String(md.heading) : undefined,
+    table: parseJsonMetadata(md.table, isTableData),
+    clauseTypes: Array.isArray(md.clauseTypes) ? md.clauseTypes.map(String) : undefined,
+    references: parseJsonMetadata(md.references, isChunkReferences),
+    language: md.language !== undefined ? String(md.language) : undefined,
+    embeddingModel: md.embeddingModel !== undefined ? String(md.embeddingModel) : undefined,
+    origin: md.origin !== undefined ? String(md.origin) : undefined,
   };
 })(),
 
@@ -193,6 +346,33 @@ export async function queryVectors(
   }
 }
 
+/**
+ * Query with a query embedded by each model (see generateQueryEmbeddings),
+ * so documents indexed with any of them are searched. Scores from different
+ * models are not comparable, so minScore applies per model and results are
+ * interleaved by their rank within each model.
+ */
+export async function queryVectorsAcrossModels(
+  queryEmbeddings: Record<string, number[]>,
+  userId: string,
+  options: Omit<NonNullable<Parameters<typeof queryVectors>[2]>, "embeddingModel"> = {}
+): Promise<ScoredVector[]> {
+  const results = await Promise.all(
+    Object.entries(queryEmbeddings).map(([embeddingModel, embedding]) =>
+      queryVectors(embedding, userId, { ...options, embeddingModel })
+    )
+  );
+  const interleaved: ScoredVector[] = [];
+  for (let rank = 0; rank < Math.max(0, ...results.map((matches) => matches.length)); rank++) {
+    for (const matches of results) {
+      if (rank < matches.length) {
+        interleaved.push(matches[rank]);
+      }
+    }
+  }
+  return interleaved.slice(0, options.topK ?? 5);
+}
+
 /**
  * Delete vectors for a document
  */
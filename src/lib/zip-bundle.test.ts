@@ -0,0 +1,86 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { extractZipBundle, isZipBundle } from "@/lib/zip-bundle";
+
+const MB = 1024 * 1024;
+
+async function zipOf(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("isZipBundle", () => {
+  it("recognises archives by MIME type or extension", () => {
+    expect(isZipBundle("application/zip", "bundle")).toBe(true);
+    expect(isZipBundle("application/octet-stream", "Case Bundle.ZIP")).toBe(true);
+    expect(isZipBundle("application/pdf", "lease.pdf")).toBe(false);
+  });
+});
+
+describe("extractZipBundle", () => {
+  it("extracts files with their folder paths and skips system files", async () => {
+    const buffer = await zipOf({
+      "Leases/2023/Lease A.txt": "Lease A",
+      "notes.txt": "Notes",
+      "__MACOSX/Leases/._Lease A.txt": "resource fork",
+      ".DS_Store": "finder",
+      "Leases/Thumbs.db": "thumbnails",
+    });
+
+    const { entries, rejected } = await extractZipBundle(buffer, 10 * MB);
+
+    expect(rejected).toEqual([]);
+    expect(entries.map(({ path, filename }) => ({ path, filename }))).toEqual([
+      { path: "Leases/2023/Lease A.txt", filename: "Lease A.txt" },
+      { path: "notes.txt", filename: "notes.txt" },
+    ]);
+    expect(entries[0].content.toString()).toBe("Lease A");
+  });
+
+  it("rejects entries that escape the archive", async () => {
+    const buffer = await zipOf({
+      "../outside.txt": "escape",
+      "/etc/passwd": "absolute",
+      "C:/Windows/win.ini": "drive",
+      "safe.txt": "safe",
+    });
+
+    const { entries, rejected } = await extractZipBundle(buffer, 10 * MB);
+
+    expect(entries.map((entry) => entry.path)).toEqual(["safe.txt"]);
+    expect(rejected).toHaveLength(3);
+    for (const entry of rejected) {
+      expect(entry.reason).toBe("Unsafe path outside the archive");
+    }
+  });
+
+  it("rejects nested archives", async () => {
+    const inner = await zipOf({ "inner.txt": "inner" });
+    const { entries, rejected } = await extractZipBundle(await zipOf({ "inner.zip": inner }), 10 * MB);
+
+    expect(entries).toEqual([]);
+    expect(rejected).toEqual([{ path: "inner.zip", reason: "Nested archives are not supported" }]);
+  });
+
+  it("stops inflating an entry at the per-file size limit", async () => {
+    const buffer = await zipOf({ "large.txt": Buffer.from("x".repeat(2 * MB)) });
+
+    const { entries, rejected } = await extractZipBundle(buffer, MB);
+
+    expect(entries).toEqual([]);
+    expect(rejected).toEqual([{ path: "large.txt", reason: "Entry exceeds the size limit" }]);
+  });
+
+  it("rejects entries that inflate far beyond their compressed size", async () => {
+    // Zeros compress about a thousandfold, well past the allowed ratio
+    const buffer = await zipOf({ "bomb.txt": Buffer.alloc(5 * MB), "ok.txt": "fine" });
+
+    const { entries, rejected } = await extractZipBundle(buffer, 10 * MB);
+
+    expect(entries.map((entry) => entry.path)).toEqual(["ok.txt"]);
+    expect(rejected).toEqual([{ path: "bomb.txt", reason: "Entry exceeds the size limit" }]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * ZIP case bundle extraction
+ * Unpacks data-room archives into individual files with safeguards against
+ * zip bombs (entry count, size and compression-ratio limits enforced while
+ * inflating) and path traversal (absolute or "..") entry names
+ */
+
+import JSZip from "jszip";
+import { readZipDirectory } from "@/lib/file-sniffing";
+
+export const MAX_BUNDLE_SIZE = 50 * 1024 * 1024; // 50MB compressed
+const MAX_BUNDLE_ENTRIES = 1000;
+const MAX_BUNDLE_UNCOMPRESSED_SIZE = 200 * 1024 * 1024; // 200MB in total
+const MAX_COMPRESSION_RATIO = 100;
+
+export interface BundleEntry {
+  path: string; // Folder path within the archive, e.g. "Leases/2023/Lease A.pdf"
+  filename: string;
+  content: Buffer;
+}
+
+export interface RejectedBundleEntry {
+  path: string;
+  reason: string;
+}
+
+const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+/**
+ * Check whether an upload is a ZIP bundle rather than a single document
+ */
+export function isZipBundle(fileType: string, filename: string): boolean {
+  return ZIP_MIME_TYPES.includes(fileType) || filename.toLowerCase().endsWith(".zip");
+}
+
+/**
+ * Normalise an entry name to a relative path, or null if it escapes the archive
+ */
+function sanitizeEntryPath(name: string): string | null {
+  const normalized = name.replace(/\\/g, "/");
+  if (normalized.startsWith("/") || /^[a-z]:/i.test(normalized)) {
+    return null;
+  }
+
+  const parts = normalized.split("/").filter((part) => part && part !== ".");
+  if (parts.includes("..")) {
+    return null;
+  }
+
+  return parts.join("/");
+}
+
+/**
+ * Operating-system clutter that should be ignored rather than reported
+ */
+function isSystemFile(path: string): boolean {
+  const filename = path.split("/").pop() ?? "";
+  return (
+    path.startsWith("__MACOSX/") ||
+    filename.startsWith(".") ||
+    filename.toLowerCase() === "thumbs.db"
+  );
+}
+
+/**
+ * Inflate an entry, aborting as soon as it exceeds its size budget instead of
+ * trusting the sizes declared in the archive
+ */
+function inflateEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let total = 0;
+
+    const stream = entry.nodeStream("nodebuffer");
+    stream
+      .on("data", (data: Buffer) => {
+        total += data.length;
+        if (total > maxBytes) {
+          // Without a consumer the stream applies backpressure and inflation stops
+          stream.pause();
+          stream.removeAllListeners();
+          reject(new Error("Entry exceeds the size limit"));
+          return;
+        }
+        chunks.push(data);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Extract the files in a ZIP bundle, reporting entries that were rejected
+ */
+export async function extractZipBundle(
+  buffer: Buffer,
+  maxEntrySize: number
+): Promise<{ entries: BundleEntry[]; rejected: RejectedBundleEntry[] }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const files = Object.values(zip.files).filter((entry) => !entry.dir);
+  // Compressed sizes bound each entry's ratio check; JSZip does not expose them
+  const compressedSizes = new Map(
+    (readZipDirectory(buffer) || []).map((entry) => [entry.name, entry.compressedSize])
+  );
+
+  const entries: BundleEntry[] = [];
+  const rejected: RejectedBundleEntry[] = [];
+  let totalSize = 0;
+
+  for (const entry of files) {
+    const originalName = entry.unsafeOriginalName ?? entry.name;
+    const path = sanitizeEntryPath(originalName);
+
+    if (path === null) {
+      rejected.push({ path: originalName, reason: "Unsafe path outside the archive" });
+      continue;
+    }
+    if (isSystemFile(path)) {
+      continue;
+    }
+    if (entries.length >= MAX_BUNDLE_ENTRIES) {
+      rejected.push({ path, reason: `Archive has more than ${MAX_BUNDLE_ENTRIES} files` });
+      continue;
+    }
+    if (path.toLowerCase().endsWith(".zip")) {
+      rejected.push({ path, reason: "Nested archives are not supported" });
+      continue;
+    }
+
+    const compressedSize = compressedSizes.get(originalName);
+    const remainingBytes = MAX_BUNDLE_UNCOMPRESSED_SIZE - totalSize;
+    const maxBytes = Math.min(
+      maxEntrySize,
+      remainingBytes,
+      compressedSize ? Math.max(compressedSize * MAX_COMPRESSION_RATIO, 1024 * 1024) : Infinity
+    );
+
+    try {
+      const content = await inflateEntry(entry, maxBytes);
+      totalSize += content.length;
+      entries.push({
+        path,
+        filename: path.split("/").pop() ?? path,
+        content,
+      });
+    } catch (error) {
+      rejected.push({
+        path,
+        reason: maxBytes === remainingBytes
+          ? "Archive exceeds the total uncompressed size limit"
+          : error instanceof Error ? error.message : "Failed to extract file",
+      });
+    }
+  }
+
+  return { entries, rejected };
+}
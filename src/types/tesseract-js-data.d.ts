@@ -0,0 +1,5 @@
+// Language data packages for tesseract.js, which ship without types
+declare module "@tesseract.js-data/eng" {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}
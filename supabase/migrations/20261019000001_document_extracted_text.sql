@@ -0,0 +1,2 @@
+-- Extracted text of each document; document_chunks.metadata startChar/endChar index into it
+alter table documents add column if not exists extracted_text text;
@@ -0,0 +1,5 @@
+-- Email attachments and mailbox messages are stored as child documents of the email/mailbox
+alter table documents
+  add column if not exists parent_document_id uuid references documents(id) on delete cascade;
+
+create index if not exists documents_parent_document_id_idx on documents(parent_document_id);
@@ -0,0 +1,47 @@
+-- Durable ingestion queue: one job per document, checkpointed after each pipeline step
+create table if not exists ingestion_jobs (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references documents(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  status text not null default 'queued', -- queued | running | completed | failed
+  step text, -- last completed step: extracted | analyzed | chunked | classified | embedded | upserted | saved
+  payload jsonb not null default '{}'::jsonb,
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_at timestamptz not null default now(),
+  locked_by text,
+  locked_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists ingestion_jobs_claim_idx on ingestion_jobs(status, run_at);
+create index if not exists ingestion_jobs_document_id_idx on ingestion_jobs(document_id);
+
+-- Claim the next due job, or a running job whose worker stopped sending heartbeats
+create or replace function claim_ingestion_job(worker_id text, lock_timeout_seconds integer default 900)
+returns setof ingestion_jobs
+language sql
+as $$
+  update ingestion_jobs
+  set status = 'running',
+      locked_by = worker_id,
+      locked_at = now(),
+      attempts = attempts + 1,
+      updated_at = now()
+  where id = (
+    select id from ingestion_jobs
+    where (status = 'queued' and run_at <= now())
+       or (status = 'running' and locked_at < now() - make_interval(secs => lock_timeout_seconds))
+    order by run_at
+    limit 1
+    for update skip locked
+  )
+  returning *;
+$$;
+
+-- Private bucket for job inputs and step checkpoints
+insert into storage.buckets (id, name, public)
+values ('ingestion', 'ingestion', false)
+on conflict (id) do nothing;
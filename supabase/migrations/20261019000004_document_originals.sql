@@ -0,0 +1,9 @@
+-- Original uploads are kept so documents can be reprocessed with newer pipeline settings
+insert into storage.buckets (id, name, public)
+values ('documents', 'documents', false)
+on conflict (id) do nothing;
+
+-- Version of the ingestion pipeline (extraction, chunking, embedding) that produced each document
+alter table documents add column if not exists pipeline_version text;
+
+create index if not exists documents_pipeline_version_idx on documents(pipeline_version);
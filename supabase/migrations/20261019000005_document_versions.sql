@@ -0,0 +1,12 @@
+-- SHA-256 of the uploaded bytes, used to detect duplicate uploads
+alter table documents add column if not exists content_hash text;
+
+-- Version chain: every version shares the id of the first version as version_group_id
+alter table documents
+  add column if not exists version_group_id uuid,
+  add column if not exists version_number integer not null default 1,
+  add column if not exists previous_version_id uuid references documents(id) on delete set null,
+  add column if not exists is_latest boolean not null default true;
+
+create index if not exists documents_user_content_hash_idx on documents(user_id, content_hash);
+create index if not exists documents_version_group_id_idx on documents(version_group_id);
@@ -0,0 +1,16 @@
+-- Key contract terms extracted after ingestion, as filterable columns
+alter table documents
+  add column if not exists parties text[] not null default '{}',
+  add column if not exists effective_date date,
+  add column if not exists term_description text,
+  add column if not exists term_months integer,
+  add column if not exists governing_law text,
+  add column if not exists jurisdiction text,
+  add column if not exists renewal_terms text,
+  add column if not exists auto_renews boolean,
+  add column if not exists contract_value numeric,
+  add column if not exists contract_currency text;
+
+create index if not exists documents_parties_idx on documents using gin(parties);
+create index if not exists documents_user_governing_law_idx on documents(user_id, governing_law);
+create index if not exists documents_user_effective_date_idx on documents(user_id, effective_date);
@@ -0,0 +1,13 @@
+-- Per-document glossary of defined terms ("Confidential Information" means ...), extracted at ingestion
+create table if not exists document_definitions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references documents(id) on delete cascade,
+  term text not null,
+  definition text not null,
+  start_char integer not null, -- range of the definition in documents.extracted_text
+  end_char integer not null,
+  page_start integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists document_definitions_document_id_idx on document_definitions(document_id, start_char);
@@ -0,0 +1,18 @@
+-- Case-law, statute, regulation and treaty citations found in each chunk, normalised for search
+create table if not exists citations (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references documents(id) on delete cascade,
+  chunk_id uuid not null references document_chunks(id) on delete cascade,
+  user_id uuid not null references users(id) on delete cascade,
+  kind text not null, -- case | statute | regulation | treaty
+  citation text not null, -- normalised, e.g. '123 F.3d 456' or '42 U.S.C. § 1983'
+  raw_text text not null,
+  case_name text,
+  court text,
+  year integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists citations_user_citation_idx on citations(user_id, citation);
+create index if not exists citations_document_id_idx on citations(document_id);
+create index if not exists citations_chunk_id_idx on citations(chunk_id);
@@ -0,0 +1,22 @@
+-- Plan of each user, which sets the largest file they can upload
+alter table users add column if not exists plan text not null default 'free';
+
+-- Resumable multi-part uploads; parts are kept in storage until the upload is completed
+create table if not exists upload_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  filename text not null,
+  file_type text not null,
+  file_size bigint not null,
+  part_size integer not null,
+  total_parts integer not null,
+  duplicate_action text not null default 'skip', -- skip | replace | version
+  status text not null default 'uploading', -- uploading | completing | completed | aborted
+  document_id uuid references documents(id) on delete set null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists upload_sessions_user_id_idx on upload_sessions(user_id);
+create index if not exists upload_sessions_expires_at_idx on upload_sessions(status, expires_at);
@@ -0,0 +1,10 @@
+-- Embedding model each document's vectors were produced with. Vectors from
+-- different models cannot be compared, so documents embedded with a model
+-- that is no longer configured are selected for re-indexing.
+alter table documents add column if not exists embedding_model text;
+
+update documents
+set embedding_model = metadata->'pipeline'->>'embeddingModel'
+where embedding_model is null and metadata->'pipeline'->>'embeddingModel' is not null;
+
+create index if not exists documents_embedding_model_idx on documents(embedding_model);
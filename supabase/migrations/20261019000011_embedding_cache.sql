@@ -0,0 +1,73 @@
+-- Embeddings keyed by model, input type and a hash of the normalised (masked)
+-- text, so identical text is only sent to the embedding provider once. Only
+-- the hash is stored, never the text.
+create table if not exists embedding_cache (
+  model text not null,
+  input_type text not null, -- search_document | search_query
+  text_hash text not null, -- sha256 of the normalised text
+  embedding real[] not null,
+  hit_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  primary key (model, input_type, text_hash)
+);
+
+create index if not exists embedding_cache_last_used_at_idx on embedding_cache(last_used_at);
+
+-- Daily hit and miss counts per model, for the cache's hit rate
+create table if not exists embedding_cache_stats (
+  day date not null default current_date,
+  model text not null,
+  input_type text not null,
+  hits bigint not null default 0,
+  misses bigint not null default 0,
+  primary key (day, model, input_type)
+);
+
+-- Mark entries as used, so eviction keeps them
+create or replace function touch_embedding_cache(p_model text, p_input_type text, p_text_hashes text[])
+returns void
+language sql
+as $$
+  update embedding_cache
+  set hit_count = hit_count + 1,
+      last_used_at = now()
+  where model = p_model and input_type = p_input_type and text_hash = any(p_text_hashes);
+$$;
+
+create or replace function record_embedding_cache_stats(p_model text, p_input_type text, p_hits integer, p_misses integer)
+returns void
+language sql
+as $$
+  insert into embedding_cache_stats (model, input_type, hits, misses)
+  values (p_model, p_input_type, p_hits, p_misses)
+  on conflict (day, model, input_type) do update
+  set hits = embedding_cache_stats.hits + excluded.hits,
+      misses = embedding_cache_stats.misses + excluded.misses;
+$$;
+
+-- Evict entries unused for max_age_days, then the least recently used beyond
+-- max_entries. Returns the number of entries removed.
+create or replace function evict_embedding_cache(max_entries integer, max_age_days integer)
+returns integer
+language plpgsql
+as $$
+declare
+  expired integer;
+  excess integer;
+begin
+  delete from embedding_cache
+  where last_used_at < now() - make_interval(days => max_age_days);
+  get diagnostics expired = row_count;
+
+  delete from embedding_cache
+  where (model, input_type, text_hash) in (
+    select model, input_type, text_hash from embedding_cache
+    order by last_used_at desc
+    offset max_entries
+  );
+  get diagnostics excess = row_count;
+
+  return expired + excess;
+end;
+$$;
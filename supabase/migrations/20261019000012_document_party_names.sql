@@ -0,0 +1,32 @@
+-- Normalised party names (see normalizePartyName), so a party filter matches
+-- however the name was written, e.g. "ACME Corp." and "Acme Corporation"
+alter table documents
+  add column if not exists party_names text[] not null default '{}';
+
+update documents
+set party_names = array(
+  select distinct name
+  from (
+    select btrim(regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(lower(replace(party, '&', ' and ')), '[.''’]', '', 'g'),
+          '[^[:alnum:][:space:]]',
+          ' ',
+          'g'
+        ),
+        '\m(the|inc|incorporated|corp|corporation|co|company|llc|llp|lp|ltd|limited|plc|gmbh|ag|sa|bv|nv|pty)\M',
+        ' ',
+        'g'
+      ),
+      '\s+',
+      ' ',
+      'g'
+    )) as name
+    from unnest(parties) as party
+  ) as normalized
+  where name <> ''
+)
+where cardinality(parties) > 0;
+
+create index if not exists documents_party_names_idx on documents using gin(party_names);
@@ -0,0 +1,25 @@
+-- Every authority a user's documents cite, with the number of documents citing it
+create or replace function list_cited_authorities(p_user_id uuid, p_kind text default null)
+returns table (
+  kind text,
+  citation text,
+  case_name text,
+  court text,
+  year integer,
+  document_count integer
+)
+language sql
+stable
+as $$
+  select
+    min(c.kind),
+    c.citation,
+    min(c.case_name),
+    min(c.court),
+    min(c.year),
+    count(distinct c.document_id)::integer
+  from citations c
+  where c.user_id = p_user_id and (p_kind is null or c.kind = p_kind)
+  group by c.citation
+  order by count(distinct c.document_id) desc, c.citation;
+$$;
@@ -0,0 +1,13 @@
+-- Embedding models a user's documents were indexed with (null for documents
+-- indexed before the model was recorded), so chat only embeds the query with those
+create or replace function list_document_embedding_models(p_user_id uuid)
+returns table (embedding_model text)
+language sql
+stable
+as $$
+  select distinct d.embedding_model
+  from documents d
+  where d.user_id = p_user_id;
+$$;
+
+create index if not exists documents_user_embedding_model_idx on documents(user_id, embedding_model);
@@ -0,0 +1,7 @@
+-- Governing law and jurisdiction are stored lower-cased (see normalizePlace),
+-- so filters match them exactly in Postgres and Pinecone alike
+update documents
+set governing_law = lower(governing_law),
+  jurisdiction = lower(jurisdiction)
+where governing_law <> lower(governing_law)
+  or jurisdiction <> lower(jurisdiction);
@@ -0,0 +1,12 @@
+-- Only completed documents have vectors: processing and failed ones have no
+-- embedding model yet, which would otherwise read as the legacy model
+create or replace function list_document_embedding_models(p_user_id uuid)
+returns table (embedding_model text)
+language sql
+stable
+as $$
+  select distinct d.embedding_model
+  from documents d
+  where d.user_id = p_user_id
+    and d.status = 'completed';
+$$;